@@ -0,0 +1,235 @@
+import { AggregatedSummary, MetalSymbol, PriceDataSummary } from "../types";
+import { RareEarthMetalPredictor } from "../predictors/RareEarthMetalPredictor";
+import { MetalPriceFetcher } from "../fetchers/MetalPriceFetcher";
+import { SqliteStore } from "../storage/SqliteStore";
+import { NewsSignal } from "../statistics/newsWeighting";
+import { computeBasketSeries, mergeMetalSeries, summarizePriceSeries } from "../statistics/priceStatistics";
+
+export type MetalSeries = Record<MetalSymbol, Array<{ date: string; priceUsd: number }>>;
+
+export const FLAT_THRESHOLD_PERCENT = 0.25; // |change| below this counts as "flat"
+
+/** One historical aggregate to replay, as of the date it was produced. */
+export interface BacktestInput {
+  asOf: string; // YYYY-MM-DD
+  analyzedAt?: string; // ISO time the analysis ran, news ages from it; the start of `asOf` when absent
+  runId?: string;
+  summary: AggregatedSummary;
+  results?: NewsSignal[]; // per-article analyses of the run; without them only the aggregate counts are replayed
+}
+
+/** Prediction vs. realized outcome at one as-of date. */
+export interface BacktestObservation {
+  asOf: string;
+  runId?: string;
+  evaluatedOn: string; // trading day used as the realized 14-day price
+  basePrice: number;
+  realizedPrice: number;
+  predictedChangePercent: number;
+  actualChangePercent: number;
+  confidence: number;
+  directionHit: boolean;
+}
+
+export interface CalibrationBin {
+  range: [number, number];
+  count: number;
+  meanConfidence: number;
+  hitRate: number;
+}
+
+export interface ErrorMetrics {
+  directionalHitRate: number; // 0..1
+  mae: number; // percentage points
+  rmse: number; // percentage points
+}
+
+export interface BacktestReport {
+  horizonDays: number;
+  priceSeriesStart: string;
+  priceSeriesEnd: string;
+  inputs: number;
+  evaluated: number;
+  skipped: Array<{ asOf: string; reason: string }>;
+  model: ErrorMetrics;
+  randomWalk: ErrorMetrics; // predicts no change over the horizon
+  maeSkill: number; // 1 - MAE(model) / MAE(random walk); > 0 beats the baseline
+  calibration: CalibrationBin[];
+  expectedCalibrationError: number;
+  observations: BacktestObservation[];
+}
+
+/**
+ * Replays stored aggregates against realized basket prices.
+ * At each as-of date the predictor only sees price data up to that date and, like a pipeline
+ * run, the per-article analyses of the aggregate with their events and coverage, weighed by
+ * their age at that time; the prediction is then compared with the basket price
+ * `horizonDays` calendar days later.
+ */
+export class PredictorBacktester {
+  private readonly CALIBRATION_BINS = 5;
+
+  constructor(
+    private readonly predictor = new RareEarthMetalPredictor(),
+    private readonly horizonDays = 14,
+  ) {}
+
+  public run(inputs: BacktestInput[], prices: MetalSeries): BacktestReport {
+    const basket = computeBasketSeries(prices);
+    const observations: BacktestObservation[] = [];
+    const skipped: BacktestReport["skipped"] = [];
+
+    for (const input of [...inputs].sort((a, b) => a.asOf.localeCompare(b.asOf))) {
+      const base = lastOnOrBefore(basket, input.asOf);
+      const targetDate = addDays(input.asOf, this.horizonDays);
+      const realized = lastOnOrBefore(basket, targetDate);
+
+      if (!base) {
+        skipped.push({ asOf: input.asOf, reason: "no price data on or before as-of date" });
+        continue;
+      }
+      if (!realized || targetDate > basket[basket.length - 1].date) {
+        skipped.push({ asOf: input.asOf, reason: `no realized price ${this.horizonDays} days later` });
+        continue;
+      }
+
+      const prediction = this.predictor.predictAll(
+        input.summary,
+        this.priceDataAsOf(prices, input.asOf),
+        input.results?.length ? input.results : undefined,
+        new Date(input.analyzedAt ?? `${input.asOf}T00:00:00.000Z`),
+      ).basket;
+      const actualChangePercent = ((realized.priceUsd - base.priceUsd) / base.priceUsd) * 100;
+
+      observations.push({
+        asOf: input.asOf,
+        runId: input.runId,
+        evaluatedOn: realized.date,
+        basePrice: round(base.priceUsd),
+        realizedPrice: round(realized.priceUsd),
+        predictedChangePercent: prediction.predictedChangePercent,
+        actualChangePercent: round(actualChangePercent),
+        confidence: prediction.confidence,
+        directionHit:
+          this.direction(prediction.predictedChangePercent) === this.direction(actualChangePercent),
+      });
+    }
+
+    const model = this.errorMetrics(observations.map((o) => [o.predictedChangePercent, o.actualChangePercent]));
+    const randomWalk = this.errorMetrics(observations.map((o) => [0, o.actualChangePercent]));
+    const calibration = this.calibrate(observations);
+    const expectedCalibrationError = observations.length
+      ? calibration.reduce(
+          (sum, bin) => sum + (bin.count / observations.length) * Math.abs(bin.meanConfidence - bin.hitRate),
+          0,
+        )
+      : 0;
+
+    return {
+      horizonDays: this.horizonDays,
+      priceSeriesStart: basket[0]?.date ?? "",
+      priceSeriesEnd: basket[basket.length - 1]?.date ?? "",
+      inputs: inputs.length,
+      evaluated: observations.length,
+      skipped,
+      model,
+      randomWalk,
+      maeSkill: randomWalk.mae > 0 ? round(1 - model.mae / randomWalk.mae, 3) : 0,
+      calibration,
+      expectedCalibrationError: round(expectedCalibrationError, 3),
+      observations,
+    };
+  }
+
+  /** Price summary restricted to data the predictor could have seen on `asOf`. */
+  private priceDataAsOf(prices: MetalSeries, asOf: string): PriceDataSummary {
+    const truncated = {} as MetalSeries;
+    for (const symbol of Object.keys(prices) as MetalSymbol[]) {
+      truncated[symbol] = prices[symbol].filter((p) => p.date <= asOf);
+    }
+    return summarizePriceSeries(truncated, "seed", `${asOf}T00:00:00.000Z`);
+  }
+
+  private direction(changePercent: number): "up" | "down" | "flat" {
+    if (Math.abs(changePercent) < FLAT_THRESHOLD_PERCENT) return "flat";
+    return changePercent > 0 ? "up" : "down";
+  }
+
+  private errorMetrics(pairs: Array<[number, number]>): ErrorMetrics {
+    if (!pairs.length) return { directionalHitRate: 0, mae: 0, rmse: 0 };
+    const hits = pairs.filter(([p, a]) => this.direction(p) === this.direction(a)).length;
+    const absErrors = pairs.map(([p, a]) => Math.abs(p - a));
+    return {
+      directionalHitRate: round(hits / pairs.length, 3),
+      mae: round(absErrors.reduce((s, e) => s + e, 0) / pairs.length, 3),
+      rmse: round(Math.sqrt(absErrors.reduce((s, e) => s + e * e, 0) / pairs.length), 3),
+    };
+  }
+
+  /** Equal-width confidence bins comparing stated confidence with realized directional hit rate. */
+  private calibrate(observations: BacktestObservation[]): CalibrationBin[] {
+    const width = 1 / this.CALIBRATION_BINS;
+    const bins: CalibrationBin[] = [];
+    for (let i = 0; i < this.CALIBRATION_BINS; i++) {
+      const lo = i * width;
+      const hi = (i + 1) * width;
+      const members = observations.filter(
+        (o) => o.confidence >= lo && (o.confidence < hi || (i === this.CALIBRATION_BINS - 1 && o.confidence <= hi)),
+      );
+      if (!members.length) continue;
+      bins.push({
+        range: [round(lo, 2), round(hi, 2)],
+        count: members.length,
+        meanConfidence: round(members.reduce((s, o) => s + o.confidence, 0) / members.length, 3),
+        hitRate: round(members.filter((o) => o.directionHit).length / members.length, 3),
+      });
+    }
+    return bins;
+  }
+}
+
+/** Prices to score against: the bundled seed data merged with every PriceDataSummary in the store. */
+export function loadBacktestPrices(store: SqliteStore): MetalSeries {
+  return mergeMetalSeries([
+    new MetalPriceFetcher().loadSeedData().metals,
+    ...store.loadPriceHistory().map((p) => p.priceData.metals),
+  ]);
+}
+
+/**
+ * Realized basket change in percent over `horizonDays` calendar days from an as-of date,
+ * measured like the backtest; undefined where the series does not cover both ends.
+ */
+export function realizedBasketChange(prices: MetalSeries, horizonDays: number): (asOf: string) => number | undefined {
+  const basket = computeBasketSeries(prices);
+  return (asOf) => {
+    const base = lastOnOrBefore(basket, asOf);
+    const targetDate = addDays(asOf, horizonDays);
+    if (!base || !basket.length || targetDate > basket[basket.length - 1].date) return undefined;
+    const realized = lastOnOrBefore(basket, targetDate)!;
+    return round(((realized.priceUsd - base.priceUsd) / base.priceUsd) * 100);
+  };
+}
+
+function lastOnOrBefore(
+  series: Array<{ date: string; priceUsd: number }>,
+  date: string,
+): { date: string; priceUsd: number } | undefined {
+  let found: { date: string; priceUsd: number } | undefined;
+  for (const point of series) {
+    if (point.date > date) break;
+    found = point;
+  }
+  return found;
+}
+
+function addDays(isoDate: string, days: number): string {
+  const d = new Date(`${isoDate}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+}
+
+function round(value: number, digits = 2): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
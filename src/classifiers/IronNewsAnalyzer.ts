@@ -1,18 +1,25 @@
 import { AnalyzeInput, Classification } from "../types";
-import { OpenAIService } from "../services/OpenAIService";
+import { LlmProvider, recordLlmFallback } from "../services/LlmProvider";
 
 export class IronNewsAnalyzer {
-  constructor(private readonly ai: OpenAIService) {}
+  constructor(private readonly ai: LlmProvider) {}
 
   public async analyze(source: AnalyzeInput): Promise<Classification> {
-    if (this.ai.enabled) {
-      try {
-        return await this.ai.classifyNews(source);
-      } catch (e) {
-        // fallthrough to a naive baseline
+    if (!this.ai.isEnabled("classify")) {
+      recordLlmFallback("classify", "ai_disabled");
+      return { ...naiveBaseline(source.headline), fallbackReason: "ai_disabled" };
+    }
+    try {
+      const result = await this.ai.classifyNews(source);
+      // keep the reason so a baseline "neutral" stays distinguishable from a model "neutral"
+      if (result.fallbackReason) {
+        return { ...naiveBaseline(source.headline), fallbackReason: result.fallbackReason };
       }
+      return result;
+    } catch (e) {
+      recordLlmFallback("classify", "request_error", (e as Error).message);
+      return { ...naiveBaseline(source.headline), fallbackReason: "request_error" };
     }
-    return naiveBaseline(source.headline);
   }
 }
 
@@ -2,40 +2,68 @@ import {
   AnalyzeInput,
   Classification,
   Article,
+  MarketEventExtraction,
   RareEarthPriceImpact,
 } from "../types";
-import { OpenAIService } from "../services/OpenAIService";
+import { LlmProvider, recordLlmFallback } from "../services/LlmProvider";
 
 export class RareEarthMetalAnalyzer {
-  constructor(private readonly ai: OpenAIService) {}
+  constructor(private readonly ai: LlmProvider) {}
 
   public async analyze(source: AnalyzeInput): Promise<Classification> {
-    if (this.ai.enabled) {
+    if (this.ai.isEnabled("classify")) {
       try {
         return await this.ai.classifyNews(source);
       } catch (e) {
-        // fallback
+        recordLlmFallback("classify", "request_error", (e as Error).message);
+        return { sentiment: "neutral", impact: "flat", confidence: 0.3, fallbackReason: "request_error" };
       }
     }
-    return { sentiment: "neutral", impact: "flat", confidence: 0.3 };
+    recordLlmFallback("classify", "ai_disabled");
+    return { sentiment: "neutral", impact: "flat", confidence: 0.3, fallbackReason: "ai_disabled" };
   }
 
   /**
    * Determine expected price impact direction for a rare earth related article.
    */
   public async priceImpact(article: Article): Promise<RareEarthPriceImpact> {
-    if (this.ai.enabled) {
+    if (this.ai.isEnabled("priceImpact")) {
       try {
         return await this.ai.assessRareEarthPriceImpact(article);
       } catch (e) {
-        // swallow and return uncertain
+        recordLlmFallback("priceImpact", "request_error", (e as Error).message);
+        return {
+          direction: "uncertain",
+          confidence: 0.2,
+          drivers: [],
+          reasoning: "request_error",
+          fallbackReason: "request_error",
+        };
       }
     }
+    recordLlmFallback("priceImpact", "ai_disabled");
     return {
       direction: "uncertain",
       confidence: 0.2,
       drivers: [],
       reasoning: "ai_disabled",
+      fallbackReason: "ai_disabled",
     };
   }
+
+  /**
+   * Extract structured market events from a relevant article. Fallbacks carry no events.
+   */
+  public async events(article: Article): Promise<MarketEventExtraction> {
+    if (this.ai.isEnabled("events")) {
+      try {
+        return await this.ai.extractMarketEvents(article);
+      } catch (e) {
+        recordLlmFallback("events", "request_error", (e as Error).message);
+        return { events: [], fallbackReason: "request_error" };
+      }
+    }
+    recordLlmFallback("events", "ai_disabled");
+    return { events: [], fallbackReason: "ai_disabled" };
+  }
 }
@@ -0,0 +1,596 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { AppConfig, getConfig } from "../config";
+import {
+  BacktestInput,
+  BacktestReport,
+  FLAT_THRESHOLD_PERCENT,
+  PredictorBacktester,
+  loadBacktestPrices,
+  realizedBasketChange,
+} from "../backtest/PredictorBacktester";
+import { backfillStatus, continueBackfill, describeBackfill, openBackfill } from "../pipeline/backfill";
+import {
+  PipelineMode,
+  PipelineOptions,
+  PipelineResult,
+  estimateApiRequests,
+  rerunStage,
+  resumeRun,
+  runPipeline,
+} from "../pipeline/runner";
+import { STAGE_NAMES, StageName, planStages } from "../pipeline/stages";
+import { NEWS_PAGE_LIMIT, createFullTextFetcher, loadRunResults, newsQueries } from "../pipeline/steps";
+import { PredictionSet } from "../predictors/RareEarthMetalPredictor";
+import { log } from "../common/logger";
+import { getQueryCatalog } from "../common/querySets";
+import { BudgetTracker } from "../scheduler/BudgetTracker";
+import { PipelineScheduler } from "../scheduler/PipelineScheduler";
+import { BackfillGranularity, BackfillRecord, RunRecord, SqliteStore, openStore } from "../storage/SqliteStore";
+import { newsWeightingFromConfig, sourceExclusion } from "../statistics/newsWeighting";
+import { QueryStats, computeQueryStats } from "../statistics/queryStats";
+import { SourceStats, computeSourceStats } from "../statistics/sourceAnalytics";
+import { AggregatedSummary } from "../types";
+import {
+  CliError,
+  EXIT_CODES,
+  parseDateRange,
+  parseMetals,
+  parsePositiveInt,
+  readQueriesFile,
+  selectMetals,
+} from "./options";
+
+export type OptionValues = Record<string, string | boolean | undefined>;
+
+export interface OptionSpec {
+  type: "string" | "boolean";
+  description: string;
+  placeholder?: string; // value name shown in the usage
+}
+
+/** One subcommand. `run` returns what --json prints and --out writes, or undefined for none. */
+export interface CliCommand {
+  name: string;
+  summary: string;
+  options: Record<string, OptionSpec>;
+  run(values: OptionValues): Promise<unknown>;
+}
+
+const OPTIONS: Record<string, OptionSpec> = {
+  from: { type: "string", placeholder: "date", description: "Earliest publication date (YYYY-MM-DD or ISO time)" },
+  to: { type: "string", placeholder: "date", description: "Latest publication date, inclusive" },
+  "queries-file": { type: "string", placeholder: "path", description: "News queries: JSON array or one per line" },
+  "query-set": { type: "string", placeholder: "name", description: "Query set to fetch with (default QUERY_SET or the configured default)" },
+  metals: { type: "string", placeholder: "ND,LI", description: "Limit the per-metal predictions in the output" },
+  "fetch-prices": { type: "boolean", description: "Fetch price data first instead of using the latest stored" },
+  "skip-price-fetch": { type: "boolean", description: "Use the latest stored price data instead of fetching it" },
+  run: { type: "string", placeholder: "run id", description: "Run to work on" },
+  horizon: { type: "string", placeholder: "days", description: "Prediction horizon in days (default 14)" },
+  out: { type: "string", placeholder: "path", description: "Write the output to a file (.jsonl for one record per line)" },
+  json: { type: "boolean", description: "Print the output as JSON on stdout; logs go to stderr" },
+};
+
+function pick(...names: string[]): Record<string, OptionSpec> {
+  return Object.fromEntries(names.map((name) => [name, OPTIONS[name]]));
+}
+
+export const COMMANDS: CliCommand[] = [
+  {
+    name: "run",
+    summary: "Fetch and analyze news, aggregate and predict (the default command)",
+    options: pick("from", "to", "queries-file", "query-set", "metals", "skip-price-fetch", "out", "json"),
+    async run(values) {
+      const options = { fetchPrices: values["skip-price-fetch"] !== true, news: newsOptions(values) };
+      const metals = parseMetals(str(values.metals));
+      return withStore(async (cfg, store) => {
+        const result = await runBudgeted(cfg, store, "analysis", options);
+        if (!result.aggregate || !result.predictions) throw noNewsProvider();
+        return predictionOutput(result.runId, result.aggregate, result.predictions, metals);
+      });
+    },
+  },
+  {
+    name: "fetch-news",
+    summary: "Fetch and store news articles without analyzing them",
+    options: pick("from", "to", "queries-file", "query-set", "out", "json"),
+    async run(values) {
+      const options = { news: newsOptions(values) };
+      return withStore(async (cfg, store) => {
+        const result = await runBudgeted(cfg, store, "fetch", options);
+        if (!result.articles) throw noNewsProvider();
+        log(`Run ${result.runId} stored ${result.articles.length} articles; analyze them with: analyze --run ${result.runId}`);
+        return result.articles;
+      });
+    },
+  },
+  {
+    name: "fetch-prices",
+    summary: "Fetch and store metal price data",
+    options: pick("out", "json"),
+    async run() {
+      return withStore(async (cfg, store) => {
+        const result = await runBudgeted(cfg, store, "prices", {});
+        if (!result.priceData) throw new CliError(`Run ${result.runId} got no price data`, EXIT_CODES.noData);
+        return result.priceData;
+      });
+    },
+  },
+  {
+    name: "fetch-text",
+    summary: "Retrieve an article page and extract its main text (robots.txt, rate limit and page cache apply)",
+    options: {
+      url: { type: "string", placeholder: "url", description: "Article page; a stored article with this URL keeps the text" },
+      ...pick("out", "json"),
+    },
+    async run(values) {
+      const url = str(values.url);
+      if (!url) throw new CliError("--url is required", EXIT_CODES.usage);
+      return withStore(async (cfg, store) => {
+        const result = await createFullTextFetcher(cfg, store).fetchText(url);
+        if (!result.text) throw new CliError(`No text extracted from ${url}: ${result.skipped}`, EXIT_CODES.noData);
+        store.saveArticleFullText(url, result.text);
+        if (values.json !== true) console.log(`${result.text}\n— — —\n${result.text.length} characters${result.fromCache ? " (cached page)" : ""}`);
+        return result;
+      });
+    },
+  },
+  {
+    name: "backfill",
+    summary: "Fetch news over a past date range window by window; run again (or schedule SCHEDULE_BACKFILL) to continue",
+    options: {
+      ...pick("from", "to"),
+      window: { type: "string", placeholder: "day|week", description: "Window each query is fetched for (default day)" },
+      ...pick("queries-file", "query-set"),
+      pages: { type: "string", placeholder: "n", description: `Pages requested per query and window (default ${NEWS_PAGE_LIMIT})` },
+      "max-requests": {
+        type: "string",
+        placeholder: "n",
+        description: "NewsAPI requests to spend at most (default: the day's budget less BACKFILL_DAILY_RESERVE)",
+      },
+      backfill: { type: "string", placeholder: "id", description: "Continue this backfill instead of the one with the same options" },
+      list: { type: "boolean", description: "Show every backfill and its progress without fetching" },
+      ...pick("out", "json"),
+    },
+    async run(values) {
+      const maxRequests = values["max-requests"] === undefined ? undefined : parsePositiveInt("max-requests", str(values["max-requests"])!);
+      return withStore(async (cfg, store) => {
+        if (values.list === true) {
+          const backfills = store.listBackfills().map((b) => backfillStatus(store, b));
+          if (values.json !== true) backfills.forEach((b) => console.log(`${b.status === "completed" ? "completed" : "active   "} ${describeBackfill(b)}`));
+          return backfills;
+        }
+        const backfill = str(values.backfill) ? requireBackfill(store, str(values.backfill)!) : openBackfill(store, backfillRequest(values));
+        const budget = BudgetTracker.fromConfig(cfg, store);
+        const progress = await continueBackfill(cfg, store, backfill.id, {
+          budget,
+          maxRequests,
+          // An explicit limit is the caller's call on how much of the day's quota to use
+          reserve: maxRequests === undefined ? cfg.backfillDailyReserve : 0,
+        });
+        if (!progress.fetched && progress.stoppedBy) {
+          throw new CliError(`Request budget: ${progress.stoppedBy}; continue ${backfill.id} later`, EXIT_CODES.budget);
+        }
+        log(`Backfill ${describeBackfill(progress)}`);
+        if (progress.stoppedBy) {
+          log(`Paused: ${progress.stoppedBy}. Continue with: backfill --backfill ${backfill.id}`);
+        } else {
+          log(`Analyze the articles with: analyze --from ${backfill.from} --to ${backfill.to}`);
+        }
+        return progress;
+      });
+    },
+  },
+  {
+    name: "analyze",
+    summary: "Analyze stored articles: those of a fetch run (default: the latest) and/or a date window",
+    options: pick("run", "from", "to", "out", "json"),
+    async run(values) {
+      const { from, to } = parseDateRange({ from: str(values.from), to: str(values.to) });
+      return withStore(async (cfg, store) => {
+        let sourceRunId = str(values.run);
+        if (sourceRunId && !store.getRun(sourceRunId)) throw new CliError(`Run ${sourceRunId} not found`, EXIT_CODES.usage);
+        else if (!from && !to) {
+          sourceRunId = store.findLatestRun("fetch")?.id;
+          if (!sourceRunId) {
+            throw new CliError("No completed fetch-news run to analyze; pass --run or --from/--to", EXIT_CODES.noData);
+          }
+        }
+        const result = await runPipeline(cfg, store, "analysis", {
+          storedArticles: { runId: sourceRunId, from, to },
+          until: "analyze",
+        });
+        if (!result.analysis) throw new CliError("No stored articles match", EXIT_CODES.noData);
+        const { runId, analysis } = result;
+        log(
+          `Run ${runId}: ${analysis.results.length} of ${analysis.totalArticles} articles relevant; aggregate them with: aggregate --run ${runId}`
+        );
+        return { runId, sourceRunId, ...analysis };
+      });
+    },
+  },
+  {
+    name: "aggregate",
+    summary: "Aggregate the analyses of an analysis run (default: the latest) and predict again",
+    options: pick("run", "metals", "out", "json"),
+    async run(values) {
+      const metals = parseMetals(str(values.metals));
+      return withStore(async (cfg, store) => {
+        const runId = str(values.run) ?? store.findLatestRun("analysis")?.id;
+        if (!runId) throw new CliError("No completed analysis run to aggregate; run analyze first", EXIT_CODES.noData);
+        requireRun(store, runId, "analysis");
+        const result = await rerunStage(cfg, store, runId, "aggregate");
+        if (!result.aggregate || !result.predictions) throw new CliError(`Run ${runId} has no analyses`, EXIT_CODES.noData);
+        return predictionOutput(runId, result.aggregate, result.predictions, metals);
+      });
+    },
+  },
+  {
+    name: "predict",
+    summary: "Regenerate predictions from the latest aggregate",
+    options: pick("metals", "fetch-prices", "out", "json"),
+    async run(values) {
+      const options = { fetchPrices: values["fetch-prices"] === true };
+      const metals = parseMetals(str(values.metals));
+      return withStore(async (cfg, store) => {
+        const result = await runBudgeted(cfg, store, "prediction", options);
+        if (!result.aggregate || !result.predictions) {
+          throw new CliError("No stored aggregate to predict from; run an analysis first", EXIT_CODES.noData);
+        }
+        return predictionOutput(result.runId, result.aggregate, result.predictions, metals);
+      });
+    },
+  },
+  {
+    name: "resume",
+    summary: "Continue a failed or interrupted run from its stage checkpoints",
+    options: pick("run", "metals", "out", "json"),
+    async run(values) {
+      const metals = parseMetals(str(values.metals));
+      return withStore(async (cfg, store) => {
+        const runId = requiredRunOption(values);
+        const run = requireRun(store, runId);
+        if (run.status === "completed") {
+          throw new CliError(`Run ${runId} already completed; re-run one of its stages instead`, EXIT_CODES.usage);
+        }
+        return resultOutput(await resumeRun(cfg, store, runId, BudgetTracker.fromConfig(cfg, store)), metals);
+      });
+    },
+  },
+  {
+    name: "rerun",
+    summary: "Run one stage of a run again from the stored outputs of the stages before it",
+    options: {
+      ...pick("run"),
+      stage: { type: "string", placeholder: "name", description: "Stage to re-run; later stages using its output follow" },
+      ...pick("metals", "out", "json"),
+    },
+    async run(values) {
+      const metals = parseMetals(str(values.metals));
+      const stage = str(values.stage);
+      if (!stage || !STAGE_NAMES.includes(stage as StageName)) {
+        throw new CliError(`--stage must be one of ${STAGE_NAMES.join(", ")}`, EXIT_CODES.usage);
+      }
+      return withStore(async (cfg, store) => {
+        const runId = requiredRunOption(values);
+        const run = requireRun(store, runId);
+        const plan = planStages(run.mode, run.inputs!).map((s) => s.name);
+        if (!plan.includes(stage as StageName)) {
+          throw new CliError(`Run ${runId} (${run.mode}) has no ${stage} stage (stages: ${plan.join(", ")})`, EXIT_CODES.usage);
+        }
+        const result = await rerunStage(cfg, store, runId, stage as StageName, BudgetTracker.fromConfig(cfg, store));
+        return resultOutput(result, metals);
+      });
+    },
+  },
+  {
+    name: "backtest",
+    summary: "Replay stored aggregates against realized prices",
+    options: {
+      aggregates: { type: "string", placeholder: "path", description: "Extra aggregates: JSON file of [{ asOf, summary, runId?, results? }]" },
+      ...pick("horizon", "from", "to", "out", "json"),
+    },
+    async run(values) {
+      const horizon = parseHorizon(values);
+      const { from, to } = parseDateRange({ from: str(values.from), to: str(values.to) });
+      const report = await withStore(async (_cfg, store) => backtest(store, str(values.aggregates), horizon, from, to));
+      if (values.json !== true) printReport(report);
+      if (!report.evaluated) throw new CliError("No aggregate could be scored", EXIT_CODES.noData);
+      return report;
+    },
+  },
+  {
+    name: "sources",
+    summary: "Per-source article counts, sentiment and hit rate of price impact calls over analyzed articles",
+    options: pick("from", "to", "horizon", "out", "json"),
+    async run(values) {
+      const horizon = parseHorizon(values);
+      const { from, to } = parseDateRange({ from: str(values.from), to: str(values.to) });
+      return withStore(async (cfg, store) => {
+        const weighting = newsWeightingFromConfig(cfg);
+        const sources = computeSourceStats(store.loadLatestAnalyses(from, to), {
+          weighting,
+          exclusion: (article) => sourceExclusion(article, cfg, weighting),
+          realizedChange: realizedBasketChange(loadBacktestPrices(store), horizon),
+          flatThresholdPercent: FLAT_THRESHOLD_PERCENT,
+        });
+        if (!sources.length) throw new CliError("No analyzed articles in the window", EXIT_CODES.noData);
+        if (values.json !== true) printSources(sources, horizon);
+        return { from, to, horizonDays: horizon, sources };
+      });
+    },
+  },
+  {
+    name: "queries",
+    summary: "Per-query yield and relevance rate over the news requests made, or the queries of a set",
+    options: {
+      ...pick("from", "to", "query-set"),
+      show: { type: "boolean", description: "Print the provider queries of the set (after splitting) instead of statistics" },
+      ...pick("out", "json"),
+    },
+    async run(values) {
+      const { querySet } = querySelection(values);
+      if (values.show === true) {
+        const queries = newsQueries({ querySet });
+        if (values.json !== true) queries.forEach((q) => console.log(`${q.id} (${q.query.length} characters)\n  ${q.query}`));
+        return queries;
+      }
+      const { from, to } = parseDateRange({ from: str(values.from), to: str(values.to) });
+      return withStore(async (_cfg, store) => {
+        const queries = computeQueryStats(store.loadQueryFetches(from, to), newsQueries({ querySet }));
+        if (!queries.length) throw new CliError("No news queries were fetched in the window", EXIT_CODES.noData);
+        if (values.json !== true) printQueries(queries);
+        return { from, to, queries };
+      });
+    },
+  },
+  {
+    name: "serve",
+    summary: "Start the dashboard server",
+    options: { port: { type: "string", placeholder: "port", description: "Port to listen on (default PORT or 3000)" } },
+    async run(values) {
+      if (values.port !== undefined) process.env.PORT = String(parsePositiveInt("port", str(values.port)!));
+      await import("../server");
+      await waitForSignal();
+      return undefined;
+    },
+  },
+  {
+    name: "scheduler",
+    summary: "Run the news, prices and prediction jobs on their SCHEDULE_* cron expressions",
+    options: {},
+    async run() {
+      return withStore(async (cfg, store) => {
+        const scheduler = new PipelineScheduler(cfg, store);
+        scheduler.start();
+        log(`[scheduler] Running against ${cfg.dbPath}; Ctrl+C to stop`);
+        const signal = await waitForSignal();
+        log(`[scheduler] ${signal} received, waiting for the job in progress...`);
+        await scheduler.stop();
+        return undefined;
+      });
+    },
+  },
+];
+
+/** Usage of every command, or of one. */
+export function usage(command?: CliCommand): string {
+  if (command) {
+    const lines = Object.entries(command.options).map(([name, spec]) => {
+      const flag = `--${name}${spec.placeholder ? ` <${spec.placeholder}>` : ""}`;
+      return `  ${flag.padEnd(26)} ${spec.description}`;
+    });
+    return [`Usage: npm run cli -- ${command.name} [options]`, "", command.summary, "", "Options:", ...lines, `  ${"-h, --help".padEnd(26)} Show this help`].join("\n");
+  }
+  const exitCodes = Object.entries(EXIT_CODES).map(([name, code]) => `${code} ${name}`).join(", ");
+  return [
+    "Usage: npm run cli -- <command> [options]",
+    "",
+    "Commands:",
+    ...COMMANDS.map((c) => `  ${c.name.padEnd(14)} ${c.summary}`),
+    `  ${"help".padEnd(14)} Show this help, or a command's options (help <command>)`,
+    "",
+    `Exit codes: ${exitCodes}`,
+  ].join("\n");
+}
+
+function str(value: string | boolean | undefined): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function newsOptions(values: OptionValues): PipelineOptions["news"] {
+  return { ...querySelection(values), ...parseDateRange({ from: str(values.from), to: str(values.to) }) };
+}
+
+/** --queries-file or --query-set (checked to exist); neither selects the configured query set. */
+function querySelection(values: OptionValues): { queries?: string[]; querySet?: string } {
+  const querySet = str(values["query-set"]);
+  if (querySet === undefined) return { queries: readQueriesFile(str(values["queries-file"])) };
+  if (values["queries-file"] !== undefined) throw new CliError("--queries-file and --query-set exclude each other", EXIT_CODES.usage);
+  const { sets } = getQueryCatalog();
+  if (!sets[querySet]) throw new CliError(`--query-set must be one of ${Object.keys(sets).join(", ")}, got '${querySet}'`, EXIT_CODES.usage);
+  return { querySet };
+}
+
+async function withStore<T>(work: (cfg: AppConfig, store: SqliteStore) => Promise<T>): Promise<T> {
+  const cfg = getConfig();
+  const store = openStore(cfg.dbPath);
+  try {
+    return await work(cfg, store);
+  } finally {
+    store.close();
+  }
+}
+
+/** Run the pipeline with request budgets, refusing up front when the requests would not fit. */
+async function runBudgeted(cfg: AppConfig, store: SqliteStore, mode: PipelineMode, options: PipelineOptions) {
+  const budget = BudgetTracker.fromConfig(cfg, store);
+  const shortfall = budget.shortfall(estimateApiRequests(cfg, mode, options));
+  if (shortfall) throw new CliError(`Request budget: ${shortfall}`, EXIT_CODES.budget);
+  return runPipeline(cfg, store, mode, { ...options, budget });
+}
+
+function parseHorizon(values: OptionValues): number {
+  return values.horizon === undefined ? 14 : parsePositiveInt("horizon", str(values.horizon)!);
+}
+
+/** --from/--to (days), --window, the queries and --pages of a new or continued backfill. */
+function backfillRequest(values: OptionValues) {
+  const { from, to } = parseDateRange({ from: str(values.from), to: str(values.to) });
+  if (!from || !to) throw new CliError("--from and --to are required (or --backfill to continue one by id)", EXIT_CODES.usage);
+  const window = str(values.window) ?? "day";
+  if (window !== "day" && window !== "week") throw new CliError(`--window must be day or week, got '${window}'`, EXIT_CODES.usage);
+  return {
+    from: from.split("T")[0],
+    to: to.split("T")[0],
+    window: window as BackfillGranularity,
+    queries: newsQueries(querySelection(values)),
+    pageLimit: values.pages === undefined ? undefined : parsePositiveInt("pages", str(values.pages)!),
+  };
+}
+
+function requireBackfill(store: SqliteStore, backfillId: string): BackfillRecord {
+  const backfill = store.getBackfill(backfillId);
+  if (!backfill) throw new CliError(`Backfill ${backfillId} not found`, EXIT_CODES.usage);
+  return backfill;
+}
+
+function requiredRunOption(values: OptionValues): string {
+  const runId = str(values.run);
+  if (!runId) throw new CliError("--run is required", EXIT_CODES.usage);
+  return runId;
+}
+
+/** Check that the run exists (and is of `mode`) and recorded its stages. */
+function requireRun(store: SqliteStore, runId: string, mode?: PipelineMode): RunRecord {
+  const run = store.getRun(runId);
+  if (!run) throw new CliError(`Run ${runId} not found`, EXIT_CODES.usage);
+  if (mode && run.mode !== mode) throw new CliError(`Run ${runId} is a ${run.mode} run, not ${mode}`, EXIT_CODES.usage);
+  if (!run.inputs) throw new CliError(`Run ${runId} predates stage checkpoints`, EXIT_CODES.usage);
+  return run;
+}
+
+function noNewsProvider(): CliError {
+  return new CliError("No news provider configured", EXIT_CODES.noData);
+}
+
+function predictionOutput(
+  runId: string,
+  aggregate: AggregatedSummary,
+  predictions: PredictionSet,
+  metals: string[] | undefined
+) {
+  const { pricePrediction, metalPredictions, ...summary } = aggregate;
+  return { runId, summary, predictions: selectMetals(predictions, metals) };
+}
+
+/** Aggregate and predictions when the run produced them, else what it extracted. */
+function resultOutput(result: PipelineResult, metals: string[] | undefined) {
+  if (result.aggregate && result.predictions) {
+    return predictionOutput(result.runId, result.aggregate, result.predictions, metals);
+  }
+  return { runId: result.runId, articles: result.articles?.length, priceData: result.priceData ?? undefined };
+}
+
+function waitForSignal(): Promise<NodeJS.Signals> {
+  return new Promise((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+}
+
+/**
+ * Offline backtest of RareEarthMetalPredictor.
+ * Prices: bundled seed data merged with every PriceDataSummary in the store.
+ * Aggregates: every analysis-run aggregate in the store with the run's per-article results,
+ * plus an optional JSON file holding [{ asOf, summary, results? }], limited to as-of dates
+ * within [from, to].
+ */
+function backtest(
+  store: SqliteStore,
+  aggregatesFile: string | undefined,
+  horizon: number,
+  from?: string,
+  to?: string
+): BacktestReport {
+  const prices = loadBacktestPrices(store);
+
+  // Prediction-only runs re-store an earlier aggregate; replay only the original
+  const inputs: BacktestInput[] = store
+    .loadAggregateHistory()
+    .filter((a) => !a.sourceRunId)
+    .map((a) => {
+      const analyzedAt = store.getRun(a.runId)?.startedAt ?? a.createdAt;
+      return { asOf: analyzedAt.split("T")[0], analyzedAt, runId: a.runId, summary: a.summary };
+    });
+  if (aggregatesFile) {
+    const file = path.resolve(process.cwd(), aggregatesFile);
+    inputs.push(...(JSON.parse(readFileSync(file, "utf-8")) as BacktestInput[]));
+  }
+  const inWindow = inputs
+    .filter((input) => (!from || input.asOf >= from.split("T")[0]) && (!to || input.asOf <= to.split("T")[0]))
+    .map((input) => (input.runId && !input.results ? { ...input, results: loadRunResults(store, input.runId) } : input));
+  return new PredictorBacktester(undefined, horizon).run(inWindow, prices);
+}
+
+function printSources(sources: SourceStats[], horizon: number) {
+  const num = (v: number | null, digits = 2) => (v === null ? "–" : v.toFixed(digits));
+  console.log("— — —");
+  console.log(`Sources: ${sources.length}; hit rate of up/down calls against the ${horizon}-day basket move`);
+  console.log("— — —");
+  console.log(`${"source".padEnd(32)} tier  cred  articles  relevant  sentiment  impact  calls  hit rate`);
+  for (const s of sources) {
+    console.log(
+      `${s.name.slice(0, 31).padEnd(32)} ${String(s.tier ?? "–").padStart(4)}  ${s.credibility.toFixed(2)}` +
+        `  ${String(s.articles).padStart(8)}  ${String(s.relevant).padStart(8)}  ${num(s.averageSentiment).padStart(9)}` +
+        `  ${num(s.averagePriceImpact).padStart(6)}  ${String(s.predictive.evaluated).padStart(5)}` +
+        `  ${(s.predictive.hitRate === null ? "–" : `${(s.predictive.hitRate * 100).toFixed(0)}%`).padStart(8)}` +
+        (s.excluded ? `  excluded: ${s.excluded}` : "")
+    );
+  }
+  console.log("— — —");
+}
+
+function printQueries(queries: QueryStats[]) {
+  console.log("— — —");
+  console.log(`Queries: ${queries.length}; relevance of their analyzed articles, exclusive = found by no other query`);
+  console.log("— — —");
+  console.log(`${"query".padEnd(28)} fetches  articles  per fetch  exclusive  analyzed  relevant  rate`);
+  for (const q of queries) {
+    console.log(
+      `${`${q.id}${q.active ? "" : " (not in set)"}`.slice(0, 27).padEnd(28)} ${String(q.fetches).padStart(7)}  ${String(q.articles).padStart(8)}` +
+        `  ${q.articlesPerFetch.toFixed(1).padStart(9)}  ${String(q.exclusive).padStart(9)}  ${String(q.analyzed).padStart(8)}` +
+        `  ${String(q.relevant).padStart(8)}  ${(q.relevanceRate === null ? "–" : `${(q.relevanceRate * 100).toFixed(0)}%`).padStart(4)}`
+    );
+  }
+  console.log("— — —");
+}
+
+function printReport(report: BacktestReport) {
+  const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+  console.log("— — —");
+  console.log(`Backtest: ${report.horizonDays}-day basket predictions`);
+  console.log(`Price series: ${report.priceSeriesStart} → ${report.priceSeriesEnd}`);
+  console.log(`Aggregates: ${report.inputs} replayed, ${report.evaluated} evaluated, ${report.skipped.length} skipped`);
+  if (report.evaluated === 0) {
+    console.log("No aggregate has a realized price within the price series; nothing to score.");
+    report.skipped.forEach((s) => console.log(`  skipped ${s.asOf}: ${s.reason}`));
+    console.log("— — —");
+    return;
+  }
+  console.log("— — —");
+  console.log("                     model     random walk");
+  console.log(`Directional hit   ${pct(report.model.directionalHitRate).padStart(8)}   ${pct(report.randomWalk.directionalHitRate).padStart(8)}`);
+  console.log(`MAE (pp)          ${report.model.mae.toFixed(3).padStart(8)}   ${report.randomWalk.mae.toFixed(3).padStart(8)}`);
+  console.log(`RMSE (pp)         ${report.model.rmse.toFixed(3).padStart(8)}   ${report.randomWalk.rmse.toFixed(3).padStart(8)}`);
+  console.log(`MAE skill vs random walk: ${report.maeSkill}`);
+  console.log("— — —");
+  console.log("Confidence calibration");
+  report.calibration.forEach((bin) =>
+    console.log(
+      `  [${bin.range[0].toFixed(1)}, ${bin.range[1].toFixed(1)}] n=${bin.count} mean confidence=${pct(bin.meanConfidence)} hit rate=${pct(bin.hitRate)}`
+    )
+  );
+  console.log(`Expected calibration error: ${report.expectedCalibrationError}`);
+  console.log("— — —");
+}
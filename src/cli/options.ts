@@ -0,0 +1,122 @@
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { getMetalUniverse } from "../common/metalUniverse";
+import { log } from "../common/logger";
+import { PredictionSet } from "../predictors/RareEarthMetalPredictor";
+import { MetalSymbol } from "../types";
+
+/** Process exit codes of the CLI. */
+export const EXIT_CODES = {
+  ok: 0,
+  failed: 1, // a step threw
+  usage: 2, // unknown command, unknown option or invalid option value
+  noData: 3, // nothing to work on: no news provider, no articles, no aggregate, nothing to score
+  budget: 4, // the requests do not fit the remaining API budget
+} as const;
+
+/** An expected failure: printed without a stack trace and exits with `exitCode`. */
+export class CliError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode: number
+  ) {
+    super(message);
+  }
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** A YYYY-MM-DD date or ISO timestamp; `to` dates include the whole day. */
+export function parseDateOption(name: string, value: string | undefined, endOfDay = false): string | undefined {
+  if (value === undefined) return undefined;
+  if (Number.isNaN(Date.parse(value))) {
+    throw new CliError(`--${name} must be a date (YYYY-MM-DD) or ISO timestamp, got '${value}'`, EXIT_CODES.usage);
+  }
+  if (!ISO_DATE.test(value)) return new Date(value).toISOString();
+  return endOfDay ? `${value}T23:59:59.999Z` : `${value}T00:00:00.000Z`;
+}
+
+/** --from and --to, checked to be in order. */
+export function parseDateRange(values: { from?: string; to?: string }): { from?: string; to?: string } {
+  const from = parseDateOption("from", values.from);
+  const to = parseDateOption("to", values.to, true);
+  if (from && to && from > to) throw new CliError(`--from ${values.from} is after --to ${values.to}`, EXIT_CODES.usage);
+  return { from, to };
+}
+
+/** Comma-separated tracked metal symbols (case-insensitive); undefined when the option is absent. */
+export function parseMetals(value: string | undefined): MetalSymbol[] | undefined {
+  if (value === undefined) return undefined;
+  const universe = getMetalUniverse();
+  const symbols = value
+    .split(",")
+    .map((s) => s.trim().toUpperCase())
+    .filter(Boolean);
+  const unknown = symbols.filter((s) => !universe.bySymbol[s]);
+  if (!symbols.length || unknown.length) {
+    throw new CliError(
+      `--metals takes symbols of the ${universe.basket} basket (${universe.metals.map((m) => m.symbol).join(", ")})` +
+        (unknown.length ? `; unknown: ${unknown.join(", ")}` : ""),
+      EXIT_CODES.usage
+    );
+  }
+  return symbols;
+}
+
+/** A positive integer option. */
+export function parsePositiveInt(name: string, value: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new CliError(`--${name} must be a positive integer, got '${value}'`, EXIT_CODES.usage);
+  return n;
+}
+
+/**
+ * Provider queries from a file: a JSON array of strings, or plain text with one query per
+ * line (blank lines and lines starting with # are skipped).
+ */
+export function readQueriesFile(file: string | undefined): string[] | undefined {
+  if (file === undefined) return undefined;
+  let text: string;
+  try {
+    text = readFileSync(path.resolve(process.cwd(), file), "utf-8");
+  } catch (e) {
+    throw new CliError(`Cannot read --queries-file: ${(e as Error).message}`, EXIT_CODES.usage);
+  }
+  let queries: unknown;
+  if (text.trimStart().startsWith("[")) {
+    try {
+      queries = JSON.parse(text);
+    } catch (e) {
+      throw new CliError(`--queries-file ${file} is not valid JSON: ${(e as Error).message}`, EXIT_CODES.usage);
+    }
+  } else {
+    queries = text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith("#"));
+  }
+  if (!Array.isArray(queries) || !queries.length || !queries.every((q) => typeof q === "string" && q.trim())) {
+    throw new CliError(`--queries-file ${file} must hold at least one non-empty query`, EXIT_CODES.usage);
+  }
+  return queries.map((q: string) => q.trim());
+}
+
+/** Per-metal predictions limited to `metals`; the basket prediction is kept. */
+export function selectMetals(predictions: PredictionSet, metals: MetalSymbol[] | undefined): PredictionSet {
+  if (!metals) return predictions;
+  return {
+    basket: predictions.basket,
+    metals: Object.fromEntries(metals.filter((s) => predictions.metals[s]).map((s) => [s, predictions.metals[s]])),
+  };
+}
+
+/** Write a command's output: JSON Lines when the path ends in .jsonl and the output is a list, else JSON. */
+export function writeOutput(file: string, output: unknown): void {
+  const target = path.resolve(process.cwd(), file);
+  const text =
+    target.endsWith(".jsonl") && Array.isArray(output)
+      ? output.map((item) => JSON.stringify(item)).join("\n") + (output.length ? "\n" : "")
+      : JSON.stringify(output, null, 2) + "\n";
+  writeFileSync(target, text);
+  log(`[out] Wrote ${target}`);
+}
@@ -1,5 +1,5 @@
-import { OpenAIService } from "../services/OpenAIService";
+import { LlmProvider } from "../services/LlmProvider";
 
 export type ServerContext = {
-	ai: OpenAIService;
+	ai: LlmProvider;
 }
\ No newline at end of file
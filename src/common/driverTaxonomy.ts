@@ -0,0 +1,113 @@
+import { AggregatedSummary, PriceDriver, RareEarthPriceImpact } from "../types";
+
+/** One canonical price driver: what the model is told it means, and the phrases it absorbs. */
+export interface DriverDefinition {
+  driver: PriceDriver;
+  description: string; // shown to the model in the price impact prompt
+  synonyms: RegExp; // matched against lowercased free-text phrases (legacy data, other providers)
+}
+
+// Order matters for normalization: the first match wins, so narrow themes come before broad ones
+// ("export tariffs" is export policy, "weak ev demand" is a demand slowdown, not growth).
+export const DRIVER_TAXONOMY: DriverDefinition[] = [
+  {
+    driver: "export policy",
+    description: "export bans, quotas, licences or controls by producing countries",
+    synonyms: /export|quota|licen[cs]/,
+  },
+  {
+    driver: "tariffs and sanctions",
+    description: "import tariffs, duties, sanctions, trade disputes",
+    synonyms: /tariff|sanction|dut(y|ies)|trade (war|dispute|tension)|embargo/,
+  },
+  {
+    driver: "stockpiling",
+    description: "strategic reserves, government or industry stockpiling",
+    synonyms: /stockpil|reserve|hoard/,
+  },
+  {
+    driver: "recycling",
+    description: "recycling and recovery of metals from scrap, magnets or batteries",
+    synonyms: /recycl|metal recovery|urban mining|scrap/,
+  },
+  {
+    driver: "substitution",
+    description: "alternative chemistries or designs that use less of the metal (e.g. rare-earth-free motors, LFP)",
+    synonyms: /substitut|alternative (chemistr|material|motor|technolog)|rare.earth.free|magnet.free|thrifting|\blfp\b|sodium.ion/,
+  },
+  {
+    driver: "oversupply",
+    description: "surplus, glut, rising inventories",
+    synonyms: /oversupply|glut|surplus|inventor|excess/,
+  },
+  {
+    driver: "demand slowdown",
+    description: "weaker EV, magnet or battery demand and sales",
+    synonyms: /(demand|sales|orders).*(slow|slump|fall|drop|declin|weak|contract|cut)|(slow|slump|fall|drop|declin|weak|contract).*(demand|sales|orders)/,
+  },
+  {
+    driver: "demand growth",
+    description: "stronger EV, magnet or battery demand and sales",
+    synonyms: /demand|sales|adoption|orders|consumption/,
+  },
+  {
+    driver: "new capacity",
+    description: "new or expanded mines, refineries, magnet or cathode plants, offtake deals and investment",
+    synonyms: /capacity|expan|new (mine|plant|project|refiner|facilit|supply)|ramp|output (rise|increase|growth)|production (rise|increase|growth)|invest|funding|offtake|refiner|processing plant/,
+  },
+  {
+    driver: "supply disruption",
+    description: "mine or plant outages, production cuts, logistics or supply chain problems",
+    synonyms: /supply|shortage|disrupt|outage|halt|closure|shutdown|production cut|strike|flood|smuggl/,
+  },
+  {
+    driver: "geopolitics",
+    description: "geopolitical tension, conflict, national security concerns",
+    synonyms: /geopolit|tension|conflict|\bwar\b|security|china|dominance/,
+  },
+  {
+    driver: "government policy",
+    description: "subsidies, regulation, price controls, industrial policy (other than trade measures)",
+    synonyms: /polic|subsid|regulat|legislat|government|mandate|incentive|price (cap|control|floor)/,
+  },
+  {
+    driver: "market prices",
+    description: "reported price moves, benchmarks, speculation",
+    synonyms: /price|benchmark|spot|futures|specul|rally|sell.?off/,
+  },
+  {
+    driver: "other",
+    description: "none of the above",
+    synonyms: /^other$/,
+  },
+];
+
+export const PRICE_DRIVERS: PriceDriver[] = DRIVER_TAXONOMY.map((d) => d.driver);
+
+const CANONICAL = new Set<string>(PRICE_DRIVERS);
+
+/** Map one driver phrase onto the taxonomy; unrecognized phrases become "other". */
+export function normalizeDriver(phrase: string): PriceDriver {
+  const text = phrase.trim().toLowerCase();
+  if (CANONICAL.has(text)) return text as PriceDriver;
+  return DRIVER_TAXONOMY.find((d) => d.synonyms.test(text))?.driver ?? "other";
+}
+
+/** Normalize a driver list, keeping the first occurrence of each canonical driver. */
+export function normalizeDrivers(phrases: string[]): PriceDriver[] {
+  return [...new Set(phrases.filter((p) => p.trim()).map(normalizeDriver))];
+}
+
+/** Price impact with canonical drivers; results stored before the taxonomy carry free text. */
+export function normalizePriceImpact(impact: RareEarthPriceImpact): RareEarthPriceImpact {
+  return { ...impact, drivers: normalizeDrivers(impact.drivers) };
+}
+
+/** Aggregate with canonical dominant drivers; aggregates with driver statistics already have them. */
+export function normalizeAggregateDrivers(summary: AggregatedSummary): AggregatedSummary {
+  if (summary.driverStats) return summary;
+  return {
+    ...summary,
+    dominantDrivers: normalizeDrivers(summary.dominantDrivers).filter((d) => d !== "other"),
+  };
+}
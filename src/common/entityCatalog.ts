@@ -0,0 +1,183 @@
+import path from "path";
+import { readFileSync } from "fs";
+import { getConfig } from "../config";
+import { Article, ArticleEntity, EntityType } from "../types";
+
+/** One recognizable entity: its canonical id and the names it appears under in articles. */
+export interface EntityDefinition {
+  id: string; // canonical id, lowercase (e.g. 'lynas', 'country:au')
+  name: string; // display name
+  type: EntityType;
+  aliases: string[]; // whole-word matches; all-uppercase aliases are case-sensitive
+}
+
+/** A named set of entities; any new article mentioning one of them is flagged. */
+export interface Watchlist {
+  id: string;
+  name: string;
+  entityIds: string[]; // canonical ids
+}
+
+/** Article entities that put an article on one watchlist. */
+export interface WatchlistMatch {
+  watchlist: Watchlist;
+  entityIds: string[];
+}
+
+export interface EntityCatalog {
+  entities: EntityDefinition[];
+  byId: Record<string, EntityDefinition>;
+  watchlists: Watchlist[];
+}
+
+const DEFAULT_CATALOG_PATH = path.resolve(__dirname, "../data/entities.json");
+export const ENTITY_TYPES: EntityType[] = ["company", "automaker", "country"];
+const ID_PATTERN = /^[a-z0-9][a-z0-9:-]*$/;
+
+let cached: EntityCatalog | null = null;
+
+/**
+ * Bundled entity catalog (src/data/entities.json) extended by WATCHLISTS_CONFIG.
+ * Loaded and validated once per process.
+ */
+export function getEntityCatalog(): EntityCatalog {
+  if (!cached) {
+    cached = loadEntityCatalog([DEFAULT_CATALOG_PATH, getConfig().watchlistsConfigPath]);
+  }
+  return cached;
+}
+
+/**
+ * Read and validate entity/watchlist files and merge them in order: later entities replace
+ * earlier ones with the same id. Watchlist entries may name entities by id, name or alias.
+ * Throws with every problem found so a broken config fails fast at startup.
+ */
+export function loadEntityCatalog(configPaths: Array<string | undefined>): EntityCatalog {
+  const errors: string[] = [];
+  const definitions = new Map<string, EntityDefinition>();
+  const rawWatchlists: Array<{ where: string; raw: any }> = [];
+
+  for (const configPath of configPaths) {
+    if (!configPath) continue;
+    let raw: any;
+    try {
+      raw = JSON.parse(readFileSync(path.resolve(process.cwd(), configPath), "utf-8"));
+    } catch (e) {
+      throw new Error(`Cannot read entity config ${configPath}: ${(e as Error).message}`);
+    }
+    if (raw?.entities !== undefined && !Array.isArray(raw.entities)) {
+      errors.push(`${configPath}: 'entities' must be an array`);
+    }
+    (Array.isArray(raw?.entities) ? raw.entities : []).forEach((e: any, idx: number) => {
+      const where = `${configPath}: entities[${idx}]`;
+      if (typeof e?.id !== "string" || !ID_PATTERN.test(e.id)) {
+        errors.push(`${where}.id must be lowercase letters, digits, ':' or '-'`);
+        return;
+      }
+      if (typeof e.name !== "string" || !e.name.trim()) errors.push(`${where}.name is required`);
+      if (!ENTITY_TYPES.includes(e.type)) errors.push(`${where}.type must be one of ${ENTITY_TYPES.join(", ")}`);
+      const aliases = Array.isArray(e.aliases) ? e.aliases.filter((a: unknown) => typeof a === "string" && a.trim()) : [];
+      definitions.set(e.id, {
+        id: e.id,
+        name: String(e.name ?? "").trim(),
+        type: e.type,
+        aliases: [...new Set<string>([String(e.name ?? "").trim(), ...aliases.map((a: string) => a.trim())])].filter(Boolean),
+      });
+    });
+    if (raw?.watchlists !== undefined && !Array.isArray(raw.watchlists)) {
+      errors.push(`${configPath}: 'watchlists' must be an array`);
+    }
+    (Array.isArray(raw?.watchlists) ? raw.watchlists : []).forEach((w: any, idx: number) =>
+      rawWatchlists.push({ where: `${configPath}: watchlists[${idx}]`, raw: w })
+    );
+  }
+
+  const entities = [...definitions.values()];
+  const watchlists: Watchlist[] = [];
+  for (const { where, raw } of rawWatchlists) {
+    if (typeof raw?.id !== "string" || !ID_PATTERN.test(raw.id)) {
+      errors.push(`${where}.id must be lowercase letters, digits, ':' or '-'`);
+      continue;
+    }
+    if (watchlists.some((w) => w.id === raw.id)) errors.push(`${where}.id ${raw.id} is duplicated`);
+    if (!Array.isArray(raw.entities) || !raw.entities.length) {
+      errors.push(`${where}.entities must be a non-empty array`);
+      continue;
+    }
+    const entityIds: string[] = [];
+    for (const reference of raw.entities) {
+      const entity = typeof reference === "string" ? resolveEntity(reference, entities) : undefined;
+      if (!entity) {
+        errors.push(`${where} references unknown entity ${JSON.stringify(reference)}`);
+      } else if (!entityIds.includes(entity.id)) {
+        entityIds.push(entity.id);
+      }
+    }
+    watchlists.push({
+      id: raw.id,
+      name: typeof raw.name === "string" && raw.name.trim() ? raw.name.trim() : raw.id,
+      entityIds,
+    });
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid entity config:\n  - ${errors.join("\n  - ")}`);
+  }
+  return { entities, byId: Object.fromEntries(entities.map((e) => [e.id, e])), watchlists };
+}
+
+/** Entity for a canonical id, display name or alias (case-insensitive). */
+export function resolveEntity(reference: string, entities: EntityDefinition[]): EntityDefinition | undefined {
+  const key = reference.trim().toLowerCase();
+  return (
+    entities.find((e) => e.id === key) ??
+    entities.find((e) => e.name.toLowerCase() === key || e.aliases.some((a) => a.toLowerCase() === key))
+  );
+}
+
+const matchers = new WeakMap<EntityDefinition, RegExp>();
+
+/** Catalog entities mentioned in the article's title, description and content, most mentioned first. */
+export function extractEntities(article: Article, catalog: EntityCatalog): ArticleEntity[] {
+  const text = [article.title, article.description, article.content].filter(Boolean).join("\n");
+  const found: ArticleEntity[] = [];
+  for (const entity of catalog.entities) {
+    const mentions = text.match(aliasMatcher(entity))?.length ?? 0;
+    if (mentions) found.push({ id: entity.id, name: entity.name, type: entity.type, mentions });
+  }
+  return found.sort((a, b) => b.mentions - a.mentions || a.id.localeCompare(b.id));
+}
+
+/** Watchlists the article's entities put it on, with the entities that matched. */
+export function matchWatchlists(entities: ArticleEntity[], catalog: EntityCatalog): WatchlistMatch[] {
+  const ids = new Set(entities.map((e) => e.id));
+  return catalog.watchlists
+    .map((watchlist) => ({ watchlist, entityIds: watchlist.entityIds.filter((id) => ids.has(id)) }))
+    .filter((match) => match.entityIds.length > 0);
+}
+
+// One global regex per entity matching any alias as a whole word. Acronyms keep their exact spelling,
+// other aliases become [aA]-style classes since JS regexes have no per-alternative case flag.
+function aliasMatcher(entity: EntityDefinition): RegExp {
+  let matcher = matchers.get(entity);
+  if (!matcher) {
+    const alternatives = entity.aliases.map((alias) =>
+      alias === alias.toUpperCase() ? escapeRegExp(alias) : caseInsensitive(escapeRegExp(alias))
+    );
+    matcher = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}])`, "gu");
+    matchers.set(entity, matcher);
+  }
+  return matcher;
+}
+
+function caseInsensitive(pattern: string): string {
+  return pattern.replace(/\p{L}/gu, (ch) => {
+    const lower = ch.toLowerCase();
+    const upper = ch.toUpperCase();
+    return lower === upper ? ch : `[${lower}${upper}]`;
+  });
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,109 @@
+import { Article } from "../types";
+import { SourceRegistry, getSourceRegistry, resolveSource } from "./sourceRegistry";
+
+/** A language articles can be fetched in and how it is recognized when no provider states it. */
+export interface LanguageProfile {
+  code: string; // ISO 639-1
+  name: string;
+  region?: string; // region its articles count under when their outlet is not in the source registry; absent when spoken widely
+  script?: RegExp; // characters only this language uses among the supported ones
+  stopwords?: string[]; // frequent short words, for languages written in Latin script
+}
+
+export const LANGUAGES: LanguageProfile[] = [
+  {
+    code: "en",
+    name: "English",
+    stopwords: ["the", "and", "of", "to", "in", "is", "for", "on", "that", "with", "by", "from", "its", "has", "are", "was"],
+  },
+  {
+    code: "de",
+    name: "German",
+    region: "europe",
+    stopwords: ["der", "die", "das", "und", "ist", "nicht", "mit", "für", "auf", "den", "von", "zu", "ein", "eine", "sich", "auch"],
+  },
+  {
+    code: "fr",
+    name: "French",
+    region: "europe",
+    stopwords: ["le", "la", "les", "et", "des", "du", "est", "une", "pour", "dans", "que", "sur", "pas", "aux", "avec", "au"],
+  },
+  {
+    code: "es",
+    name: "Spanish",
+    stopwords: ["el", "la", "los", "las", "y", "del", "que", "en", "por", "una", "para", "con", "es", "se", "al", "sus"],
+  },
+  {
+    code: "pt",
+    name: "Portuguese",
+    stopwords: ["o", "os", "as", "e", "do", "da", "dos", "das", "que", "em", "um", "uma", "para", "com", "não", "ao"],
+  },
+  {
+    code: "it",
+    name: "Italian",
+    region: "europe",
+    stopwords: ["il", "lo", "gli", "e", "di", "della", "che", "per", "una", "con", "non", "sono", "dei", "nel", "alla", "anche"],
+  },
+  { code: "zh", name: "Chinese", region: "asia", script: /[\u4e00-\u9fff]/g },
+  { code: "ja", name: "Japanese", region: "asia", script: /[\u3040-\u30ff]/g },
+  { code: "ko", name: "Korean", region: "asia", script: /[\uac00-\ud7af]/g },
+  { code: "ru", name: "Russian", region: "europe", script: /[\u0400-\u04ff]/g },
+];
+
+// Fewer letters than this are not enough to tell a language apart
+const MIN_LETTERS = 20;
+// Share of letters a script must make up; Japanese needs less as it mixes kana with Chinese characters
+const SCRIPT_SHARE = 0.3;
+const KANA_SHARE = 0.05;
+// Stopword hits the best Latin-script language needs, and its lead over the runner-up
+const MIN_STOPWORDS = 3;
+const STOPWORD_LEAD = 1.5;
+
+/**
+ * ISO 639-1 code of the language of a text, from its script or, for Latin script, the
+ * stopwords it uses. Undefined when the text is too short or no language clearly leads.
+ */
+export function detectLanguage(text: string): string | undefined {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters < MIN_LETTERS) return undefined;
+  const share = (code: string) => (text.match(LANGUAGES.find((l) => l.code === code)!.script!)?.length ?? 0) / letters;
+
+  // Japanese text carries Chinese characters too, so kana decide first
+  if (share("ja") >= KANA_SHARE) return "ja";
+  for (const code of ["ko", "zh", "ru"]) {
+    if (share(code) >= SCRIPT_SHARE) return code;
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = LANGUAGES.filter((l) => l.stopwords)
+    .map((l) => {
+      const stopwords = new Set(l.stopwords);
+      return { code: l.code, hits: words.filter((w) => stopwords.has(w)).length };
+    })
+    .sort((a, b) => b.hits - a.hits);
+  const [best, runnerUp] = scores;
+  return best.hits >= MIN_STOPWORDS && best.hits >= runnerUp.hits * STOPWORD_LEAD ? best.code : undefined;
+}
+
+/** The primary subtag of a language tag ('de-DE' → 'de'); undefined for anything else. */
+export function normalizeLanguage(tag: string | undefined): string | undefined {
+  const code = tag?.trim().toLowerCase().split(/[-_]/)[0];
+  return code && /^[a-z]{2}$/.test(code) ? code : undefined;
+}
+
+/** The article with its language: the one its provider states, else the one detected from its text. */
+export function withLanguage(article: Article): Article {
+  const language =
+    normalizeLanguage(article.language) ?? detectLanguage([article.title, article.description, article.content].filter(Boolean).join("\n"));
+  return language === article.language ? article : { ...article, language };
+}
+
+/**
+ * Region an article counts under: its outlet's registry region, else the region its
+ * language is spoken in, else 'unknown'.
+ */
+export function articleRegion(article: Article, registry: SourceRegistry = getSourceRegistry()): string {
+  const profile = resolveSource(article, registry);
+  if (profile?.region) return profile.region;
+  return LANGUAGES.find((l) => l.code === article.language)?.region ?? "unknown";
+}
@@ -0,0 +1,16 @@
+import { format } from "util";
+
+let stream: NodeJS.WritableStream = process.stdout;
+
+/**
+ * Send progress output to `target` instead of stdout, e.g. stderr when stdout carries a
+ * command's JSON output. Warnings and errors go to stderr through console.warn / console.error.
+ */
+export function setLogStream(target: NodeJS.WritableStream): void {
+  stream = target;
+}
+
+/** One line of progress output, formatted like console.log. */
+export function log(...args: unknown[]): void {
+  stream.write(format(...args) + "\n");
+}
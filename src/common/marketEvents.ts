@@ -0,0 +1,91 @@
+import { MarketEvent, MarketEventType, MetalSymbol } from "../types";
+import { MetalUniverse } from "./metalUniverse";
+
+/** One kind of market event: what the model is told it covers and how hard it can move prices. */
+export interface MarketEventDefinition {
+  type: MarketEventType;
+  description: string; // shown to the model in the extraction prompt
+  baseShockPercent: number; // price move of a fully confident, fresh event over the 14-day horizon
+}
+
+export const MARKET_EVENT_TYPES: MarketEventDefinition[] = [
+  {
+    type: "export restriction",
+    description: "new, tightened or relaxed export quotas, bans, licences or controls",
+    baseShockPercent: 4,
+  },
+  {
+    type: "mine closure",
+    description: "mine or refinery shutdown, suspension, production halt",
+    baseShockPercent: 3,
+  },
+  {
+    type: "mine opening",
+    description: "new mine or refinery starting or restarting production",
+    baseShockPercent: 2,
+  },
+  {
+    type: "tariff",
+    description: "import tariffs, duties or sanctions imposed, raised, cut or lifted",
+    baseShockPercent: 2,
+  },
+  {
+    type: "offtake agreement",
+    description: "supply or offtake contract between a producer and a buyer",
+    baseShockPercent: 1,
+  },
+  {
+    type: "plant announcement",
+    description: "announced magnet, cathode, battery or processing plant (investment, construction)",
+    baseShockPercent: 1,
+  },
+  {
+    type: "other",
+    description: "any other concrete, dated market event",
+    baseShockPercent: 0.5,
+  },
+];
+
+export const MARKET_EVENT_TYPE_NAMES: MarketEventType[] = MARKET_EVENT_TYPES.map((d) => d.type);
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Canonical form of an extracted event: tracked metals by symbol (matched on symbol or name),
+ * other metals lowercased, malformed dates dropped, blank strings as null.
+ */
+export function normalizeMarketEvent(event: MarketEvent, universe: MetalUniverse): MarketEvent {
+  const blankToNull = (value: string | null) => (value && value.trim() ? value.trim() : null);
+  const metal = blankToNull(event.metal);
+  const effectiveDate = blankToNull(event.effectiveDate);
+  return {
+    ...event,
+    country: blankToNull(event.country),
+    company: blankToNull(event.company),
+    metal: metal ? resolveEventMetal(metal, universe) : null,
+    volumeTonnes: event.volumeTonnes !== null && event.volumeTonnes >= 0 ? event.volumeTonnes : null,
+    effectiveDate: effectiveDate && ISO_DATE.test(effectiveDate) && !isNaN(Date.parse(effectiveDate))
+      ? effectiveDate
+      : null,
+  };
+}
+
+/** Tracked metal symbol for a symbol or name ("ND", "neodymium", "Neodymium oxide"), else the lowercase name. */
+export function resolveEventMetal(metal: string, universe: MetalUniverse): string {
+  const name = metal.trim().toLowerCase();
+  const tracked = universe.metals.find(
+    (m) => m.symbol.toLowerCase() === name || m.name.toLowerCase() === name || m.name.toLowerCase().split(" ")[0] === name
+  );
+  return tracked ? tracked.symbol : name;
+}
+
+/** True when the event concerns `symbol`: it names that metal, or names no metal at all. */
+export function eventConcernsMetal(event: MarketEvent, symbol: MetalSymbol): boolean {
+  return event.metal === null || event.metal === symbol;
+}
+
+/** Short label for reasoning text, e.g. "mine closure (Lynas, Malaysia, ND)". */
+export function describeMarketEvent(event: MarketEvent): string {
+  const details = [event.company, event.country, event.metal].filter(Boolean);
+  return details.length ? `${event.type} (${details.join(", ")})` : event.type;
+}
@@ -0,0 +1,115 @@
+import path from "path";
+import { readFileSync } from "fs";
+import { getConfig } from "../config";
+import { MetalCategory, MetalSymbol } from "../types";
+
+/** One tracked metal of the active basket. */
+export interface MetalDefinition {
+  symbol: MetalSymbol; // key in seed data, output and API responses
+  name: string; // display name
+  priceSymbol: string; // code requested from Metals-API
+  category: MetalCategory; // automotive usage the metal's news is filed under
+  weightInBasket: number; // 0..1, weights of the active basket sum to 1
+}
+
+/** Metals and weights of the selected basket. */
+export interface MetalUniverse {
+  basket: string;
+  metals: MetalDefinition[];
+  bySymbol: Record<MetalSymbol, MetalDefinition>;
+  weights: Record<MetalSymbol, number>;
+}
+
+const DEFAULT_CONFIG_PATH = path.resolve(__dirname, "../data/metals.json");
+const WEIGHT_SUM_TOLERANCE = 0.001;
+
+let cached: MetalUniverse | null = null;
+
+/**
+ * Metal universe from METALS_CONFIG (or the bundled src/data/metals.json) and BASKET.
+ * Loaded and validated once per process.
+ */
+export function getMetalUniverse(): MetalUniverse {
+  if (!cached) {
+    const cfg = getConfig();
+    cached = loadMetalUniverse(cfg.metalsConfigPath ?? DEFAULT_CONFIG_PATH, cfg.basket);
+  }
+  return cached;
+}
+
+/**
+ * Read and validate a metals config file and resolve one basket.
+ * Throws with every problem found so a broken config fails fast at startup.
+ */
+export function loadMetalUniverse(configPath: string, basket?: string): MetalUniverse {
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(path.resolve(process.cwd(), configPath), "utf-8"));
+  } catch (e) {
+    throw new Error(`Cannot read metals config ${configPath}: ${(e as Error).message}`);
+  }
+
+  const errors: string[] = [];
+  const definitions = new Map<string, Omit<MetalDefinition, "weightInBasket">>();
+
+  if (!Array.isArray(raw?.metals) || raw.metals.length === 0) {
+    errors.push("'metals' must be a non-empty array");
+  } else {
+    raw.metals.forEach((m: any, idx: number) => {
+      const where = `metals[${idx}]`;
+      if (typeof m?.symbol !== "string" || !/^[A-Z][A-Z0-9]{0,9}$/.test(m.symbol)) {
+        errors.push(`${where}.symbol must be 1-10 uppercase letters/digits`);
+        return;
+      }
+      if (definitions.has(m.symbol)) errors.push(`${where}.symbol ${m.symbol} is duplicated`);
+      if (typeof m.name !== "string" || !m.name.trim()) errors.push(`${where}.name is required`);
+      if (m.category !== "magnet" && m.category !== "battery") {
+        errors.push(`${where}.category must be 'magnet' or 'battery'`);
+      }
+      definitions.set(m.symbol, {
+        symbol: m.symbol,
+        name: String(m.name ?? "").trim(),
+        priceSymbol: typeof m.priceSymbol === "string" && m.priceSymbol ? m.priceSymbol : m.symbol,
+        category: m.category,
+      });
+    });
+  }
+
+  const baskets = raw?.baskets;
+  const basketName = basket ?? raw?.defaultBasket;
+  const weights: Record<string, unknown> | undefined =
+    baskets && typeof baskets === "object" && basketName ? baskets[basketName] : undefined;
+  if (!basketName) {
+    errors.push("no basket selected: set BASKET or 'defaultBasket'");
+  } else if (!weights || typeof weights !== "object") {
+    const known = baskets && typeof baskets === "object" ? Object.keys(baskets).join(", ") : "none";
+    errors.push(`basket '${basketName}' not defined (available: ${known})`);
+  } else {
+    const entries = Object.entries(weights);
+    if (!entries.length) errors.push(`basket '${basketName}' has no metals`);
+    for (const [symbol, weight] of entries) {
+      if (!definitions.has(symbol)) errors.push(`basket '${basketName}' references unknown metal ${symbol}`);
+      if (typeof weight !== "number" || !(weight > 0)) {
+        errors.push(`basket '${basketName}' weight for ${symbol} must be a positive number`);
+      }
+    }
+    const sum = entries.reduce((s, [, w]) => s + (typeof w === "number" ? w : 0), 0);
+    if (entries.length && Math.abs(sum - 1) > WEIGHT_SUM_TOLERANCE) {
+      errors.push(`basket '${basketName}' weights sum to ${sum.toFixed(4)}, expected 1`);
+    }
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid metals config ${configPath}:\n  - ${errors.join("\n  - ")}`);
+  }
+
+  const metals: MetalDefinition[] = Object.entries(weights as Record<string, number>).map(
+    ([symbol, weight]) => ({ ...definitions.get(symbol)!, weightInBasket: weight })
+  );
+  return {
+    basket: basketName,
+    metals,
+    bySymbol: Object.fromEntries(metals.map((m) => [m.symbol, m])),
+    weights: Object.fromEntries(metals.map((m) => [m.symbol, m.weightInBasket])),
+  };
+}
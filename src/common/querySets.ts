@@ -0,0 +1,196 @@
+import path from "path";
+import { readFileSync } from "fs";
+import { getConfig } from "../config";
+
+/** One query of a set: ORed metal terms, ANDed with ORed context terms when it has any. */
+export interface QueryDefinition {
+  id: string;
+  metals: string[]; // group names
+  context: string[]; // group names; empty for metals-only queries
+}
+
+export interface QuerySet {
+  name: string;
+  description?: string;
+  queries: QueryDefinition[];
+}
+
+export interface QueryCatalog {
+  maxQueryLength: number;
+  defaultSet: string;
+  groups: Record<string, string[]>; // group name → terms in NewsAPI syntax
+  sets: Record<string, QuerySet>;
+}
+
+/** A provider query ready to send; a definition too long for one request yields several parts. */
+export interface NewsQuerySpec {
+  id: string; // definition id, with "#<part>" when it was split
+  query: string;
+}
+
+const DEFAULT_CATALOG_PATH = path.resolve(__dirname, "../data/queries.json");
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+let cached: QueryCatalog | null = null;
+
+/**
+ * Bundled query sets (src/data/queries.json) extended by QUERIES_CONFIG.
+ * Loaded and validated once per process.
+ */
+export function getQueryCatalog(): QueryCatalog {
+  if (!cached) {
+    cached = loadQueryCatalog([DEFAULT_CATALOG_PATH, getConfig().queriesConfigPath]);
+  }
+  return cached;
+}
+
+/**
+ * Read and validate query set files and merge them in order: later groups and sets replace
+ * earlier ones of the same name, as do maxQueryLength and defaultSet. Every query of every
+ * set is built once, so a term too long for any request fails here. Throws with every
+ * problem found.
+ */
+export function loadQueryCatalog(configPaths: Array<string | undefined>): QueryCatalog {
+  const errors: string[] = [];
+  const groups: Record<string, string[]> = {};
+  const rawSets: Record<string, { where: string; raw: any }> = {};
+  let maxQueryLength: unknown;
+  let defaultSet: unknown;
+
+  for (const configPath of configPaths) {
+    if (!configPath) continue;
+    let raw: any;
+    try {
+      raw = JSON.parse(readFileSync(path.resolve(process.cwd(), configPath), "utf-8"));
+    } catch (e) {
+      throw new Error(`Cannot read query config ${configPath}: ${(e as Error).message}`);
+    }
+    if (raw?.maxQueryLength !== undefined) maxQueryLength = raw.maxQueryLength;
+    if (raw?.defaultSet !== undefined) defaultSet = raw.defaultSet;
+    for (const [name, terms] of Object.entries<unknown>(raw?.groups ?? {})) {
+      const where = `${configPath}: groups.${name}`;
+      if (!NAME_PATTERN.test(name)) errors.push(`${where}: names are lowercase letters, digits or '-'`);
+      if (!Array.isArray(terms) || !terms.length || !terms.every((t) => typeof t === "string" && t.trim())) {
+        errors.push(`${where} must be a non-empty array of terms`);
+        continue;
+      }
+      const unbalanced = terms.filter((t) => (t.match(/"/g)?.length ?? 0) % 2 !== 0);
+      unbalanced.forEach((t) => errors.push(`${where} has an unclosed quote in ${t}`));
+      groups[name] = terms.map((t) => t.trim());
+    }
+    for (const [name, set] of Object.entries<unknown>(raw?.sets ?? {})) {
+      rawSets[name] = { where: `${configPath}: sets.${name}`, raw: set };
+    }
+  }
+
+  if (!(Number.isInteger(maxQueryLength) && (maxQueryLength as number) >= 50)) {
+    errors.push("maxQueryLength must be an integer of at least 50");
+  }
+  const sets: Record<string, QuerySet> = {};
+  for (const [name, { where, raw }] of Object.entries(rawSets)) {
+    if (!NAME_PATTERN.test(name)) errors.push(`${where}: names are lowercase letters, digits or '-'`);
+    if (!Array.isArray(raw?.queries) || !raw.queries.length) {
+      errors.push(`${where}.queries must be a non-empty array`);
+      continue;
+    }
+    const ids = new Set<string>();
+    const queries = raw.queries.map((q: any, idx: number): QueryDefinition => {
+      const at = `${where}.queries[${idx}]`;
+      if (typeof q?.id !== "string" || !NAME_PATTERN.test(q.id)) errors.push(`${at}.id must be lowercase letters, digits or '-'`);
+      else if (ids.has(q.id)) errors.push(`${at}.id ${q.id} is duplicated`);
+      ids.add(q?.id);
+      const refs = (key: "metals" | "context", required: boolean): string[] => {
+        const value = q?.[key] ?? [];
+        if (!Array.isArray(value) || (required && !value.length)) {
+          errors.push(`${at}.${key} must be ${required ? "a non-empty" : "an"} array of group names`);
+          return [];
+        }
+        value.filter((g: unknown) => !groups[String(g)]).forEach((g: unknown) => errors.push(`${at}.${key} names unknown group '${g}'`));
+        return value.map(String);
+      };
+      return { id: String(q?.id), metals: refs("metals", true), context: refs("context", false) };
+    });
+    sets[name] = { name, ...(typeof raw.description === "string" && { description: raw.description }), queries };
+  }
+  if (typeof defaultSet !== "string" || !sets[defaultSet]) {
+    errors.push(`defaultSet must name a set (${Object.keys(sets).join(", ") || "none defined"})`);
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid query config:\n  - ${errors.join("\n  - ")}`);
+  }
+  const catalog: QueryCatalog = { maxQueryLength: maxQueryLength as number, defaultSet: defaultSet as string, groups, sets };
+  for (const set of Object.values(sets)) {
+    for (const definition of set.queries) {
+      try {
+        buildQuery(definition, catalog);
+      } catch (e) {
+        errors.push(`sets.${set.name}: ${(e as Error).message}`);
+      }
+    }
+  }
+  if (errors.length) {
+    throw new Error(`Invalid query config:\n  - ${errors.join("\n  - ")}`);
+  }
+  return catalog;
+}
+
+/** Provider queries of a set (QUERY_SET, else the catalog's default set). Throws for unknown sets. */
+export function buildQuerySet(name?: string, catalog: QueryCatalog = getQueryCatalog()): NewsQuerySpec[] {
+  const setName = name ?? getConfig().querySet ?? catalog.defaultSet;
+  const set = catalog.sets[setName];
+  if (!set) throw new Error(`Unknown query set '${setName}' (sets: ${Object.keys(catalog.sets).join(", ")})`);
+  return set.queries.flatMap((definition) => buildQuery(definition, catalog));
+}
+
+/**
+ * Render one query definition, split into as few requests as fit maxQueryLength. Context
+ * terms are split only when needed: every length the context clause could be cut to is
+ * tried, the metal terms are packed greedily beside each context part, and the split with
+ * the fewest requests (fewest context parts on ties) wins. Terms are de-duplicated within
+ * a clause and never cut. Throws when a single metal term and context term do not fit together.
+ */
+export function buildQuery(definition: QueryDefinition, catalog: QueryCatalog): NewsQuerySpec[] {
+  const terms = (names: string[]) => [...new Set(names.flatMap((name) => catalog.groups[name] ?? []))];
+  const metals = terms(definition.metals);
+  const context = terms(definition.context);
+  const limit = catalog.maxQueryLength;
+  const split = (contextParts: string[][]) =>
+    contextParts.flatMap((contextPart) =>
+      packTerms(metals, (part) => renderQuery(part, contextPart).length <= limit).map((metalPart) =>
+        renderQuery(metalPart, contextPart)
+      )
+    );
+
+  const fits = (queries: string[]) => queries.every((query) => query.length <= limit);
+  const clauseLength = (part: string[]) => part.join(" OR ").length;
+  let queries = split([context]);
+  for (let budget = clauseLength(context) - 1; budget > 0; budget--) {
+    const candidate = split(packTerms(context, (part) => clauseLength(part) <= budget));
+    if (fits(candidate) && (!fits(queries) || candidate.length < queries.length)) queries = candidate;
+  }
+  if (!fits(queries)) {
+    throw new Error(`query ${definition.id} cannot be split to fit ${limit} characters; shorten its longest terms`);
+  }
+  return queries.map((query, idx) => ({ id: queries.length > 1 ? `${definition.id}#${idx + 1}` : definition.id, query }));
+}
+
+function renderQuery(metals: string[], context: string[]): string {
+  const metalsClause = metals.join(" OR ");
+  return context.length ? `(${metalsClause}) AND (${context.join(" OR ")})` : metalsClause;
+}
+
+// Consecutive runs of terms, each as long as `fits` allows; a term that fits nowhere stands alone
+function packTerms(terms: string[], fits: (part: string[]) => boolean): string[][] {
+  const parts: string[][] = [];
+  let current: string[] = [];
+  for (const term of terms) {
+    if (current.length && !fits([...current, term])) {
+      parts.push(current);
+      current = [];
+    }
+    current.push(term);
+  }
+  if (current.length) parts.push(current);
+  return parts;
+}
@@ -0,0 +1,166 @@
+import path from "path";
+import { readFileSync } from "fs";
+import { getConfig } from "../config";
+import { Article } from "../types";
+
+export type SourceTier = 1 | 2 | 3 | 4;
+
+/** A known news outlet: how articles are matched to it and how far they are trusted. */
+export interface SourceProfile {
+  id: string; // canonical id, lowercase (e.g. 'reuters')
+  name: string; // canonical display name, replaces provider spellings on articles
+  domains: string[]; // hosts the outlet publishes under; subdomains match too
+  aliases: string[]; // other source names providers use, matched case-insensitively
+  tier: SourceTier; // 1 wire/financial press, 2 trade press/price reporting, 3 general news/aggregators, 4 blogs/press releases
+  credibility: number; // 0..1 weight in the prediction
+  region?: string;
+  paywall: boolean;
+}
+
+export interface SourceRegistry {
+  sources: SourceProfile[];
+  byId: Record<string, SourceProfile>;
+  blocked: string[]; // source ids, domains or names (lowercase) never analyzed
+}
+
+// Credibility of a registered source that does not state its own
+export const TIER_CREDIBILITY: Record<SourceTier, number> = { 1: 1, 2: 0.85, 3: 0.6, 4: 0.35 };
+
+const DEFAULT_REGISTRY_PATH = path.resolve(__dirname, "../data/sources.json");
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+let cached: SourceRegistry | null = null;
+
+/**
+ * Bundled source registry (src/data/sources.json) extended by SOURCES_CONFIG.
+ * Loaded and validated once per process.
+ */
+export function getSourceRegistry(): SourceRegistry {
+  if (!cached) {
+    cached = loadSourceRegistry([DEFAULT_REGISTRY_PATH, getConfig().sourcesConfigPath]);
+  }
+  return cached;
+}
+
+/**
+ * Read and validate source registry files and merge them in order: later sources replace
+ * earlier ones with the same id, block lists add up. Throws with every problem found.
+ */
+export function loadSourceRegistry(configPaths: Array<string | undefined>): SourceRegistry {
+  const errors: string[] = [];
+  const profiles = new Map<string, SourceProfile>();
+  const blocked: string[] = [];
+
+  for (const configPath of configPaths) {
+    if (!configPath) continue;
+    let raw: any;
+    try {
+      raw = JSON.parse(readFileSync(path.resolve(process.cwd(), configPath), "utf-8"));
+    } catch (e) {
+      throw new Error(`Cannot read source config ${configPath}: ${(e as Error).message}`);
+    }
+    if (raw?.sources !== undefined && !Array.isArray(raw.sources)) {
+      errors.push(`${configPath}: 'sources' must be an array`);
+    }
+    (Array.isArray(raw?.sources) ? raw.sources : []).forEach((s: any, idx: number) => {
+      const where = `${configPath}: sources[${idx}]`;
+      if (typeof s?.id !== "string" || !ID_PATTERN.test(s.id)) {
+        errors.push(`${where}.id must be lowercase letters, digits or '-'`);
+        return;
+      }
+      if (typeof s.name !== "string" || !s.name.trim()) errors.push(`${where}.name is required`);
+      const domains: string[] = Array.isArray(s.domains) ? s.domains.map((d: unknown) => String(d).trim().toLowerCase()) : [];
+      domains.filter((d) => !DOMAIN_PATTERN.test(d)).forEach((d) => errors.push(`${where}.domains has invalid domain '${d}'`));
+      if (![1, 2, 3, 4].includes(s.tier)) errors.push(`${where}.tier must be 1, 2, 3 or 4`);
+      if (s.credibility !== undefined && !(typeof s.credibility === "number" && s.credibility >= 0 && s.credibility <= 1)) {
+        errors.push(`${where}.credibility must be a number in [0, 1]`);
+      }
+      const aliases = Array.isArray(s.aliases) ? s.aliases.filter((a: unknown) => typeof a === "string" && a.trim()) : [];
+      profiles.set(s.id, {
+        id: s.id,
+        name: String(s.name ?? "").trim(),
+        domains: domains.map((d) => d.replace(/^www\./, "")),
+        aliases: aliases.map((a: string) => a.trim()),
+        tier: s.tier,
+        credibility: typeof s.credibility === "number" ? s.credibility : TIER_CREDIBILITY[s.tier as SourceTier],
+        ...(typeof s.region === "string" && s.region.trim() && { region: s.region.trim() }),
+        paywall: s.paywall === true,
+      });
+    });
+    if (raw?.blocked !== undefined && !Array.isArray(raw.blocked)) {
+      errors.push(`${configPath}: 'blocked' must be an array`);
+    }
+    (Array.isArray(raw?.blocked) ? raw.blocked : []).forEach((entry: unknown) =>
+      blocked.push(String(entry).trim().toLowerCase())
+    );
+  }
+
+  if (errors.length) {
+    throw new Error(`Invalid source config:\n  - ${errors.join("\n  - ")}`);
+  }
+  const sources = [...profiles.values()];
+  return { sources, byId: Object.fromEntries(sources.map((s) => [s.id, s])), blocked: blocked.filter(Boolean) };
+}
+
+/**
+ * Registered outlet of an article: by URL host (or a parent domain), else by source name
+ * or alias. Undefined for outlets not in the registry.
+ */
+export function resolveSource(
+  article: Pick<Article, "url" | "source">,
+  registry: SourceRegistry = getSourceRegistry()
+): SourceProfile | undefined {
+  for (const domain of domainsOf(article.url)) {
+    const match = registry.sources.find((s) => s.domains.includes(domain));
+    if (match) return match;
+  }
+  const name = article.source?.trim().toLowerCase();
+  if (!name) return undefined;
+  return (
+    registry.byId[name] ??
+    registry.sources.find((s) => s.name.toLowerCase() === name || s.aliases.some((a) => a.toLowerCase() === name))
+  );
+}
+
+/** The article under its registered outlet's canonical name and id; unregistered outlets are left as they are. */
+export function identifySource(article: Article, registry: SourceRegistry = getSourceRegistry()): Article {
+  const profile = resolveSource(article, registry);
+  return profile ? { ...article, source: profile.name, sourceId: profile.id } : article;
+}
+
+/**
+ * Key an article's outlet is grouped under: its registry id, else its URL host without
+ * "www.", else its lowercased source name.
+ */
+export function sourceKey(article: Pick<Article, "url" | "source" | "sourceId">, registry: SourceRegistry = getSourceRegistry()): string {
+  return article.sourceId ?? resolveSource(article, registry)?.id ?? domainsOf(article.url)[0] ?? article.source.trim().toLowerCase();
+}
+
+/** Whether the article's outlet is on the block list (by id, domain or name). */
+export function isBlockedSource(
+  article: Pick<Article, "url" | "source" | "sourceId">,
+  blocked: string[],
+  registry: SourceRegistry = getSourceRegistry()
+): boolean {
+  if (!blocked.length) return false;
+  const keys = new Set([
+    ...domainsOf(article.url),
+    article.source.trim().toLowerCase(),
+    ...[article.sourceId ?? resolveSource(article, registry)?.id].filter((id): id is string => !!id),
+  ]);
+  return blocked.some((entry) => keys.has(entry));
+}
+
+/** The URL's host without "www." followed by its parent domains, e.g. news.mining.com, mining.com. */
+function domainsOf(url: string): string[] {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return [];
+  }
+  const domains: string[] = [];
+  for (let domain = host; domain.includes("."); domain = domain.slice(domain.indexOf(".") + 1)) domains.push(domain);
+  return domains;
+}
@@ -21,13 +21,67 @@ if (fs.existsSync(envPath)) {
   }
 }
 
+// Run modes are chosen on the command line now (see src/index.ts)
+if (process.env.SKIP_FETCH) {
+  console.warn("[config] SKIP_FETCH is no longer read; choose the step with a command instead (npm run cli -- help)");
+}
+if (process.env.SKIP_PRICE_FETCH) {
+  console.warn("[config] SKIP_PRICE_FETCH is no longer read; pass --skip-price-fetch to run instead");
+}
+
+export type NewsProviderName = "newsapi" | "rss" | "file";
+export type LlmProviderName = "openai" | "openai-compatible" | "rules";
+export type LlmRoutes = Record<"translate" | "relevance" | "classify" | "priceImpact" | "events" | "aggregate", LlmProviderName>;
+export type ScheduledJob = "news" | "prices" | "prediction" | "backfill";
+
 export interface AppConfig {
   openAiKey?: string;
   newsApiKey?: string;
   metalsApiKey?: string; // Metals-API key for real-time price data (metals-api.com)
   environment: "development" | "production" | "test";
-  skipFetch: boolean; // Skip news fetching and use existing aggregate summary
-  skipPriceFetch: boolean; // Skip price fetching and load latest price-data-*.json from output/
+  newsProviders: NewsProviderName[]; // Enabled news sources, combined in order (NEWS_PROVIDERS=newsapi,rss,file)
+  rssFeedUrls: string[]; // RSS/Atom feed URLs for the rss provider (comma separated RSS_FEEDS)
+  newsFilePath?: string; // .jsonl/.json file or directory for the offline file provider
+  newsLanguages: string[]; // ISO 639-1 codes of the articles to keep (NEWS_LANGUAGES=en,de,zh,ja); articles of unknown language are kept
+  translate: boolean; // Translate non-English articles to English before analysis (TRANSLATE=false analyzes the original text)
+  dbPath: string; // SQLite database holding articles, analyses, aggregates and price data
+  analysisCache: boolean; // Reuse stored analyses of unchanged articles (ANALYSIS_CACHE=false forces re-analysis)
+  extractEvents: boolean; // Extract structured market events from relevant articles (EXTRACT_EVENTS=false skips the step)
+  fullText: boolean; // Download relevant articles' pages and analyze their extracted body text (FULL_TEXT=true)
+  fullTextDomainDelayMs: number; // Minimum pause between page requests to one host (a longer robots.txt Crawl-delay wins)
+  fullTextTimeoutMs: number; // Timeout of one page request
+  fullTextUserAgent: string; // User-Agent sent with page requests and matched against robots.txt groups
+  fullTextMaxChars: number; // Extracted text longer than this is cut, bounding prompt size
+  clusterArticles: boolean; // Fold syndicated near-duplicates into one analyzed article (CLUSTER_ARTICLES=false analyzes every copy)
+  nearDuplicateThreshold: number; // Title + lead shingle similarity, 0..1, above which two articles are copies of one story
+  storyThreadSimilarity: number; // Keyword/entity match score, 0..1, needed to continue a story thread instead of starting one
+  storyThreadWindowDays: number; // Days after its latest article during which a story thread takes follow-ups
+  metalsConfigPath?: string; // Metals/basket definition file (defaults to bundled src/data/metals.json)
+  basket?: string; // Basket name from the metals config (defaults to its defaultBasket)
+  watchlistsConfigPath?: string; // Watchlists and extra entities, merged onto the bundled src/data/entities.json
+  queriesConfigPath?: string; // Query groups and sets, merged onto the bundled src/data/queries.json
+  querySet?: string; // Query set to fetch news with (defaults to the query config's defaultSet)
+  llmProviders: LlmRoutes; // Provider per operation (LLM_PROVIDER default, LLM_PROVIDER_<OPERATION> overrides)
+  openAiModel?: string; // Chat model for the openai provider (defaults to gpt-4o-mini)
+  llmBaseUrl?: string; // Base URL of an OpenAI-compatible server (llama.cpp, Ollama, vLLM) for openai-compatible
+  llmModel?: string; // Model name served at LLM_BASE_URL
+  llmApiKey?: string; // Key for LLM_BASE_URL, if the server requires one
+  llmBaseUrlLocal: boolean; // LLM_BASE_URL keeps text inside our network (LLM_LOCAL, else true for loopback and private IP hosts)
+  llmResponseFormat?: "json_schema" | "json_object" | "text"; // Output constraint requested from LLM_BASE_URL (default json_object)
+  llmRestrictedSources: string[]; // Source names/domains whose text may only go to local providers
+  newsHalfLifeDays: number; // Age in days at which an article's weight in the prediction halves
+  sentimentWeight: number; // Share of sentiment (vs. price impact) in the combined news score, 0..1
+  sourceCredibility: Record<string, number>; // Per-source credibility overrides (SOURCE_CREDIBILITY=reuters=1,example.com=0.3)
+  defaultSourceCredibility: number; // Credibility of sources not listed, 0..1
+  sourcesConfigPath?: string; // Source registry additions/overrides, merged onto the bundled src/data/sources.json
+  blockedSources: string[]; // Source ids, domains or names whose articles are never analyzed (BLOCKED_SOURCES)
+  minSourceCredibility: number; // Articles of sources less credible than this are not analyzed, 0..1
+  coverageWeight: number; // Extra news weight per e-fold of outlets carrying a story (0 ignores coverage)
+  schedules: Record<ScheduledJob, string | null>; // Cron expression per scheduler job (SCHEDULE_NEWS etc.), null when off
+  serverScheduler: boolean; // Host the scheduler in the dashboard server (SERVER_SCHEDULER=true)
+  newsApiDailyLimit: number; // NewsAPI requests allowed per UTC day
+  backfillDailyReserve: number; // NewsAPI requests per day a backfill leaves for regular runs
+  metalsApiMonthlyLimit: number; // Metals-API requests allowed per UTC month
 }
 
 export function getConfig(): AppConfig {
@@ -36,9 +90,178 @@ export function getConfig(): AppConfig {
     newsApiKey: process.env.NEWS_API_KEY,
     metalsApiKey: process.env.METALS_API_KEY,
     environment: (process.env.NODE_ENV as any) || "development",
-    skipFetch: process.env.SKIP_FETCH === "true",
-    skipPriceFetch: process.env.SKIP_PRICE_FETCH === "true",
+    newsProviders: parseNewsProviders(process.env.NEWS_PROVIDERS),
+    rssFeedUrls: splitList(process.env.RSS_FEEDS),
+    newsFilePath: process.env.NEWS_FILE_PATH || undefined,
+    newsLanguages: parseLanguages(process.env.NEWS_LANGUAGES),
+    translate: process.env.TRANSLATE !== "false",
+    dbPath: process.env.DB_PATH || path.resolve(process.cwd(), "output", "semanticast.db"),
+    analysisCache: process.env.ANALYSIS_CACHE !== "false",
+    extractEvents: process.env.EXTRACT_EVENTS !== "false",
+    fullText: process.env.FULL_TEXT === "true",
+    fullTextDomainDelayMs: parseNumber("FULL_TEXT_DOMAIN_DELAY_MS", 2000, 0),
+    fullTextTimeoutMs: parseNumber("FULL_TEXT_TIMEOUT_MS", 15000, 1000),
+    fullTextUserAgent: process.env.FULL_TEXT_USER_AGENT?.trim() || "SemantiCast/0.1",
+    fullTextMaxChars: parseNumber("FULL_TEXT_MAX_CHARS", 12000, 500),
+    clusterArticles: process.env.CLUSTER_ARTICLES !== "false",
+    nearDuplicateThreshold: parseNumber("NEAR_DUPLICATE_THRESHOLD", 0.6, 0.1, 1),
+    storyThreadSimilarity: parseNumber("STORY_THREAD_SIMILARITY", 0.35, 0.05, 1),
+    storyThreadWindowDays: parseNumber("STORY_THREAD_WINDOW_DAYS", 21, 1),
+    metalsConfigPath: process.env.METALS_CONFIG || undefined,
+    basket: process.env.BASKET || undefined,
+    watchlistsConfigPath: process.env.WATCHLISTS_CONFIG || undefined,
+    queriesConfigPath: process.env.QUERIES_CONFIG || undefined,
+    querySet: process.env.QUERY_SET || undefined,
+    llmProviders: parseLlmRoutes(),
+    openAiModel: process.env.OPENAI_MODEL || undefined,
+    llmBaseUrl: process.env.LLM_BASE_URL || undefined,
+    llmModel: process.env.LLM_MODEL || undefined,
+    llmApiKey: process.env.LLM_API_KEY || undefined,
+    llmBaseUrlLocal: parseLlmLocal(process.env.LLM_LOCAL, process.env.LLM_BASE_URL),
+    llmResponseFormat: parseResponseFormat(process.env.LLM_RESPONSE_FORMAT),
+    llmRestrictedSources: splitList(process.env.LLM_RESTRICTED_SOURCES),
+    newsHalfLifeDays: parseNumber("NEWS_HALF_LIFE_DAYS", 7, 0),
+    sentimentWeight: parseNumber("SENTIMENT_WEIGHT", 0.4, 0, 1),
+    sourceCredibility: parseSourceCredibility(process.env.SOURCE_CREDIBILITY),
+    defaultSourceCredibility: parseNumber("DEFAULT_SOURCE_CREDIBILITY", 0.6, 0, 1),
+    sourcesConfigPath: process.env.SOURCES_CONFIG || undefined,
+    blockedSources: splitList(process.env.BLOCKED_SOURCES).map((entry) => entry.toLowerCase()),
+    minSourceCredibility: parseNumber("MIN_SOURCE_CREDIBILITY", 0, 0, 1),
+    coverageWeight: parseNumber("COVERAGE_WEIGHT", 0.25, 0),
+    schedules: {
+      news: parseSchedule("SCHEDULE_NEWS", "0 */6 * * *"),
+      prices: parseSchedule("SCHEDULE_PRICES", "0 6 1 * *"),
+      prediction: parseSchedule("SCHEDULE_PREDICTION", "30 6 * * *"),
+      backfill: parseSchedule("SCHEDULE_BACKFILL", "off"),
+    },
+    serverScheduler: process.env.SERVER_SCHEDULER === "true",
+    newsApiDailyLimit: parseNumber("NEWSAPI_DAILY_LIMIT", 100, 0),
+    backfillDailyReserve: parseNumber("BACKFILL_DAILY_RESERVE", 20, 0),
+    metalsApiMonthlyLimit: parseNumber("METALS_API_MONTHLY_LIMIT", 50, 0),
+  };
+}
+
+function parseNewsProviders(value: string | undefined): NewsProviderName[] {
+  const known: NewsProviderName[] = ["newsapi", "rss", "file"];
+  const requested = splitList(value).map((name) => name.toLowerCase());
+  if (!requested.length) return ["newsapi"];
+  const unknown = requested.filter((name) => !known.includes(name as NewsProviderName));
+  if (unknown.length) {
+    console.warn(`[config] Ignoring unknown NEWS_PROVIDERS entries: ${unknown.join(", ")}`);
+  }
+  return known.filter((name) => requested.includes(name));
+}
+
+function parseLanguages(value: string | undefined): string[] {
+  const requested = splitList(value).map((code) => code.toLowerCase());
+  const invalid = requested.filter((code) => !/^[a-z]{2}$/.test(code));
+  if (invalid.length) {
+    console.warn(`[config] Ignoring NEWS_LANGUAGES entries ${invalid.join(", ")}; expected ISO 639-1 codes such as en, de, zh`);
+  }
+  const codes = [...new Set(requested.filter((code) => !invalid.includes(code)))];
+  return codes.length ? codes : ["en"];
+}
+
+function parseLlmRoutes(): LlmRoutes {
+  const envNames: Record<keyof LlmRoutes, string> = {
+    translate: "LLM_PROVIDER_TRANSLATE",
+    relevance: "LLM_PROVIDER_RELEVANCE",
+    classify: "LLM_PROVIDER_CLASSIFY",
+    priceImpact: "LLM_PROVIDER_PRICE_IMPACT",
+    events: "LLM_PROVIDER_EVENTS",
+    aggregate: "LLM_PROVIDER_AGGREGATE",
   };
+  const fallback = parseLlmProviderName("LLM_PROVIDER", "openai");
+  return Object.fromEntries(
+    Object.entries(envNames).map(([op, envName]) => [op, parseLlmProviderName(envName, fallback)])
+  ) as LlmRoutes;
+}
+
+function parseLlmProviderName(envName: string, fallback: LlmProviderName): LlmProviderName {
+  const known: LlmProviderName[] = ["openai", "openai-compatible", "rules"];
+  const value = process.env[envName]?.trim().toLowerCase();
+  if (!value) return fallback;
+  if (!known.includes(value as LlmProviderName)) {
+    console.warn(`[config] Ignoring unknown ${envName}=${value}; expected ${known.join(", ")}`);
+    return fallback;
+  }
+  return value as LlmProviderName;
+}
+
+function parseResponseFormat(value: string | undefined): AppConfig["llmResponseFormat"] {
+  const known = ["json_schema", "json_object", "text"] as const;
+  const requested = value?.trim().toLowerCase();
+  if (!requested) return undefined;
+  const match = known.find((format) => format === requested);
+  if (!match) console.warn(`[config] Ignoring unknown LLM_RESPONSE_FORMAT=${requested}; expected ${known.join(", ")}`);
+  return match;
+}
+
+/**
+ * Whether the server at LLM_BASE_URL is inside our network. LLM_LOCAL=true|false states it;
+ * otherwise only localhost and loopback or private IP addresses count, as a host name says
+ * nothing about where it resolves.
+ */
+function parseLlmLocal(value: string | undefined, baseUrl: string | undefined): boolean {
+  const stated = value?.trim().toLowerCase();
+  if (stated === "true" || stated === "false") return stated === "true";
+  if (stated) console.warn(`[config] Ignoring LLM_LOCAL=${value}; expected true or false`);
+  if (!baseUrl) return false;
+  let host: string;
+  try {
+    host = new URL(baseUrl).hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  } catch {
+    return false;
+  }
+  if (host === "localhost" || host.endsWith(".localhost") || host === "::1") return true;
+  if (/^f[cd][0-9a-f]{2}:|^fe[89ab][0-9a-f]:/.test(host)) return true; // unique local and link-local IPv6
+  const octets = host.split(".").map(Number);
+  if (octets.length !== 4 || octets.some((o) => !Number.isInteger(o) || o < 0 || o > 255)) return false;
+  const [a, b] = octets;
+  return (
+    a === 127 || a === 10 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) ||
+    (a === 169 && b === 254) || (a === 100 && b >= 64 && b <= 127) // link-local, carrier-grade NAT (e.g. Tailscale)
+  );
+}
+
+function parseNumber(envName: string, fallback: number, min = -Infinity, max = Infinity): number {
+  const raw = process.env[envName]?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < min || value > max) {
+    console.warn(`[config] Ignoring ${envName}=${raw}; expected a number in [${min}, ${max}]`);
+    return fallback;
+  }
+  return value;
+}
+
+// Cron expressions are validated when the scheduler starts; "off" disables the job
+function parseSchedule(envName: string, fallback: string): string | null {
+  const value = process.env[envName]?.trim();
+  if (!value) return fallback;
+  return value.toLowerCase() === "off" ? null : value;
+}
+
+function parseSourceCredibility(value: string | undefined): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const entry of splitList(value)) {
+    const separator = entry.lastIndexOf("=");
+    const source = entry.slice(0, separator).trim().toLowerCase();
+    const weight = Number(entry.slice(separator + 1));
+    if (separator <= 0 || !source || !Number.isFinite(weight) || weight < 0 || weight > 1) {
+      console.warn(`[config] Ignoring SOURCE_CREDIBILITY entry '${entry}'; expected source=0..1`);
+      continue;
+    }
+    result[source] = weight;
+  }
+  return result;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
 }
 
 export function requireConfigKeys(keys: (keyof AppConfig)[]) {
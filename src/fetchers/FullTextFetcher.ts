@@ -0,0 +1,250 @@
+import { CachedPage } from "../storage/SqliteStore";
+import { extractMainText } from "./articleExtractor";
+
+// Where downloaded pages are kept (the SqliteStore page_cache table)
+export interface PageCache {
+  getCachedPage(url: string): CachedPage | null;
+  putCachedPage(page: CachedPage): void;
+}
+
+export interface FullTextOptions {
+  userAgent: string;
+  timeoutMs: number;
+  domainDelayMs: number; // minimum pause between requests to one host
+  maxChars: number;
+}
+
+/** Extracted body text of one article page, or why there is none. */
+export interface FullTextResult {
+  url: string;
+  text?: string;
+  fromCache: boolean; // page read from the cache instead of downloaded
+  skipped?: string; // reason there is no text: disallowed by robots.txt, HTTP error, not HTML, too little text
+}
+
+/** Allow/Disallow rules of the robots.txt group that applies to us. */
+export interface RobotsRules {
+  rules: Array<{ allow: boolean; path: string }>;
+  crawlDelayMs?: number;
+}
+
+// Below this the page is a teaser, a paywall or a consent wall rather than the article
+const MIN_TEXT_CHARS = 200;
+const ROBOTS_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// RFC 9309 asks crawlers to follow at least five redirects
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+// Responses worth caching; others (timeouts, 429, 5xx) are retried on the next run
+const isCacheableStatus = (status: number) => status < 500 && status !== 429;
+
+// Downloads article pages and extracts their main text. Honors robots.txt (with Crawl-delay),
+// requests one page at a time per host with a pause in between, and caches every response,
+// so an article page is downloaded once and robots.txt about once a day. Redirects are
+// followed hop by hop, each hop held to its own host's robots.txt and pause.
+export class FullTextFetcher {
+  private readonly robots = new Map<string, Promise<RobotsRules>>();
+  private readonly hostQueues = new Map<string, Promise<void>>();
+
+  public constructor(
+    private readonly cache: PageCache,
+    private readonly options: FullTextOptions
+  ) {}
+
+  public async fetchText(url: string): Promise<FullTextResult> {
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      return { url, fromCache: false, skipped: "invalid URL" };
+    }
+    if (target.protocol !== "http:" && target.protocol !== "https:") {
+      return { url, fromCache: false, skipped: `unsupported protocol ${target.protocol}` };
+    }
+
+    let page = this.cache.getCachedPage(url);
+    const fromCache = page !== null;
+    if (!page) {
+      const robots = await this.robotsRules(target);
+      if (!isAllowed(robots, target.pathname + target.search)) {
+        return { url, fromCache, skipped: "disallowed by robots.txt" };
+      }
+      try {
+        page = await this.downloadFollowing(target, "text/html, application/xhtml+xml", robots.crawlDelayMs, (hop) =>
+          this.robotsRules(hop)
+        );
+      } catch (e) {
+        return { url, fromCache, skipped: (e as Error).message };
+      }
+      if (isCacheableStatus(page.status)) this.cache.putCachedPage(page);
+    }
+
+    if (page.status < 200 || page.status >= 300) return { url, fromCache, skipped: `HTTP ${page.status}` };
+    if (page.contentType && !/html/i.test(page.contentType)) {
+      return { url, fromCache, skipped: `not HTML (${page.contentType})` };
+    }
+    const text = extractMainText(page.body);
+    if (text.length < MIN_TEXT_CHARS) return { url, fromCache, skipped: `only ${text.length} characters of text` };
+    return { url, fromCache, text: truncate(text, this.options.maxChars) };
+  }
+
+  /** Rules of the host's robots.txt, read once per run and from the cache while it is fresh. */
+  private robotsRules(target: URL): Promise<RobotsRules> {
+    const existing = this.robots.get(target.origin);
+    if (existing) return existing;
+    const loading = this.loadRobots(new URL("/robots.txt", target.origin));
+    this.robots.set(target.origin, loading);
+    return loading;
+  }
+
+  private async loadRobots(robotsUrl: URL): Promise<RobotsRules> {
+    let page = this.cache.getCachedPage(robotsUrl.href);
+    if (!page || Date.now() - Date.parse(page.fetchedAt) > ROBOTS_MAX_AGE_MS) {
+      try {
+        page = await this.downloadFollowing(robotsUrl, "text/plain");
+      } catch (e) {
+        // Unreachable robots.txt: stay away from the host this run
+        console.warn(`[fulltext] ${robotsUrl.href}: ${(e as Error).message}; skipping ${robotsUrl.host}`);
+        return { rules: [{ allow: false, path: "/" }] };
+      }
+      if (isCacheableStatus(page.status)) this.cache.putCachedPage(page);
+    }
+    if (page.status >= 200 && page.status < 300) return parseRobotsTxt(page.body, this.options.userAgent);
+    // No robots.txt (4xx) allows everything; a server error disallows everything
+    return isCacheableStatus(page.status) ? { rules: [] } : { rules: [{ allow: false, path: "/" }] };
+  }
+
+  /**
+   * GET `target`, following redirects one hop at a time. With `rulesFor`, every hop must be
+   * allowed by the robots.txt rules it returns for the hop's host, and waits out that host's
+   * crawl delay. The final response is returned under `target`. Throws on network errors and
+   * on redirects that are disallowed, unsupported or too many.
+   */
+  private async downloadFollowing(
+    target: URL,
+    accept: string,
+    crawlDelayMs?: number,
+    rulesFor?: (hop: URL) => Promise<RobotsRules>
+  ): Promise<CachedPage> {
+    let hop = target;
+    let hopDelayMs = crawlDelayMs;
+    for (let redirects = 0; ; redirects++) {
+      const { location, ...page } = await this.download(hop, hopDelayMs, accept);
+      if (!location) return { ...page, url: target.href };
+      if (redirects === MAX_REDIRECTS) throw new Error(`more than ${MAX_REDIRECTS} redirects`);
+      hop = new URL(location, hop);
+      if (hop.protocol !== "http:" && hop.protocol !== "https:") {
+        throw new Error(`redirect to unsupported protocol ${hop.protocol}`);
+      }
+      const robots = rulesFor ? await rulesFor(hop) : { rules: [] };
+      if (!isAllowed(robots, hop.pathname + hop.search)) throw new Error(`redirect to ${hop.href} disallowed by robots.txt`);
+      hopDelayMs = robots.crawlDelayMs;
+    }
+  }
+
+  /**
+   * GET `target` without following redirects, once the host's previous request finished and
+   * its pause elapsed. `location` is set for redirects. Throws on network errors.
+   */
+  private download(
+    target: URL,
+    crawlDelayMs: number | undefined,
+    accept: string
+  ): Promise<CachedPage & { location?: string }> {
+    const delayMs = Math.max(this.options.domainDelayMs, crawlDelayMs ?? 0);
+    const previous = this.hostQueues.get(target.host) ?? Promise.resolve();
+    const request = previous.then(async () => {
+      const res = await fetch(target, {
+        headers: { "User-Agent": this.options.userAgent, Accept: accept },
+        redirect: "manual",
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+      const body = res.ok ? await res.text() : "";
+      if (!res.ok) await res.body?.cancel();
+      const location = REDIRECT_STATUSES.has(res.status) ? res.headers.get("location") : null;
+      return {
+        url: target.href,
+        status: res.status,
+        contentType: res.headers.get("content-type") ?? undefined,
+        body,
+        fetchedAt: new Date().toISOString(),
+        ...(location && { location }),
+      };
+    });
+    const pause = () => new Promise<void>((resolve) => setTimeout(resolve, delayMs));
+    this.hostQueues.set(target.host, request.then(pause, pause));
+    return request;
+  }
+}
+
+/**
+ * Parse robots.txt (RFC 9309) for `userAgent`: the groups naming its product token
+ * apply, else the `*` groups. Unknown lines are ignored.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const product = userAgent.split("/")[0].trim().toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRules["rules"]; crawlDelayMs?: number }> = [];
+  let current: (typeof groups)[number] | undefined;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "user-agent") {
+      // Consecutive User-agent lines share one group
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+    collectingAgents = false;
+    if (!current) continue;
+    if ((key === "allow" || key === "disallow") && value) {
+      current.rules.push({ allow: key === "allow", path: value });
+    } else if (key === "crawl-delay" && Number.isFinite(Number(value))) {
+      current.crawlDelayMs = Number(value) * 1000;
+    }
+  }
+
+  const own = groups.filter((g) => g.agents.includes(product));
+  const applicable = own.length ? own : groups.filter((g) => g.agents.includes("*"));
+  const delays = applicable.flatMap((g) => (g.crawlDelayMs === undefined ? [] : [g.crawlDelayMs]));
+  return {
+    rules: applicable.flatMap((g) => g.rules),
+    ...(delays.length && { crawlDelayMs: Math.max(...delays) }),
+  };
+}
+
+/** Whether `path` (with query) may be fetched: the longest matching rule wins, Allow on ties. */
+export function isAllowed(robots: RobotsRules, path: string): boolean {
+  let best: { allow: boolean; length: number } | undefined;
+  for (const rule of robots.rules) {
+    if (!robotsPattern(rule.path).test(path)) continue;
+    const length = rule.path.length;
+    if (!best || length > best.length || (length === best.length && rule.allow)) best = { allow: rule.allow, length };
+  }
+  return best?.allow ?? true;
+}
+
+// Rule paths are prefixes with `*` wildcards and an optional `$` end anchor
+function robotsPattern(rulePath: string): RegExp {
+  const anchored = rulePath.endsWith("$");
+  const body = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+function truncate(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  // Cut at the last paragraph break that keeps most of the budget
+  const cut = text.lastIndexOf("\n\n", maxChars);
+  return text.slice(0, cut > maxChars * 0.8 ? cut : maxChars).trimEnd();
+}
@@ -0,0 +1,94 @@
+import path from "path";
+import { readFileSync, readdirSync, statSync, existsSync } from "fs";
+import { Article } from "../types";
+import { identifySource } from "../common/sourceRegistry";
+import { withLanguage } from "../common/languages";
+import { NewsProvider, NewsQuery, matchesQuery, withinDateRange } from "./NewsProvider";
+
+// Offline provider reading a captured corpus from disk.
+// Accepts a single .jsonl / .json file or a directory of them (non-recursive).
+// Records may be normalized Articles or raw NewsAPI article objects.
+export class LocalFileFetcher implements NewsProvider {
+  public readonly name = "file";
+
+  public constructor(private readonly sourcePath: string) {
+    if (!sourcePath) {
+      throw new Error("LocalFileFetcher requires a file or directory path");
+    }
+  }
+
+  public async fetchArticles({ query, from, to }: NewsQuery): Promise<Article[]> {
+    return this.loadAll().filter(
+      (article) => withinDateRange(article, from, to) && matchesQuery(article, query)
+    );
+  }
+
+  /** Read every article from the configured path, de-duplicated by URL. */
+  public loadAll(): Article[] {
+    const resolved = path.resolve(process.cwd(), this.sourcePath);
+    if (!existsSync(resolved)) {
+      throw new Error(`News file path not found: ${resolved}`);
+    }
+
+    const files = statSync(resolved).isDirectory()
+      ? readdirSync(resolved)
+          .filter((f) => f.endsWith(".jsonl") || f.endsWith(".json"))
+          .sort()
+          .map((f) => path.join(resolved, f))
+      : [resolved];
+
+    const map = new Map<string, Article>();
+    for (const file of files) {
+      for (const record of readRecords(file)) {
+        const article = normalizeRecord(record);
+        if (article) map.set(article.url, article);
+      }
+    }
+    return [...map.values()];
+  }
+}
+
+function readRecords(file: string): any[] {
+  const text = readFileSync(file, "utf-8");
+  if (file.endsWith(".jsonl")) {
+    const records: any[] = [];
+    text.split(/\r?\n/).forEach((line, idx) => {
+      if (!line.trim()) return;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        console.warn(`[file] Skipping malformed line ${idx + 1} in ${file}`);
+      }
+    });
+    return records;
+  }
+  try {
+    const parsed = JSON.parse(text);
+    // Accept a bare array, a NewsAPI response ({ articles }) or a single article
+    if (Array.isArray(parsed)) return parsed;
+    if (Array.isArray(parsed?.articles)) return parsed.articles;
+    return [parsed];
+  } catch {
+    console.warn(`[file] Skipping malformed JSON file ${file}`);
+    return [];
+  }
+}
+
+function normalizeRecord(record: any): Article | null {
+  if (!record || typeof record.url !== "string" || !record.url) return null;
+  const source =
+    typeof record.source === "string"
+      ? record.source
+      : record.source?.name || "unknown";
+  return withLanguage(identifySource({
+    id: typeof record.id === "string" && record.id ? record.id : record.url,
+    url: record.url,
+    source,
+    title: record.title || "",
+    description: record.description || undefined,
+    publishedAt: record.publishedAt || undefined,
+    content: record.content || undefined,
+    author: record.author || undefined,
+    language: record.language || undefined,
+  }));
+}
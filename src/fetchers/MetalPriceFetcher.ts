@@ -1,12 +1,10 @@
 import path from 'path';
 import { readFileSync } from 'fs';
-import {
-  MetalSymbol,
-  MetalPriceHistory,
-  PriceDataSummary,
-  METAL_INFO,
-} from '../types';
-import { computeBasketPrice, computePriceStatistics } from '../statistics/priceStatistics';
+import { MetalSymbol, PriceDataSummary } from '../types';
+import { summarizePriceSeries } from '../statistics/priceStatistics';
+import { MetalUniverse, getMetalUniverse } from '../common/metalUniverse';
+import { BudgetTracker } from '../scheduler/BudgetTracker';
+import { log } from '../common/logger';
 
 // Shape of the bundled src/data/seed-prices.json file
 interface SeedFile {
@@ -16,13 +14,21 @@ interface SeedFile {
   prices: Record<MetalSymbol, Array<{ date: string; priceUsd: number }>>;
 }
 
-const SYMBOLS: MetalSymbol[] = ['ND', 'PR', 'LI', 'CO'];
 // Metals-API returns rates as "units of metal per 1 USD" (fixer.io convention).
 // Invert to obtain USD/kg: priceUsd = 1 / rate
 const RATE_TO_USD_PER_KG = (rate: number) => Math.round((1 / rate) * 100) / 100;
 
 export class MetalPriceFetcher {
-  constructor(private readonly apiKey?: string) {}
+  constructor(
+    private readonly apiKey?: string,
+    private readonly universe: MetalUniverse = getMetalUniverse(),
+    private readonly budget?: BudgetTracker, // each dated request counts against the monthly quota
+  ) {}
+
+  /** Metals-API requests fetchPriceData(daysBack) makes: one per trading day, none without a key. */
+  public requestCount(daysBack = 45): number {
+    return this.apiKey ? this.buildTradingDays(daysBack).length : 0;
+  }
 
   /**
    * Fetch historical price data for the last `daysBack` trading days.
@@ -35,12 +41,12 @@ export class MetalPriceFetcher {
    */
   public async fetchPriceData(daysBack = 45): Promise<PriceDataSummary> {
     if (!this.apiKey) {
-      console.log('[price] No METALS_API_KEY — using bundled seed data');
+      log('[price] No METALS_API_KEY — using bundled seed data');
       return this.loadSeedData();
     }
 
     const dates = this.buildTradingDays(daysBack);
-    console.log(`[price] Fetching ${dates.length} trading days from Metals-API...`);
+    log(`[price] Fetching ${dates.length} trading days from Metals-API...`);
 
     const rawPrices = new Map<string, Record<MetalSymbol, number>>();
     const BATCH_SIZE = 5; // concurrent requests (free tier: ~50 req/month)
@@ -49,7 +55,7 @@ export class MetalPriceFetcher {
       const chunk = dates.slice(i, i + BATCH_SIZE);
       const batchNum = Math.floor(i / BATCH_SIZE) + 1;
       const totalBatches = Math.ceil(dates.length / BATCH_SIZE);
-      console.log(`[price]   batch ${batchNum}/${totalBatches} (${chunk[0]} … ${chunk[chunk.length - 1]})`);
+      log(`[price]   batch ${batchNum}/${totalBatches} (${chunk[0]} … ${chunk[chunk.length - 1]})`);
 
       const results = await Promise.all(
         chunk.map(date => this.fetchDateFromApi(date)),
@@ -65,7 +71,7 @@ export class MetalPriceFetcher {
       return this.loadSeedData();
     }
 
-    console.log(`[price] Received data for ${rawPrices.size}/${dates.length} trading days`);
+    log(`[price] Received data for ${rawPrices.size}/${dates.length} trading days`);
     return this.buildSummary(rawPrices, 'metals-api');
   }
 
@@ -74,9 +80,18 @@ export class MetalPriceFetcher {
     const seedPath = path.resolve(__dirname, '../data/seed-prices.json');
     const seed = JSON.parse(readFileSync(seedPath, 'utf-8')) as SeedFile;
 
-    // Pivot seed into date → {ND, PR, LI, CO} map
+    const missing = this.universe.metals
+      .map(m => m.symbol)
+      .filter(symbol => !seed.prices[symbol]?.length);
+    if (missing.length) {
+      console.warn(
+        `[price] Seed data has no prices for ${missing.join(', ')} — basket '${this.universe.basket}' is reweighted over the remaining metals`,
+      );
+    }
+
+    // Pivot seed into date → { symbol: price } map
     const rawPrices = new Map<string, Record<MetalSymbol, number>>();
-    for (const symbol of SYMBOLS) {
+    for (const { symbol } of this.universe.metals) {
       for (const { date, priceUsd } of seed.prices[symbol] ?? []) {
         if (!rawPrices.has(date)) rawPrices.set(date, {} as Record<MetalSymbol, number>);
         rawPrices.get(date)![symbol] = priceUsd;
@@ -91,16 +106,22 @@ export class MetalPriceFetcher {
   /**
    * Call Metals-API for one historical date.
    * Rates from the API represent "units of metal per 1 USD", so we invert them.
-   * Returns null on any network/parse error — the date is then skipped.
+   * Returns null on any network/parse error, or when the request budget is
+   * exhausted — the date is then skipped.
    */
   private async fetchDateFromApi(
     date: string,
   ): Promise<Record<MetalSymbol, number> | null> {
-    const symbolList = SYMBOLS.join(',');
+    const symbolList = this.universe.metals.map(m => m.priceSymbol).join(',');
     const url =
       `https://metals-api.com/api/${date}` +
       `?access_key=${this.apiKey}&base=USD&symbols=${symbolList}`;
 
+    if (this.budget && !this.budget.tryConsume('metals-api')) {
+      console.warn(`[price] Metals-API monthly request budget exhausted, skipping ${date}`);
+      return null;
+    }
+
     try {
       const res = await fetch(url, { signal: AbortSignal.timeout(10_000) });
       if (!res.ok) return null;
@@ -109,13 +130,13 @@ export class MetalPriceFetcher {
       if (!json.success || !json.rates) return null;
 
       const result: Partial<Record<MetalSymbol, number>> = {};
-      for (const s of SYMBOLS) {
-        const rate = json.rates[s];
-        if (rate && rate > 0) result[s] = RATE_TO_USD_PER_KG(rate);
+      for (const { symbol, priceSymbol } of this.universe.metals) {
+        const rate = json.rates[priceSymbol];
+        if (rate && rate > 0) result[symbol] = RATE_TO_USD_PER_KG(rate);
       }
 
-      // Only accept days where all four metals have valid prices
-      if (SYMBOLS.every(s => result[s] != null)) {
+      // Only accept days where all configured metals have valid prices
+      if (this.universe.metals.every(m => result[m.symbol] != null)) {
         return result as Record<MetalSymbol, number>;
       }
       return null;
@@ -150,52 +171,14 @@ export class MetalPriceFetcher {
   ): PriceDataSummary {
     const sortedDates = [...rawPrices.keys()].sort();
 
-    // Build per-metal history
-    const metals: Partial<Record<MetalSymbol, MetalPriceHistory>> = {};
-    for (const symbol of SYMBOLS) {
-      const series = sortedDates
+    // Pivot into per-metal series
+    const metalSeriesMap = {} as Record<MetalSymbol, Array<{ date: string; priceUsd: number }>>;
+    for (const { symbol } of this.universe.metals) {
+      metalSeriesMap[symbol] = sortedDates
         .filter(d => rawPrices.get(d)?.[symbol] != null)
         .map(d => ({ date: d, priceUsd: rawPrices.get(d)![symbol] }));
-
-      const pxValues = series.map(s => s.priceUsd);
-      const avgPrice =
-        pxValues.length > 0
-          ? Math.round((pxValues.reduce((a, b) => a + b, 0) / pxValues.length) * 100) / 100
-          : 0;
-
-      metals[symbol] = {
-        symbol,
-        name: METAL_INFO[symbol].name,
-        weightInBasket: METAL_INFO[symbol].weightInBasket,
-        prices: series,
-        latestPrice: pxValues[pxValues.length - 1] ?? 0,
-        avgPrice,
-      };
     }
 
-    // Current basket price (last available date with complete data)
-    const lastDate = sortedDates[sortedDates.length - 1];
-    const lastPrices = rawPrices.get(lastDate) ?? ({} as Record<MetalSymbol, number>);
-    const basketPrice = Math.round(computeBasketPrice(lastPrices) * 100) / 100;
-
-    // Statistics from the basket series
-    const metalSeriesMap = {
-      ND: metals.ND!.prices,
-      PR: metals.PR!.prices,
-      LI: metals.LI!.prices,
-      CO: metals.CO!.prices,
-    } as Record<MetalSymbol, Array<{ date: string; priceUsd: number }>>;
-
-    const statistics = computePriceStatistics(metalSeriesMap);
-
-    return {
-      fetchedAt: new Date().toISOString(),
-      periodStart: sortedDates[0] ?? '',
-      periodEnd: sortedDates[sortedDates.length - 1] ?? '',
-      source,
-      metals: metals as Record<MetalSymbol, MetalPriceHistory>,
-      basketPrice,
-      statistics,
-    };
+    return summarizePriceSeries(metalSeriesMap, source, undefined, this.universe);
   }
 }
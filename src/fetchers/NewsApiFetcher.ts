@@ -1,47 +1,97 @@
 import { Article } from "../types";
 import { Agent } from "undici";
+import { NewsProvider, NewsQuery } from "./NewsProvider";
+import { BudgetTracker } from "../scheduler/BudgetTracker";
+import { identifySource } from "../common/sourceRegistry";
+import { withLanguage } from "../common/languages";
+
+// Languages NewsAPI's `language` parameter accepts
+export const NEWSAPI_LANGUAGES = ["ar", "de", "en", "es", "fr", "he", "it", "nl", "no", "pt", "ru", "sv", "ud", "zh"];
+
+/** The configured languages NewsAPI can search, each one request (per page) of every query. */
+export function newsApiSearchLanguages(languages: string[]): string[] {
+  return languages.filter((language) => NEWSAPI_LANGUAGES.includes(language));
+}
 
 // Minimal fetcher for https://newsapi.org (Free tier: 100 requests/day, no full text)
 // This class focuses on the /v2/everything endpoint for keyword search.
-// It can be adapted to other providers by implementing the same shape.
-export class NewsApiFetcher {
+// NewsAPI filters on one language per request, so every query is searched once per configured
+// language it supports; languages it does not know (e.g. ja) are left to the other providers.
+export class NewsApiFetcher implements NewsProvider {
+  public readonly name = "newsapi";
   private readonly baseUrl = "https://newsapi.org/v2";
+  private readonly languages: string[];
 
-  public constructor(private readonly apiKey: string) {
+  public constructor(
+    private readonly apiKey: string,
+    private readonly budget?: BudgetTracker, // every request, retries included, counts against the daily quota
+    languages: string[] = ["en"] // ISO 639-1 codes to search
+  ) {
     if (!apiKey) {
       throw new Error("NewsApiFetcher requires an API key");
     }
+    this.languages = newsApiSearchLanguages(languages);
+    const unsupported = languages.filter((language) => !this.languages.includes(language));
+    if (unsupported.length) {
+      console.warn(
+        `[news] NewsAPI cannot search ${unsupported.join(", ")}; ` +
+          (this.languages.length
+            ? "those articles come only from the other providers."
+            : "it makes no requests for these NEWS_LANGUAGES.")
+      );
+    }
+  }
+
+  /** NewsProvider entry point: one query over the requested date range, in every language searched. */
+  public async fetchArticles({
+    query,
+    from,
+    to,
+    pageSize = 100,
+    pageLimit = 1,
+  }: NewsQuery): Promise<Article[]> {
+    const all = new Map<string, Article>();
+    for (const language of this.languages) {
+      const articles = await this.fetchAllPages(query, { from, to, pageSize, pageLimit, language });
+      articles.forEach((article) => all.set(article.id, article));
+    }
+    return [...all.values()];
   }
 
   /**
    * Fetch articles matching provided query terms.
    * @param query e.g. "rare earth metal" or list of element names
    * @param from optional ISO date string to restrict start time
+   * @param to optional ISO date string to restrict end time
    * @param pageSize up to 100 (free tier may limit)
    * @param page pagination index starting at 1
+   * @param language optional ISO 639-1 code to restrict the search to
    */
   public async fetchEverything(
     query: string,
     {
       from,
+      to,
       pageSize = 50,
       page = 1,
-    }: { from?: string; pageSize?: number; page?: number } = {}
+      language,
+    }: { from?: string; to?: string; pageSize?: number; page?: number; language?: string } = {}
   ): Promise<Article[]> {
     const params = new URLSearchParams({
       q: query,
-      language: "en",
       sortBy: "publishedAt",
       pageSize: String(pageSize),
       page: String(page),
     });
+    if (language) params.set("language", language);
     if (from) params.set("from", from);
+    if (to) params.set("to", to);
 
     const url = `${this.baseUrl}/everything?${params.toString()}`;
     const res = await this.fetchWithRetry(url);
     const json = await res.json();
     const rawArticles: any[] = json.articles ?? [];
-    return rawArticles.map((a) => normalizeNewsApiArticle(a));
+    return rawArticles.map((a) => normalizeNewsApiArticle(a, language));
   }
 
   /**
@@ -51,13 +101,22 @@ export class NewsApiFetcher {
     query: string,
     {
       from,
+      to,
       pageSize = 50,
       pageLimit = 3,
-    }: { from?: string; pageSize?: number; pageLimit?: number } = {}
+      language,
+    }: { from?: string; to?: string; pageSize?: number; pageLimit?: number; language?: string } = {}
   ): Promise<Article[]> {
     const all: Article[] = [];
     for (let page = 1; page <= pageLimit; page++) {
-      const batch = await this.fetchEverything(query, { from, pageSize, page });
+      let batch: Article[];
+      try {
+        batch = await this.fetchEverything(query, { from, to, pageSize, page, language });
+      } catch (e) {
+        // Developer plans serve only the first 100 results of a search; keep the pages fetched so far
+        if (page > 1 && (e as Error).message.includes("maximumResultsReached")) break;
+        throw e;
+      }
       if (!batch.length) break;
       all.push(...batch);
       if (batch.length < pageSize) break; // last page
@@ -68,61 +127,6 @@ export class NewsApiFetcher {
     return [...map.values()];
   }
 
-  /**
-   * Build a rare earth focused query string.
-   * NewsAPI interprets space as AND. Use quoted phrases and OR for breadth.
-   */
-  public buildRareEarthQuery(
-    extraTerms: string[] = [],
-    automotiveFocus: boolean = true
-  ): string {
-    const metalTerms = [
-      '"rare earth"',
-      "neodymium",
-      "praseodymium",
-      "dysprosium",
-      "terbium",
-      "samarium",
-      "yttrium",
-      "lanthanum",
-      "cerium",
-      "lithium",
-      "cobalt",
-      "nickel",
-      "manganese",
-      "graphite",
-    ];
-    const autoTerms = automotiveFocus
-      ? [
-          "EV",
-          '"electric vehicle"',
-          '"electric car"',
-          "automotive",
-          "battery",
-          '"battery pack"',
-          "gigafactory",
-          "motor",
-          '"traction motor"',
-          '"permanent magnet"',
-          "magnet",
-          "drivetrain",
-          "Tesla",
-          "BYD",
-          "Volkswagen",
-          "Toyota",
-        ]
-      : [];
-    const mergedMetals = [...new Set([...metalTerms, ...extraTerms])];
-    // Build (metals) AND (autoTerms) pattern to narrow to automotive context, if autoTerms provided
-    const metalsClause = mergedMetals.join(" OR ");
-    if (autoTerms.length === 0) {
-      return metalsClause.slice(0, 480);
-    }
-    const autoClause = autoTerms.join(" OR ");
-    const query = `(${metalsClause}) AND (${autoClause})`;
-    return query.slice(0, 480);
-  }
-
   private async fetchWithRetry(url: string, attempt = 1): Promise<Response> {
     // Optional insecure / custom TLS handling for corporate proxies.
     // If ALLOW_INSECURE_TLS=true we disable certificate validation (NOT recommended for production).
@@ -132,6 +136,10 @@ export class NewsApiFetcher {
       ? new Agent({ connect: { rejectUnauthorized: false } })
       : undefined;
 
+    if (this.budget && !this.budget.tryConsume("newsapi")) {
+      throw new Error("NewsAPI daily request budget exhausted (NEWSAPI_DAILY_LIMIT)");
+    }
+
     let res: Response;
     try {
       res = await fetch(url, {
@@ -164,8 +172,9 @@ export class NewsApiFetcher {
   }
 }
 
-function normalizeNewsApiArticle(article: any): Article {
-  return {
+// Registered outlets take their canonical name and registry id; the language is the one searched, else detected
+function normalizeNewsApiArticle(article: any, language?: string): Article {
+  return withLanguage(identifySource({
     id: article.url, // use URL as id (unique enough)
     url: article.url,
     source: article.source?.name || "unknown",
@@ -174,6 +183,6 @@ function normalizeNewsApiArticle(article: any): Article {
     publishedAt: article.publishedAt || undefined,
     content: article.content || undefined,
     author: article.author || undefined,
-    language: "en",
-  };
+    language,
+  }));
 }
@@ -0,0 +1,164 @@
+import { Article } from "../types";
+
+/**
+ * Query passed to every news provider.
+ * `query` uses NewsAPI boolean syntax (quoted phrases, AND / OR / NOT, parentheses);
+ * providers that cannot search server-side filter locally with `matchesQuery`.
+ */
+export interface NewsQuery {
+  query: string;
+  from?: string; // ISO date or timestamp, inclusive
+  to?: string; // ISO date or timestamp, inclusive
+  pageSize?: number;
+  pageLimit?: number;
+}
+
+/** A source of normalized Articles (NewsAPI, RSS/Atom feeds, captured corpora, ...). */
+export interface NewsProvider {
+  readonly name: string;
+  fetchArticles(query: NewsQuery): Promise<Article[]>;
+}
+
+/**
+ * Fans a query out to several providers and merges the results, de-duplicated by URL.
+ * A failing provider is logged and skipped so one broken feed does not abort the run,
+ * unless `strict`, where a result missing a provider's articles would be recorded as complete.
+ */
+export class CompositeNewsProvider implements NewsProvider {
+  public readonly name: string;
+
+  constructor(
+    private readonly providers: NewsProvider[],
+    private readonly strict = false
+  ) {
+    this.name = providers.map((p) => p.name).join("+");
+  }
+
+  public async fetchArticles(query: NewsQuery): Promise<Article[]> {
+    const map = new Map<string, Article>();
+    for (const provider of this.providers) {
+      try {
+        const batch = await provider.fetchArticles(query);
+        batch.forEach((article) => {
+          if (!map.has(article.url)) map.set(article.url, article);
+        });
+      } catch (e) {
+        if (this.strict) throw new Error(`${provider.name}: ${(e as Error).message}`);
+        console.warn(
+          `[news] Provider ${provider.name} failed: ${(e as Error).message}`
+        );
+      }
+    }
+    return [...map.values()];
+  }
+}
+
+/** True if the article's publishedAt falls inside [from, to]. Undated articles always pass. */
+export function withinDateRange(
+  article: Article,
+  from?: string,
+  to?: string
+): boolean {
+  if (!article.publishedAt) return true;
+  const ts = Date.parse(article.publishedAt);
+  if (Number.isNaN(ts)) return true;
+  if (from && ts < Date.parse(from)) return false;
+  // A bare YYYY-MM-DD upper bound includes the whole day
+  if (to) {
+    const toTs = /^\d{4}-\d{2}-\d{2}$/.test(to)
+      ? Date.parse(to) + 24 * 60 * 60 * 1000 - 1
+      : Date.parse(to);
+    if (ts > toTs) return false;
+  }
+  return true;
+}
+
+// ── Local query matching ──────────────────────────────────────────────────────
+// Minimal evaluator for the NewsAPI query syntax so that feeds and captured files
+// can be filtered with the same query strings used against NewsAPI.
+
+type QueryNode =
+  | { kind: "term"; value: string }
+  | { kind: "not"; node: QueryNode }
+  | { kind: "and" | "or"; left: QueryNode; right: QueryNode };
+
+/**
+ * Evaluate a NewsAPI-style query against an article's title, description and content.
+ * Adjacent terms without an operator are treated as AND (NewsAPI behaviour).
+ * An empty query matches everything.
+ */
+export function matchesQuery(article: Article, query: string): boolean {
+  const tokens = tokenizeQuery(query);
+  if (!tokens.length) return true;
+  const ast = parseOr(tokens, { pos: 0 });
+  const haystack = [article.title, article.description, article.content]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  return evaluate(ast, haystack);
+}
+
+function tokenizeQuery(query: string): string[] {
+  const tokens: string[] = [];
+  const re = /"([^"]*)"|(\()|(\))|([^\s()"]+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(query)) !== null) {
+    if (m[1] !== undefined) tokens.push(`"${m[1]}`);
+    else if (m[2]) tokens.push("(");
+    else if (m[3]) tokens.push(")");
+    else if (m[4]) tokens.push(m[4]);
+  }
+  return tokens;
+}
+
+function parseOr(tokens: string[], state: { pos: number }): QueryNode {
+  let left = parseAnd(tokens, state);
+  while (tokens[state.pos] === "OR") {
+    state.pos++;
+    left = { kind: "or", left, right: parseAnd(tokens, state) };
+  }
+  return left;
+}
+
+function parseAnd(tokens: string[], state: { pos: number }): QueryNode {
+  let left = parseUnary(tokens, state);
+  while (
+    state.pos < tokens.length &&
+    tokens[state.pos] !== "OR" &&
+    tokens[state.pos] !== ")"
+  ) {
+    if (tokens[state.pos] === "AND") state.pos++;
+    left = { kind: "and", left, right: parseUnary(tokens, state) };
+  }
+  return left;
+}
+
+function parseUnary(tokens: string[], state: { pos: number }): QueryNode {
+  const token = tokens[state.pos++];
+  if (token === "NOT") return { kind: "not", node: parseUnary(tokens, state) };
+  if (token === "(") {
+    const inner = parseOr(tokens, state);
+    if (tokens[state.pos] === ")") state.pos++;
+    return inner;
+  }
+  const raw = token?.startsWith('"') ? token.slice(1) : token ?? "";
+  return { kind: "term", value: raw.replace(/^[+-]/, "").toLowerCase() };
+}
+
+function evaluate(node: QueryNode, haystack: string): boolean {
+  switch (node.kind) {
+    case "term":
+      return node.value === "" || containsWord(haystack, node.value);
+    case "not":
+      return !evaluate(node.node, haystack);
+    case "and":
+      return evaluate(node.left, haystack) && evaluate(node.right, haystack);
+    case "or":
+      return evaluate(node.left, haystack) || evaluate(node.right, haystack);
+  }
+}
+
+function containsWord(haystack: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`, "i").test(haystack);
+}
@@ -0,0 +1,158 @@
+import { Article } from "../types";
+import { identifySource } from "../common/sourceRegistry";
+import { normalizeLanguage, withLanguage } from "../common/languages";
+import { NewsProvider, NewsQuery, matchesQuery, withinDateRange } from "./NewsProvider";
+
+// Fetcher for RSS 2.0 and Atom feeds (trade press, company newsrooms, ...).
+// Feeds cannot be searched server-side, so every item is pulled and filtered
+// locally against the query and date range. An unreachable feed is logged and
+// skipped, unless `strict`, where the query fails instead of returning the other feeds' items.
+export class RssFeedFetcher implements NewsProvider {
+  public readonly name = "rss";
+
+  public constructor(
+    private readonly feedUrls: string[],
+    private readonly strict = false
+  ) {
+    if (!feedUrls.length) {
+      throw new Error("RssFeedFetcher requires at least one feed URL");
+    }
+  }
+
+  public async fetchArticles({ query, from, to }: NewsQuery): Promise<Article[]> {
+    const all: Article[] = [];
+    for (const feedUrl of this.feedUrls) {
+      try {
+        all.push(...(await this.fetchFeed(feedUrl)));
+      } catch (e) {
+        if (this.strict) throw new Error(`${feedUrl}: ${(e as Error).message}`);
+        console.warn(`[rss] Failed to read ${feedUrl}: ${(e as Error).message}`);
+      }
+    }
+    return all.filter(
+      (article) => withinDateRange(article, from, to) && matchesQuery(article, query)
+    );
+  }
+
+  /** Download and parse one feed. Throws on HTTP errors. */
+  public async fetchFeed(feedUrl: string): Promise<Article[]> {
+    const res = await fetch(feedUrl, {
+      headers: { Accept: "application/rss+xml, application/atom+xml, application/xml, text/xml" },
+      signal: AbortSignal.timeout(15_000),
+    });
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status}`);
+    }
+    return parseFeed(await res.text(), feedUrl);
+  }
+}
+
+/**
+ * Parse an RSS 2.0 or Atom document into Articles.
+ * Deliberately tolerant: unknown elements are ignored and items without a link are dropped.
+ * Items take the feed's declared language (<language>, xml:lang), else the one detected.
+ */
+export function parseFeed(xml: string, feedUrl: string): Article[] {
+  const isAtom = /<feed[\s>]/i.test(xml) && !/<rss[\s>]/i.test(xml);
+  const header = xml.replace(/<(item|entry)[\s>][\s\S]*$/i, "");
+  const channelTitle = textOf(firstElement(header, "title"));
+  const language = normalizeLanguage(
+    textOf(firstElement(header, "language")) || header.match(/<feed\b[^>]*\bxml:lang\s*=\s*["']([^"']+)["']/i)?.[1]
+  );
+  const source = channelTitle || hostnameOf(feedUrl);
+  const blocks = allElements(xml, isAtom ? "entry" : "item");
+
+  const articles: Article[] = [];
+  for (const block of blocks) {
+    const url = isAtom ? atomLink(block) : textOf(firstElement(block, "link"));
+    if (!url) continue;
+    const content = textOf(
+      firstElement(block, "content:encoded") ?? firstElement(block, "content")
+    );
+    const description = textOf(
+      firstElement(block, "description") ?? firstElement(block, "summary")
+    );
+    const published = textOf(
+      firstElement(block, "pubDate") ??
+        firstElement(block, "published") ??
+        firstElement(block, "dc:date") ??
+        firstElement(block, "updated")
+    );
+    const authorBlock = firstElement(block, "author");
+    const author = textOf(
+      (authorBlock && firstElement(authorBlock, "name")) ??
+        authorBlock ??
+        firstElement(block, "dc:creator")
+    );
+    const publishedTs = published ? Date.parse(published) : NaN;
+
+    articles.push(withLanguage(identifySource({
+      id: url,
+      url,
+      source,
+      title: textOf(firstElement(block, "title")),
+      description: description || undefined,
+      publishedAt: Number.isNaN(publishedTs)
+        ? undefined
+        : new Date(publishedTs).toISOString(),
+      content: content || undefined,
+      author: author || undefined,
+      language,
+    })));
+  }
+  return articles;
+}
+
+// ── XML helpers (regex based; feeds are small and shallow) ────────────────────
+
+function firstElement(xml: string, tag: string): string | undefined {
+  const re = new RegExp(`<${escapeTag(tag)}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapeTag(tag)}>`, "i");
+  return xml.match(re)?.[1];
+}
+
+function allElements(xml: string, tag: string): string[] {
+  const re = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "gi");
+  return [...xml.matchAll(re)].map((m) => m[1]);
+}
+
+function atomLink(entry: string): string {
+  const links = [...entry.matchAll(/<link\b([^>]*)\/?>/gi)].map((m) => m[1]);
+  const alternate =
+    links.find((attrs) => /rel\s*=\s*["']alternate["']/i.test(attrs)) ??
+    links.find((attrs) => !/rel\s*=/i.test(attrs)) ??
+    links[0];
+  return alternate?.match(/href\s*=\s*["']([^"']+)["']/i)?.[1] ?? "";
+}
+
+function textOf(fragment: string | undefined): string {
+  if (!fragment) return "";
+  const unwrapped = fragment.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+  // Entities first: escaped HTML inside <description> becomes real tags, then stripped
+  return decodeEntities(decodeEntities(unwrapped).replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;|&#39;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+function escapeTag(tag: string): string {
+  return tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "unknown";
+  }
+}
@@ -0,0 +1,255 @@
+// Readability-style extraction of an article's main body text from its HTML page.
+// Paragraphs vote for the element that contains them; the best scoring container,
+// weighed down by link density and boilerplate class names, is taken as the article.
+
+interface HtmlElement {
+  tag: string;
+  attrs: string;
+  children: HtmlNode[];
+  parent?: HtmlElement;
+}
+
+type HtmlNode = HtmlElement | string;
+
+// Never part of the article body
+const SKIPPED_TAGS = new Set([
+  "nav", "header", "footer", "aside", "form", "button", "select", "figure", "menu", "dialog",
+]);
+
+const VOID_TAGS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr",
+]);
+
+// Elements whose text is emitted as one paragraph
+const TEXT_BLOCK_TAGS = new Set(["p", "h1", "h2", "h3", "h4", "h5", "h6", "li", "blockquote", "pre"]);
+
+// Opening one of these closes an open <p>
+const CLOSES_PARAGRAPH = new Set([
+  "p", "div", "ul", "ol", "table", "section", "article", "blockquote", "pre", "h1", "h2", "h3", "h4", "h5", "h6",
+]);
+
+const POSITIVE_CLASS = /article|body|content|entry|main|page|post|story|text/i;
+const NEGATIVE_CLASS =
+  /\bad\b|ads|advert|banner|byline|caption|comment|cookie|footer|header|meta|modal|nav|newsletter|outbrain|paywall|popup|promo|related|share|sidebar|social|sponsor|subscribe|tags|taboola|widget/i;
+
+const MIN_PARAGRAPH_CHARS = 25;
+
+/**
+ * Main body text of an HTML page: paragraphs of the best scoring container (and of
+ * siblings that score close to it) separated by blank lines. Empty when nothing in the
+ * page looks like article text.
+ */
+export function extractMainText(html: string): string {
+  const root = parseHtml(html);
+  const body = findElement(root, "body") ?? root;
+  const scores = scoreCandidates(body);
+
+  let top: HtmlElement | undefined;
+  for (const [element, score] of scores) {
+    if (!top || score > scores.get(top)!) top = element;
+  }
+  if (!top) return "";
+
+  // Articles split into several containers (e.g. around an inline ad) keep their siblings
+  const threshold = Math.max(10, scores.get(top)! * 0.2);
+  const parts = top.parent
+    ? top.parent.children.filter(
+        (node): node is HtmlElement => typeof node !== "string" && (node === top || (scores.get(node) ?? 0) >= threshold)
+      )
+    : [top];
+
+  const paragraphs: string[] = [];
+  for (const part of parts) collectParagraphs(part, paragraphs);
+  return paragraphs.join("\n\n");
+}
+
+/**
+ * Score containers by the paragraphs in them: each paragraph credits its parent fully and
+ * its grandparent by half, then every container is scaled by its share of non-link text.
+ */
+function scoreCandidates(body: HtmlElement): Map<HtmlElement, number> {
+  const scores = new Map<HtmlElement, number>();
+  const initialize = (element: HtmlElement) => {
+    if (!scores.has(element)) scores.set(element, tagWeight(element.tag) + classWeight(element));
+  };
+
+  for (const paragraph of findElements(body, (e) => e.tag === "p" || e.tag === "pre" || e.tag === "td")) {
+    if (isSkipped(paragraph)) continue;
+    const text = innerText(paragraph);
+    if (text.length < MIN_PARAGRAPH_CHARS) continue;
+    const score = 1 + (text.match(/,/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+    const parent = paragraph.parent;
+    if (!parent) continue;
+    initialize(parent);
+    scores.set(parent, scores.get(parent)! + score);
+    const grandparent = parent.parent;
+    if (grandparent) {
+      initialize(grandparent);
+      scores.set(grandparent, scores.get(grandparent)! + score / 2);
+    }
+  }
+
+  for (const [element, score] of scores) scores.set(element, score * (1 - linkDensity(element)));
+  return scores;
+}
+
+function tagWeight(tag: string): number {
+  if (tag === "article") return 10;
+  if (tag === "div" || tag === "section" || tag === "main") return 5;
+  if (tag === "pre" || tag === "td" || tag === "blockquote") return 3;
+  if (["ol", "ul", "dl", "dd", "dt", "li", "address"].includes(tag)) return -3;
+  if (/^h[1-6]$/.test(tag) || tag === "th") return -5;
+  return 0;
+}
+
+function classWeight(element: HtmlElement): number {
+  const names = `${attribute(element, "class") ?? ""} ${attribute(element, "id") ?? ""}`;
+  let weight = 0;
+  if (NEGATIVE_CLASS.test(names)) weight -= 25;
+  if (POSITIVE_CLASS.test(names)) weight += 25;
+  return weight;
+}
+
+function linkDensity(element: HtmlElement): number {
+  const length = innerText(element).length;
+  if (!length) return 0;
+  const linked = findElements(element, (e) => e.tag === "a").reduce((sum, a) => sum + innerText(a).length, 0);
+  return Math.min(linked / length, 1);
+}
+
+function isSkipped(element: HtmlElement): boolean {
+  for (let e: HtmlElement | undefined = element; e; e = e.parent) {
+    if (SKIPPED_TAGS.has(e.tag)) return true;
+  }
+  return false;
+}
+
+/**
+ * Text of the article container as paragraphs. Loose text between blocks (e.g. lines
+ * separated by <br>) forms paragraphs of its own; boilerplate and link lists are dropped.
+ */
+function collectParagraphs(element: HtmlElement, out: string[]): void {
+  let inline = "";
+  const flush = () => {
+    for (const line of inline.split(/\n{2,}/)) {
+      const text = normalizeSpace(line);
+      if (text) out.push(text);
+    }
+    inline = "";
+  };
+
+  for (const child of element.children) {
+    if (typeof child === "string") {
+      inline += child;
+    } else if (child.tag === "br") {
+      inline += "\n";
+    } else if (SKIPPED_TAGS.has(child.tag) || classWeight(child) < 0) {
+      continue;
+    } else if (TEXT_BLOCK_TAGS.has(child.tag)) {
+      flush();
+      const text = innerText(child);
+      if (text && (child.tag !== "li" || linkDensity(child) < 0.5)) out.push(text);
+    } else if (isBlock(child)) {
+      flush();
+      if (linkDensity(child) < 0.5) collectParagraphs(child, out);
+    } else {
+      inline += innerText(child, false);
+    }
+  }
+  flush();
+}
+
+function isBlock(element: HtmlElement): boolean {
+  return (
+    CLOSES_PARAGRAPH.has(element.tag) ||
+    ["main", "dl", "dd", "dt", "tr", "td", "tbody", "thead", "center"].includes(element.tag)
+  );
+}
+
+// ── HTML parsing (tolerant; unclosed and stray tags are repaired as browsers roughly do) ──
+
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: "#root", attrs: "", children: [] };
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|svg|iframe|object|canvas)\b[\s\S]*?<\/\1\s*>/gi, "");
+
+  let current = root;
+  for (const token of cleaned.matchAll(/<(\/?)([a-zA-Z][\w:-]*)([^>]*)>|<[!?][^>]*>|[^<]+|</g)) {
+    const [raw, closing, name, attrs] = token;
+    if (!name) {
+      if (!raw.startsWith("<!") && !raw.startsWith("<?")) current.children.push(decodeHtmlEntities(raw));
+      continue;
+    }
+    const tag = name.toLowerCase();
+    if (closing) {
+      // Close up to the matching open element; a closing tag without one is ignored
+      for (let e: HtmlElement | undefined = current; e && e !== root; e = e.parent) {
+        if (e.tag === tag) {
+          current = e.parent ?? root;
+          break;
+        }
+      }
+      continue;
+    }
+    if (current.tag === "p" && CLOSES_PARAGRAPH.has(tag)) current = current.parent ?? root;
+    if (current.tag === "li" && tag === "li") current = current.parent ?? root;
+    const element: HtmlElement = { tag, attrs, children: [], parent: current };
+    current.children.push(element);
+    if (!VOID_TAGS.has(tag) && !attrs.trimEnd().endsWith("/")) current = element;
+  }
+  return root;
+}
+
+function attribute(element: HtmlElement, name: string): string | undefined {
+  const match = element.attrs.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function findElement(root: HtmlElement, tag: string): HtmlElement | undefined {
+  return findElements(root, (e) => e.tag === tag)[0];
+}
+
+function findElements(root: HtmlElement, predicate: (element: HtmlElement) => boolean): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  const visit = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (typeof child === "string") continue;
+      if (predicate(child)) found.push(child);
+      visit(child);
+    }
+  };
+  visit(root);
+  return found;
+}
+
+function innerText(node: HtmlNode, normalize = true): string {
+  const text =
+    typeof node === "string"
+      ? node
+      : node.tag === "br"
+        ? " "
+        : node.children.map((child) => innerText(child, false)).join("");
+  return normalize ? normalizeSpace(text) : text;
+}
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ",
+  ndash: "–", mdash: "—", hellip: "…", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+  laquo: "«", raquo: "»", bull: "•", middot: "·", deg: "°", euro: "€", pound: "£", yen: "¥",
+  copy: "©", reg: "®", trade: "™", times: "×", minus: "−", shy: "",
+};
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
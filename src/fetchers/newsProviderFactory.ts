@@ -0,0 +1,36 @@
+import { AppConfig } from "../config";
+import { CompositeNewsProvider, NewsProvider } from "./NewsProvider";
+import { NewsApiFetcher } from "./NewsApiFetcher";
+import { RssFeedFetcher } from "./RssFeedFetcher";
+import { LocalFileFetcher } from "./LocalFileFetcher";
+import { BudgetTracker } from "../scheduler/BudgetTracker";
+
+/**
+ * Build the news provider selected by NEWS_PROVIDERS.
+ * Providers missing their required setting are skipped with a warning.
+ * Returns null when nothing usable is configured. NewsAPI requests count against `budget`.
+ * With `strict`, one failing provider or RSS feed fails the whole query (see CompositeNewsProvider).
+ */
+export function createNewsProvider(cfg: AppConfig, budget?: BudgetTracker, strict = false): NewsProvider | null {
+  const providers: NewsProvider[] = [];
+
+  for (const name of cfg.newsProviders) {
+    switch (name) {
+      case "newsapi":
+        if (cfg.newsApiKey) providers.push(new NewsApiFetcher(cfg.newsApiKey, budget, cfg.newsLanguages));
+        else console.warn("[news] newsapi provider enabled but NEWS_API_KEY not set; skipping.");
+        break;
+      case "rss":
+        if (cfg.rssFeedUrls.length) providers.push(new RssFeedFetcher(cfg.rssFeedUrls, strict));
+        else console.warn("[news] rss provider enabled but RSS_FEEDS not set; skipping.");
+        break;
+      case "file":
+        if (cfg.newsFilePath) providers.push(new LocalFileFetcher(cfg.newsFilePath));
+        else console.warn("[news] file provider enabled but NEWS_FILE_PATH not set; skipping.");
+        break;
+    }
+  }
+
+  if (!providers.length) return null;
+  return providers.length === 1 ? providers[0] : new CompositeNewsProvider(providers, strict);
+}
@@ -0,0 +1,210 @@
+import { AppConfig } from "../config";
+import { createNewsProvider } from "../fetchers/newsProviderFactory";
+import { newsApiSearchLanguages } from "../fetchers/NewsApiFetcher";
+import { NewsQuerySpec } from "../common/querySets";
+import { log } from "../common/logger";
+import { BudgetTracker } from "../scheduler/BudgetTracker";
+import { BackfillGranularity, BackfillRecord, SqliteStore } from "../storage/SqliteStore";
+import { recordRun } from "./runner";
+import { NEWS_PAGE_LIMIT, admitLanguages, newsQueries, storeRunArticles } from "./steps";
+
+/** Date range and queries of a backfill; the same request again continues it. */
+export interface BackfillRequest {
+  from: string; // first day, YYYY-MM-DD
+  to: string; // last day, inclusive
+  window: BackfillGranularity;
+  queries?: NewsQuerySpec[]; // those of the configured query set when absent
+  pageLimit?: number; // NEWS_PAGE_LIMIT when absent
+}
+
+export interface BackfillLimits {
+  budget?: BudgetTracker; // counts NewsAPI requests against the daily quota
+  maxRequests?: number; // NewsAPI requests one session may spend
+  reserve?: number; // NewsAPI requests of the day left for regular runs
+}
+
+/** A backfill with counts of its window queries. */
+export interface BackfillStatus extends BackfillRecord {
+  total: number; // window queries, i.e. windows × queries
+  completed: number;
+  failed: number; // last attempt failed; retried by the next session
+  saturated: number; // completed ones whose every page came back full, so more articles likely exist
+  articles: number; // returned by the completed ones, counted per query
+}
+
+/** What one session of a backfill fetched and why it stopped. */
+export interface BackfillProgress extends BackfillStatus {
+  runId?: string; // run of the session; absent when nothing was fetched
+  fetched: number; // window queries fetched this session
+  fetchedArticles: number;
+  stoppedBy?: string; // why the session ended with window queries left
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 100;
+
+/** Consecutive day or week windows covering [from, to]; the last week is cut at `to`. */
+export function planBackfillWindows(
+  from: string,
+  to: string,
+  window: BackfillGranularity
+): Array<{ start: string; end: string }> {
+  const stepDays = window === "week" ? 7 : 1;
+  const last = Date.parse(to);
+  const windows: Array<{ start: string; end: string }> = [];
+  for (let start = Date.parse(from); start <= last; start += stepDays * DAY_MS) {
+    windows.push({ start: isoDay(start), end: isoDay(Math.min(start + (stepDays - 1) * DAY_MS, last)) });
+  }
+  return windows;
+}
+
+/** The backfill made with the same request (the latest, if several), or a new one. */
+export function openBackfill(store: SqliteStore, request: BackfillRequest): BackfillRecord {
+  const plan = {
+    from: request.from,
+    to: request.to,
+    window: request.window,
+    queries: request.queries ?? newsQueries(),
+    pageLimit: request.pageLimit ?? NEWS_PAGE_LIMIT,
+  };
+  const existing = store
+    .listBackfills()
+    .reverse()
+    .find(
+      (b) =>
+        b.from === plan.from &&
+        b.to === plan.to &&
+        b.window === plan.window &&
+        b.pageLimit === plan.pageLimit &&
+        JSON.stringify(b.queries) === JSON.stringify(plan.queries)
+    );
+  if (existing) {
+    log(`[backfill] ${existing.status === "completed" ? "Already completed" : "Continuing"}: ${existing.id}`);
+    return existing;
+  }
+  const windows = planBackfillWindows(plan.from, plan.to, plan.window);
+  const created = store.createBackfill(plan, windows);
+  log(`[backfill] Created ${created.id}: ${windows.length} ${plan.window} windows × ${plan.queries.length} queries`);
+  return created;
+}
+
+/** Counts of the backfill's window queries. */
+export function backfillStatus(store: SqliteStore, backfill: BackfillRecord): BackfillStatus {
+  const windows = store.loadBackfillWindows(backfill.id);
+  const completed = windows.filter((w) => w.status === "completed");
+  return {
+    ...backfill,
+    total: windows.length,
+    completed: completed.length,
+    failed: windows.filter((w) => w.status === "failed").length,
+    saturated: completed.filter((w) => w.saturated).length,
+    articles: completed.reduce((sum, w) => sum + (w.articles ?? 0), 0),
+  };
+}
+
+/**
+ * Fetch the backfill's outstanding window queries in date order, as one recorded run,
+ * until they are done or the next one would overrun the session's request limit or the
+ * day's NewsAPI budget less the reserve. Failed window queries are tried again. Every
+ * window query is recorded when it finishes, so an interrupted session loses at most
+ * the one in flight; a failing one fails the run and is rethrown.
+ */
+export async function continueBackfill(
+  cfg: AppConfig,
+  store: SqliteStore,
+  backfillId: string,
+  limits: BackfillLimits = {}
+): Promise<BackfillProgress> {
+  const backfill = store.getBackfill(backfillId);
+  if (!backfill) throw new Error(`Backfill ${backfillId} not found`);
+  const outstanding = store.loadBackfillWindows(backfillId).filter((w) => w.status !== "completed");
+  const session = { fetched: 0, fetchedArticles: 0 };
+  if (!outstanding.length) {
+    store.completeBackfill(backfillId);
+    return { ...backfillStatus(store, store.getBackfill(backfillId)!), ...session };
+  }
+
+  // A window query counts as fetched only when every provider delivered
+  const provider = createNewsProvider(cfg, limits.budget, true);
+  if (!provider) throw new Error("No news provider configured; set NEWS_API_KEY, RSS_FEEDS or NEWS_FILE_PATH");
+  // Counted at the upper bound: every page of the query in every language, only NewsAPI has a quota
+  const requestsPerQuery =
+    cfg.newsProviders.includes("newsapi") && cfg.newsApiKey
+      ? backfill.pageLimit * newsApiSearchLanguages(cfg.newsLanguages).length
+      : 0;
+  let spent = 0;
+  const stopReason = (): string | undefined => {
+    if (!requestsPerQuery) return undefined;
+    if (limits.maxRequests !== undefined && spent + requestsPerQuery > limits.maxRequests) {
+      return `request limit of ${limits.maxRequests} for the session reached`;
+    }
+    const reserve = limits.reserve ?? 0;
+    const remaining = limits.budget?.remaining("newsapi") ?? Infinity;
+    if (remaining - reserve < requestsPerQuery) {
+      return `${remaining} NewsAPI requests left today, ${reserve} reserved for regular runs`;
+    }
+    return undefined;
+  };
+
+  let stoppedBy = stopReason();
+  if (stoppedBy) return { ...backfillStatus(store, backfill), ...session, stoppedBy };
+
+  const runId = await recordRun(cfg, store, "backfill", async (runId) => {
+    log(`[backfill] ${backfill.id}: ${outstanding.length} window queries outstanding`);
+    for (const window of outstanding) {
+      stoppedBy = stopReason();
+      if (stoppedBy) break;
+      spent += requestsPerQuery;
+      const query = backfill.queries[window.queryIndex];
+      try {
+        const fetched = await provider.fetchArticles({
+          query: query.query,
+          from: `${window.start}T00:00:00Z`,
+          to: `${window.end}T23:59:59Z`,
+          pageSize: PAGE_SIZE,
+          pageLimit: backfill.pageLimit,
+        });
+        const articles = admitLanguages(cfg, fetched);
+        storeRunArticles(store, runId, articles);
+        store.saveQueryFetch(runId, query, articles.map((a) => a.url));
+        // Pages are per language searched, so one language filling all of its pages is enough
+        const perLanguage = new Map<string, number>();
+        fetched.forEach((a) => perLanguage.set(a.language ?? "", (perLanguage.get(a.language ?? "") ?? 0) + 1));
+        const saturated = [...perLanguage.values()].some((count) => count >= PAGE_SIZE * backfill.pageLimit);
+        store.finishBackfillWindow(window, runId, { articles: articles.length, saturated });
+        session.fetched++;
+        session.fetchedArticles += articles.length;
+        log(
+          `[backfill] ${window.start === window.end ? window.start : `${window.start}…${window.end}`} ` +
+            `query ${window.queryIndex + 1}/${backfill.queries.length} (${query.id}): ${articles.length} articles` +
+            (saturated ? " (all pages full; more likely exist)" : "")
+        );
+      } catch (e) {
+        store.finishBackfillWindow(window, runId, { error: (e as Error).message });
+        throw e;
+      }
+    }
+    return runId;
+  });
+
+  const status = backfillStatus(store, backfill);
+  if (status.completed === status.total) {
+    store.completeBackfill(backfillId);
+    return { ...backfillStatus(store, store.getBackfill(backfillId)!), runId, ...session };
+  }
+  return { ...status, runId, ...session, ...(stoppedBy && { stoppedBy }) };
+}
+
+/** One line on where a backfill stands, e.g. for logs. */
+export function describeBackfill(status: BackfillStatus): string {
+  return (
+    `${status.id} (${status.from} → ${status.to}, ${status.window}): ${status.completed}/${status.total} window queries fetched, ` +
+    `${status.articles} articles` +
+    (status.saturated ? `, ${status.saturated} with all pages full` : "") +
+    (status.failed ? `, ${status.failed} failed` : "")
+  );
+}
+
+function isoDay(ms: number): string {
+  return new Date(ms).toISOString().split("T")[0];
+}
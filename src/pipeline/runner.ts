@@ -0,0 +1,212 @@
+import { AppConfig } from "../config";
+import { MetalPriceFetcher } from "../fetchers/MetalPriceFetcher";
+import { newsApiSearchLanguages } from "../fetchers/NewsApiFetcher";
+import { PredictionSet } from "../predictors/RareEarthMetalPredictor";
+import { BudgetTracker, BudgetedApi } from "../scheduler/BudgetTracker";
+import { LlmProvider, resetLlmFallbackCounts } from "../services/LlmProvider";
+import { createLlmProvider } from "../services/llmProviderFactory";
+import { RunMode, RunRecord, SqliteStore } from "../storage/SqliteStore";
+import { AggregatedSummary, Article, PriceDataSummary } from "../types";
+import { RunInputs, StageContext, StageData, StageName, dependentStages, planStages } from "./stages";
+import { AnalysisOutcome, NEWS_PAGE_LIMIT, PRICE_LOOKBACK_DAYS, newsQueries } from "./steps";
+import { log } from "../common/logger";
+
+/**
+ * What one run does: fetch prices only, fetch news only, fetch and analyze news, or
+ * regenerate predictions from the latest aggregate. Stored as the run's mode.
+ */
+export type PipelineMode = Extract<RunMode, "analysis" | "prediction" | "prices" | "fetch">;
+
+export interface PipelineOptions extends RunInputs {
+  budget?: BudgetTracker; // counts requests to quota-limited APIs
+  until?: StageName; // stop after this stage; resuming the run carries on from there
+}
+
+/** What a run produced; fields a mode does not produce are absent. */
+export interface PipelineResult {
+  runId: string;
+  priceData: PriceDataSummary | null;
+  articles?: Article[]; // extracted articles ("fetch", "analysis")
+  analysis?: AnalysisOutcome; // ("analysis")
+  aggregate?: AggregatedSummary; // with predictions ("analysis", "prediction"); absent when there was nothing to aggregate
+  predictions?: PredictionSet;
+}
+
+/**
+ * Run the pipeline once as a recorded run (a new one unless `runId` of a started run is
+ * given), stage by stage with a checkpoint after each (see planStages). The run is marked
+ * completed or failed; errors are rethrown. The store stays open.
+ */
+export async function runPipeline(
+  cfg: AppConfig,
+  store: SqliteStore,
+  mode: PipelineMode,
+  options: PipelineOptions = {},
+  runId = store.startRun(mode)
+): Promise<PipelineResult> {
+  const { budget, until, ...inputs } = options;
+  store.setRunInputs(runId, { ...inputs });
+  return recordRun(cfg, store, mode, (runId) => executeStages(cfg, store, runId, mode, inputs, { budget, until }), runId);
+}
+
+/**
+ * Continue a failed or interrupted run from its checkpoints: completed stages are restored,
+ * the rest run with the inputs the run was started with.
+ */
+export async function resumeRun(
+  cfg: AppConfig,
+  store: SqliteStore,
+  runId: string,
+  budget?: BudgetTracker
+): Promise<PipelineResult> {
+  const run = resumableRun(store, runId);
+  if (run.status === "completed") {
+    throw new Error(`Run ${runId} already completed; re-run one of its stages instead`);
+  }
+  store.reopenRun(runId);
+  return recordRun(cfg, store, run.mode, (runId) => executeStages(cfg, store, runId, run.mode, run.inputs, { budget }), runId);
+}
+
+/**
+ * Run one stage of a finished run again from the stored outputs of the stages before it,
+ * followed by the later stages that depend on its output. Other stages are restored from
+ * their checkpoints, or run if they never completed.
+ */
+export async function rerunStage(
+  cfg: AppConfig,
+  store: SqliteStore,
+  runId: string,
+  stage: StageName,
+  budget?: BudgetTracker
+): Promise<PipelineResult> {
+  const run = resumableRun(store, runId);
+  if (run.status === "running") throw new Error(`Run ${runId} is still running`);
+  const plan = planStages(run.mode, run.inputs);
+  if (!plan.some((s) => s.name === stage)) {
+    throw new Error(`Run ${runId} (${run.mode}) has no ${stage} stage (stages: ${plan.map((s) => s.name).join(", ")})`);
+  }
+  store.reopenRun(runId);
+  const rerun = dependentStages(plan, stage);
+  return recordRun(cfg, store, run.mode, (runId) => executeStages(cfg, store, runId, run.mode, run.inputs, { budget, rerun }), runId);
+}
+
+/**
+ * Record `work` as a run of `mode`: marked completed when it resolves, failed (and
+ * rethrown) when it throws. LLM fallback counts start afresh for every run.
+ */
+export async function recordRun<T>(
+  cfg: AppConfig,
+  store: SqliteStore,
+  mode: RunMode,
+  work: (runId: string) => Promise<T>,
+  runId = store.startRun(mode)
+): Promise<T> {
+  resetLlmFallbackCounts();
+  log(`[store] Run ${runId} (${mode}) → ${cfg.dbPath}`);
+  try {
+    const result = await work(runId);
+    store.finishRun(runId, "completed");
+    return result;
+  } catch (e) {
+    store.finishRun(runId, "failed", (e as Error).message);
+    throw e;
+  }
+}
+
+/**
+ * Upper bound of the quota-limited API requests a run of `mode` makes, so a scheduler
+ * can skip the run up front instead of failing halfway.
+ */
+export function estimateApiRequests(
+  cfg: AppConfig,
+  mode: PipelineMode,
+  options: PipelineOptions = {}
+): Partial<Record<BudgetedApi, number>> {
+  const needs: Partial<Record<BudgetedApi, number>> = {};
+  if (mode === "prices" || options.fetchPrices) {
+    needs["metals-api"] = new MetalPriceFetcher(cfg.metalsApiKey).requestCount(PRICE_LOOKBACK_DAYS);
+  }
+  const fetchesNews = mode === "fetch" || (mode === "analysis" && !options.storedArticles);
+  if (fetchesNews && cfg.newsProviders.includes("newsapi") && cfg.newsApiKey) {
+    needs.newsapi = newsQueries(options.news).length * NEWS_PAGE_LIMIT * newsApiSearchLanguages(cfg.newsLanguages).length;
+  }
+  return needs;
+}
+
+/** A run that recorded its inputs, i.e. one started since runs have stages. */
+function resumableRun(store: SqliteStore, runId: string): RunRecord & { mode: PipelineMode; inputs: RunInputs } {
+  const run = store.getRun(runId);
+  if (!run) throw new Error(`Run ${runId} not found`);
+  if (!run.inputs || !["analysis", "prediction", "prices", "fetch"].includes(run.mode)) {
+    throw new Error(`Run ${runId} has no stage checkpoints to resume from`);
+  }
+  return run as RunRecord & { mode: PipelineMode; inputs: RunInputs };
+}
+
+/**
+ * Go through the stages of the plan: a stage that completed in an earlier attempt is
+ * restored from its checkpoint unless it is to be re-run, one whose required input is
+ * missing is skipped, and every other stage runs and is checkpointed.
+ */
+async function executeStages(
+  cfg: AppConfig,
+  store: SqliteStore,
+  runId: string,
+  mode: RunMode,
+  inputs: RunInputs,
+  control: { budget?: BudgetTracker; until?: StageName; rerun?: Set<StageName> }
+): Promise<PipelineResult> {
+  let ai: LlmProvider | null = null;
+  const ctx: StageContext = {
+    cfg,
+    store,
+    runId,
+    mode,
+    inputs,
+    budget: control.budget,
+    llm() {
+      if (!ai) {
+        ai = createLlmProvider(cfg);
+        log(`[llm] ${ai.id}`);
+      }
+      return ai;
+    },
+  };
+  const checkpoints = new Map(store.loadStageCheckpoints(runId).map((c) => [c.stage, c]));
+  const data: Partial<StageData> = {};
+  const produced = data as Record<keyof StageData, unknown>;
+
+  for (const stage of planStages(mode, inputs)) {
+    const checkpoint = checkpoints.get(stage.name);
+    const missing = stage.requires.filter((k) => data[k] == null);
+    if (checkpoint?.status === "completed" && !control.rerun?.has(stage.name)) {
+      produced[stage.output] = stage.restore(ctx, checkpoint.output);
+      log(`[stage] ${stage.name}: restored from checkpoint`);
+    } else if (missing.length) {
+      store.finishStage(runId, stage.name, "skipped");
+      log(`[stage] ${stage.name}: skipped, no ${missing.join(", ")}`);
+    } else {
+      if (control.rerun?.has(stage.name)) stage.reset?.(ctx);
+      store.startStage(runId, stage.name);
+      try {
+        const value = await stage.run(ctx, data);
+        store.finishStage(runId, stage.name, "completed", stage.checkpoint(value as never));
+        produced[stage.output] = value;
+      } catch (e) {
+        store.finishStage(runId, stage.name, "failed", undefined, (e as Error).message);
+        console.error(`[stage] ${stage.name} failed; resume the run with: npm run cli -- resume --run ${runId}`);
+        throw e;
+      }
+    }
+    if (stage.name === control.until) break;
+  }
+
+  return {
+    runId,
+    priceData: data.priceData ?? null,
+    articles: data.news?.articles,
+    analysis: data.analysis,
+    aggregate: data.stored,
+    predictions: data.predictions,
+  };
+}
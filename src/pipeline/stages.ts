@@ -0,0 +1,245 @@
+import { AppConfig } from "../config";
+import { PredictionSet } from "../predictors/RareEarthMetalPredictor";
+import { BudgetTracker } from "../scheduler/BudgetTracker";
+import { LlmProvider } from "../services/LlmProvider";
+import { ArticleQuery, RunMode, SqliteStore } from "../storage/SqliteStore";
+import { AggregatedSummary, PriceDataSummary } from "../types";
+import {
+  AnalysisOutcome,
+  NewsFetchOptions,
+  RunArticles,
+  analyzeArticles,
+  fetchNews,
+  loadPriceData,
+  loadRunArticles,
+  loadRunResults,
+  predictAggregate,
+  storeRunArticles,
+  summarizeAnalyses,
+} from "./steps";
+import { log } from "../common/logger";
+
+export const STAGE_NAMES = [
+  "extract-news",
+  "extract-stored-articles",
+  "extract-aggregate",
+  "extract-prices",
+  "analyze",
+  "aggregate",
+  "predict",
+  "load",
+] as const;
+
+export type StageName = (typeof STAGE_NAMES)[number];
+
+export type StageKind = "extract" | "transform" | "load";
+
+/** What a run was started with; stored on the run so it can be resumed. */
+export interface RunInputs {
+  fetchPrices?: boolean; // fetch price data instead of using the latest stored (always for "prices" runs)
+  news?: NewsFetchOptions;
+  storedArticles?: ArticleQuery; // analyze already stored articles instead of fetching news
+}
+
+/** Data handed from stage to stage, one field per producing stage. */
+export interface StageData {
+  news: RunArticles | null; // null: no news provider configured, or no stored article matched
+  analysis: AnalysisOutcome;
+  aggregate: { summary: AggregatedSummary; sourceRunId?: string } | null; // sourceRunId when reused from an earlier run; null: none stored
+  priceData: PriceDataSummary | null; // null: the price fetch failed, the predictor falls back
+  predictions: PredictionSet;
+  stored: AggregatedSummary; // aggregate with its predictions as persisted for the run
+}
+
+export interface StageContext {
+  cfg: AppConfig;
+  store: SqliteStore;
+  runId: string;
+  mode: RunMode;
+  inputs: RunInputs;
+  budget?: BudgetTracker;
+  llm(): LlmProvider; // created on first use
+}
+
+/**
+ * One step of a run. A stage reads the outputs of earlier stages and produces one field of
+ * StageData, checkpointed as JSON when it completes. Stages whose `requires` are null are
+ * skipped; `uses` are read when present. Both decide what re-running a stage invalidates.
+ */
+export interface PipelineStage<K extends keyof StageData = keyof StageData> {
+  name: StageName;
+  kind: StageKind;
+  output: K;
+  requires: Array<keyof StageData>;
+  uses: Array<keyof StageData>;
+  run(ctx: StageContext, data: Partial<StageData>): Promise<StageData[K]>;
+  /** JSON stored for the completed stage; outputs kept in their own tables store a marker. */
+  checkpoint(value: StageData[K]): unknown;
+  restore(ctx: StageContext, checkpoint: unknown): StageData[K];
+  /** Discard what an earlier run of the stage stored outside its checkpoint, before re-running it. */
+  reset?(ctx: StageContext): void;
+}
+
+function defineStage<K extends keyof StageData>(stage: PipelineStage<K>): PipelineStage {
+  return stage as unknown as PipelineStage;
+}
+
+// Fetched articles live in the articles tables; the checkpoint only records whether there were any
+const newsCheckpoint = {
+  output: "news",
+  checkpoint: (news: RunArticles | null) => (news ? { articles: news.articles.length } : null),
+  restore: (ctx: StageContext, checkpoint: unknown) => (checkpoint ? loadRunArticles(ctx.store, ctx.runId) : null),
+} as const;
+
+const STAGES: Record<StageName, PipelineStage> = {
+  "extract-news": defineStage({
+    name: "extract-news",
+    kind: "extract",
+    requires: [],
+    uses: [],
+    ...newsCheckpoint,
+    run: (ctx) => fetchNews(ctx.cfg, ctx.store, ctx.runId, ctx.inputs.news, ctx.budget),
+  }),
+  "extract-stored-articles": defineStage({
+    name: "extract-stored-articles",
+    kind: "extract",
+    requires: [],
+    uses: [],
+    ...newsCheckpoint,
+    async run(ctx) {
+      const articles = ctx.store.loadArticles(ctx.inputs.storedArticles);
+      log(`[news] ${articles.length} stored articles`);
+      if (!articles.length) return null;
+      return { articles, entitiesByUrl: storeRunArticles(ctx.store, ctx.runId, articles) };
+    },
+  }),
+  "extract-aggregate": defineStage({
+    name: "extract-aggregate",
+    kind: "extract",
+    output: "aggregate",
+    requires: [],
+    uses: [],
+    async run(ctx) {
+      log("[mode] Prediction only, loading latest aggregate summary...");
+      const latest = ctx.store.loadLatestAggregate();
+      if (!latest) {
+        console.error("[error] No existing aggregate summary found in the store. Run an analysis first.");
+        return null;
+      }
+      log(
+        `[loaded] Using aggregate summary from run ${latest.runId} with ${latest.summary.totalRelevant} relevant articles`
+      );
+      return { summary: latest.summary, sourceRunId: latest.sourceRunId ?? latest.runId };
+    },
+    checkpoint: (aggregate) => aggregate,
+    restore: (_ctx, checkpoint) => checkpoint as StageData["aggregate"],
+  }),
+  "extract-prices": defineStage({
+    name: "extract-prices",
+    kind: "extract",
+    output: "priceData",
+    requires: [],
+    uses: [],
+    run: (ctx) => loadPriceData(ctx.cfg, ctx.store, ctx.runId, ctx.mode === "prices" || !!ctx.inputs.fetchPrices, ctx.budget),
+    checkpoint: (priceData) => priceData,
+    restore: (_ctx, checkpoint) => checkpoint as PriceDataSummary | null,
+  }),
+  analyze: defineStage({
+    name: "analyze",
+    kind: "transform",
+    output: "analysis",
+    requires: ["news"],
+    uses: [],
+    run: (ctx, data) => analyzeArticles(ctx.cfg, ctx.store, ctx.runId, ctx.llm(), data.news!.articles, data.news!.entitiesByUrl),
+    // Analyses live in their own tables
+    checkpoint: ({ results, ...counts }) => counts,
+    restore: (ctx, checkpoint) => ({
+      ...(checkpoint as Omit<AnalysisOutcome, "results">),
+      results: loadRunResults(ctx.store, ctx.runId),
+    }),
+    reset: (ctx) => ctx.store.clearRunAnalyses(ctx.runId),
+  }),
+  aggregate: defineStage({
+    name: "aggregate",
+    kind: "transform",
+    output: "aggregate",
+    requires: ["analysis"],
+    uses: [],
+    run: async (ctx, data) => ({ summary: await summarizeAnalyses(ctx.llm(), data.analysis!) }),
+    checkpoint: (aggregate) => aggregate,
+    restore: (_ctx, checkpoint) => checkpoint as StageData["aggregate"],
+  }),
+  predict: defineStage({
+    name: "predict",
+    kind: "transform",
+    output: "predictions",
+    requires: ["aggregate"],
+    uses: ["priceData", "analysis"],
+    async run(ctx, data) {
+      const { summary, sourceRunId } = data.aggregate!;
+      // A reused aggregate brings the per-article results of the analysis run behind it, for per-metal news
+      const results = data.analysis?.results ?? (sourceRunId ? loadRunResults(ctx.store, sourceRunId) : []);
+      // News ages from when that analysis ran, so predicting again later repeats the numbers
+      const asOf = new Date(ctx.store.getRun(sourceRunId ?? ctx.runId)?.startedAt ?? Date.now());
+      return predictAggregate(ctx.cfg, summary, data.priceData ?? null, results, asOf, data.analysis);
+    },
+    checkpoint: (predictions) => predictions,
+    restore: (_ctx, checkpoint) => checkpoint as PredictionSet,
+  }),
+  load: defineStage({
+    name: "load",
+    kind: "load",
+    output: "stored",
+    requires: ["aggregate", "predictions"],
+    uses: [],
+    async run(ctx, data) {
+      const { summary, sourceRunId } = data.aggregate!;
+      const predictions = data.predictions!;
+      const stored = { ...summary, pricePrediction: predictions.basket, metalPredictions: predictions.metals };
+      ctx.store.saveAggregate(ctx.runId, stored, sourceRunId);
+      log(`[persist] Aggregate summary stored for run ${ctx.runId}`);
+      return stored;
+    },
+    // The aggregates table holds the output
+    checkpoint: () => null,
+    restore: (ctx) => ctx.store.loadAggregate(ctx.runId)!.summary,
+  }),
+};
+
+/**
+ * Stages a run of `mode` goes through, in order: "prices" and "fetch" extract only;
+ * "analysis" extracts articles (fetched, or already stored), analyzes, aggregates and
+ * predicts; "prediction" predicts again from the latest stored aggregate.
+ */
+export function planStages(mode: RunMode, inputs: RunInputs): PipelineStage[] {
+  const names: Record<RunMode, StageName[]> = {
+    prices: ["extract-prices"],
+    fetch: ["extract-news"],
+    analysis: [
+      inputs.storedArticles ? "extract-stored-articles" : "extract-news",
+      "analyze",
+      "aggregate",
+      "extract-prices",
+      "predict",
+      "load",
+    ],
+    prediction: ["extract-aggregate", "extract-prices", "predict", "load"],
+    // Backfill runs track their progress per window query instead (see pipeline/backfill.ts)
+    backfill: [],
+    "legacy-import": [],
+  };
+  return names[mode].map((name) => STAGES[name]);
+}
+
+/** `name` and every later stage of the plan that reads its output, directly or not. */
+export function dependentStages(plan: PipelineStage[], name: StageName): Set<StageName> {
+  const stale = new Set<StageName>([name]);
+  const staleOutputs = new Set<keyof StageData>();
+  for (const stage of plan.slice(plan.findIndex((s) => s.name === name))) {
+    if (stale.has(stage.name) || [...stage.requires, ...stage.uses].some((k) => staleOutputs.has(k))) {
+      stale.add(stage.name);
+      staleOutputs.add(stage.output);
+    }
+  }
+  return stale;
+}
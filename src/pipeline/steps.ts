@@ -0,0 +1,844 @@
+import { IronNewsAnalyzer } from "../classifiers/IronNewsAnalyzer";
+import { RareEarthMetalAnalyzer } from "../classifiers/RareEarthMetalAnalyzer";
+import { extractEntities, getEntityCatalog, matchWatchlists } from "../common/entityCatalog";
+import { articleRegion } from "../common/languages";
+import { log } from "../common/logger";
+import { NewsQuerySpec, buildQuerySet } from "../common/querySets";
+import { createNewsProvider } from "../fetchers/newsProviderFactory";
+import { FullTextFetcher } from "../fetchers/FullTextFetcher";
+import { MetalPriceFetcher } from "../fetchers/MetalPriceFetcher";
+import { PredictionSet, RareEarthMetalPredictor } from "../predictors/RareEarthMetalPredictor";
+import { PROMPT_VERSION } from "../services/OpenAIService";
+import {
+  LLM_OPERATIONS,
+  LlmProvider,
+  getLlmFallbackCounts,
+  recordLlmFallback,
+} from "../services/LlmProvider";
+import { BudgetTracker } from "../scheduler/BudgetTracker";
+import { SqliteStore } from "../storage/SqliteStore";
+import { articleContentHash } from "../storage/contentHash";
+import { AnalysisSignals, computeAggregateBreakdown, computeAggregateMetrics } from "../statistics/aggregateStatistics";
+import { NewsSignal, newsWeightingFromConfig, sourceCredibility, sourceExclusion } from "../statistics/newsWeighting";
+import { ArticleCluster, clusterArticles } from "../statistics/articleClustering";
+import { assignStoryThreads } from "../statistics/storyThreads";
+import {
+  Article,
+  ArticleAnalysis,
+  AggregatedSummary,
+  ArticleEntity,
+  ArticleText,
+  ArticleTranslation,
+  AggregateBreakdown,
+  Classification,
+  MarketEvent,
+  MarketEventExtraction,
+  PriceDataSummary,
+  PricePrediction,
+  RareEarthPriceImpact,
+  RareEarthRelevance,
+  StoryThreadLink,
+} from "../types";
+import { AppConfig } from "../config";
+
+export interface NewsFetchOptions {
+  queries?: string[]; // provider queries (e.g. from --queries-file), replacing the query set
+  querySet?: string; // query set to build the queries from, QUERY_SET or the configured default when absent
+  from?: string; // YYYY-MM-DD or ISO time, passed to the providers
+  to?: string;
+}
+
+/** Articles of a run with the catalog entities each mentions. */
+export interface RunArticles {
+  articles: Article[];
+  entitiesByUrl: Map<string, ArticleEntity[]>;
+}
+
+/** Relevant analyses of one run and the article counts the aggregate reports. */
+export interface AnalysisOutcome {
+  results: ArticleAnalysis[];
+  totalArticles: number; // articles fetched from admitted sources, syndicated copies included
+  syndicatedCopies?: number; // copies folded into representatives; absent when clustering is off
+  articlesByLanguage?: Record<string, number>; // of totalArticles, per language ('unknown' when not told); absent for earlier analyses
+  articlesByRegion?: Record<string, number>; // of totalArticles, per region (see articleRegion)
+  durationMs: number;
+}
+
+export const PRICE_LOOKBACK_DAYS = 45;
+
+export const NEWS_PAGE_LIMIT = 1; // 1 page = 100 articles per query
+
+/** Provider queries of a news fetch: the given ones (as custom-1, custom-2, …), else those of the query set. */
+export function newsQueries(options: Pick<NewsFetchOptions, "queries" | "querySet"> = {}): NewsQuerySpec[] {
+  if (options.queries) return options.queries.map((query, idx) => ({ id: `custom-${idx + 1}`, query }));
+  return buildQuerySet(options.querySet);
+}
+
+/** Fetch and store price data, or load the latest stored (the bundled seed data when none is); null when the fetch fails. */
+export async function loadPriceData(
+  cfg: AppConfig,
+  store: SqliteStore,
+  runId: string,
+  fetch: boolean,
+  budget?: BudgetTracker
+): Promise<PriceDataSummary | null> {
+  let priceData: PriceDataSummary | null = null;
+  if (!fetch) {
+    log("[price] Loading latest stored price data...");
+    priceData = store.loadLatestPriceData()?.priceData ?? null;
+    if (priceData) {
+      log(`[price] Loaded: basketPrice=$${priceData.basketPrice}/kg, volatility=${priceData.statistics.rollingVolatility14d}% (${priceData.source}, ${priceData.periodEnd})`);
+    } else {
+      console.warn("[price] No stored price data found — using bundled seed data");
+      priceData = new MetalPriceFetcher(cfg.metalsApiKey).loadSeedData();
+    }
+    return priceData;
+  }
+  try {
+    priceData = await new MetalPriceFetcher(cfg.metalsApiKey, undefined, budget).fetchPriceData(PRICE_LOOKBACK_DAYS);
+    log(`[price] basketPrice=$${priceData.basketPrice}/kg, volatility=${priceData.statistics.rollingVolatility14d}% (${priceData.source}, ${priceData.periodEnd})`);
+    store.savePriceData(runId, priceData);
+  } catch (e) {
+    console.warn("[price] Price fetch failed, using fallback:", (e as Error).message);
+  }
+  return priceData;
+}
+
+/**
+ * Fetch articles for every query, deduplicate them by URL, keep those in a configured
+ * language, store them with their entities and flag watchlist mentions, and record what
+ * each query returned. Null when no news provider is configured.
+ */
+export async function fetchNews(
+  cfg: AppConfig,
+  store: SqliteStore,
+  runId: string,
+  options: NewsFetchOptions = {},
+  budget?: BudgetTracker
+): Promise<RunArticles | null> {
+  const newsProvider = createNewsProvider(cfg, budget);
+  if (!newsProvider) {
+    console.warn(
+      "No news provider configured; skipping fetch. Set NEWS_API_KEY, RSS_FEEDS or NEWS_FILE_PATH (and NEWS_PROVIDERS) in .env to enable fetching."
+    );
+    return null;
+  }
+  log(`[news] Using provider: ${newsProvider.name}`);
+
+  const queries = newsQueries(options);
+  const batches: Article[][] = [];
+  for (let queryIndex = 0; queryIndex < queries.length; queryIndex++) {
+    log(`Fetching query ${queryIndex + 1}/${queries.length} (${queries[queryIndex].id})...`);
+    const batch = await newsProvider.fetchArticles({
+      query: queries[queryIndex].query,
+      from: options.from,
+      to: options.to,
+      pageSize: 100,
+      pageLimit: NEWS_PAGE_LIMIT,
+    });
+    batches.push(batch);
+    log(`  → Fetched ${batch.length} articles`);
+  }
+
+  // Deduplicate by URL across all queries
+  const articleMap = new Map<string, Article>();
+  batches.flat().forEach((article) => articleMap.set(article.url, article));
+  const articles = admitLanguages(cfg, [...articleMap.values()]);
+  log(`Total unique articles: ${articles.length}`);
+  const entitiesByUrl = storeRunArticles(store, runId, articles);
+  const admitted = new Set(articles.map((a) => a.url));
+  queries.forEach((query, idx) =>
+    store.saveQueryFetch(runId, query, batches[idx].map((a) => a.url).filter((url) => admitted.has(url)))
+  );
+  return { articles, entitiesByUrl };
+}
+
+/**
+ * Articles in one of NEWS_LANGUAGES, or of a language that could not be told. Logs the
+ * languages of the articles kept and of those left out.
+ */
+export function admitLanguages(cfg: AppConfig, articles: Article[]): Article[] {
+  const admitted = articles.filter((a) => !a.language || cfg.newsLanguages.includes(a.language));
+  const mix = (list: Article[]) => [...countBy(list, (a) => a.language ?? "unknown")].map(([l, n]) => `${l}=${n}`).join(" ");
+  if (articles.length) log(`[languages] ${mix(admitted) || "none"}`);
+  if (admitted.length < articles.length) {
+    const dropped = articles.filter((a) => !admitted.includes(a));
+    log(`[languages] ${dropped.length} articles left out, not in NEWS_LANGUAGES: ${mix(dropped)}`);
+  }
+  return admitted;
+}
+
+/**
+ * Store articles and link them to the run, recognize their entities and flag watchlist
+ * mentions. Returns the entities per article url.
+ */
+export function storeRunArticles(
+  store: SqliteStore,
+  runId: string,
+  articles: Article[]
+): Map<string, ArticleEntity[]> {
+  store.saveArticles(runId, articles);
+  return flagWatchlistArticles(store, runId, articles);
+}
+
+/** Articles stored for a run, with their entities recognized again. */
+export function loadRunArticles(store: SqliteStore, runId: string): RunArticles {
+  const catalog = getEntityCatalog();
+  const articles = store.loadArticles({ runId });
+  return { articles, entitiesByUrl: new Map(articles.map((a) => [a.url, extractEntities(a, catalog)])) };
+}
+
+/**
+ * Analyze articles for the run: fold syndicated copies, reuse cached analyses, send the
+ * rest to the LLM provider in parallel batches (non-English ones in English translation),
+ * and thread the relevant ones into stories.
+ * Articles must already be stored and linked to the run (see storeRunArticles). Articles
+ * analyzed by an earlier, interrupted attempt of the run keep their stored analyses.
+ */
+export async function analyzeArticles(
+  cfg: AppConfig,
+  store: SqliteStore,
+  runId: string,
+  ai: LlmProvider,
+  fetched: Article[],
+  entitiesByUrl: Map<string, ArticleEntity[]>
+): Promise<AnalysisOutcome> {
+  const ironNewsAnalyzer = new IronNewsAnalyzer(ai);
+  const rareEarthMetalAnalyzer = new RareEarthMetalAnalyzer(ai);
+  const fullText = cfg.fullText ? createFullTextFetcher(cfg, store) : null;
+  const weighting = newsWeightingFromConfig(cfg);
+
+  // Blocked sources and those below MIN_SOURCE_CREDIBILITY are left out before anything else
+  const exclusions = new Map<string, number>();
+  const articles = fetched.filter((article) => {
+    const reason = sourceExclusion(article, cfg, weighting);
+    if (!reason) return true;
+    const key = `${article.source} (${reason})`;
+    exclusions.set(key, (exclusions.get(key) ?? 0) + 1);
+    return false;
+  });
+  if (exclusions.size) {
+    log(
+      `[sources] ${fetched.length - articles.length} articles excluded: ` +
+        [...exclusions].map(([source, count]) => `${source} ×${count}`).join(", ")
+    );
+  }
+
+  const articlesByLanguage = Object.fromEntries(countBy(articles, (a) => a.language ?? "unknown"));
+  const articlesByRegion = Object.fromEntries(countBy(articles, (a) => articleRegion(a)));
+
+  // Syndicated copies of one story are analyzed once, through a representative, and count as its coverage
+  const clusters: ArticleCluster[] = cfg.clusterArticles
+    ? clusterArticles(articles, {
+        threshold: cfg.nearDuplicateThreshold,
+        preference: (article) => sourceCredibility(article, weighting),
+      })
+    : articles.map((article) => ({ representative: article, members: [article] }));
+  const representatives = clusters.map((c) => c.representative);
+  const syndicated = clusters.filter((c) => c.members.length > 1);
+  store.saveRunClusters(
+    runId,
+    new Map(syndicated.flatMap((c) => c.members.map((m): [string, string] => [m.url, c.representative.url])))
+  );
+  const coverage = new Map(syndicated.map((c) => [c.representative.url, c.members.length]));
+  const coverageOf = (article: Article) => (coverage.has(article.url) ? { coverage: coverage.get(article.url) } : {});
+  if (cfg.clusterArticles) {
+    const largest = [...syndicated].sort((a, b) => b.members.length - a.members.length)[0];
+    log(
+      `[dedup] ${articles.length} articles → ${representatives.length} stories, ${articles.length - representatives.length} syndicated copies folded` +
+        (largest ? ` (widest: "${largest.representative.title}" ×${largest.members.length})` : "")
+    );
+  }
+
+  const results: ArticleAnalysis[] = [];
+
+  // Resuming: analyses stored by the interrupted attempt are reused as they are
+  const earlierAttempt = new Set(store.loadRunAnalyses(runId).map((a) => a.article.url));
+  const earlierResults = new Map(loadRunResults(store, runId).map((r) => [r.article.url, r]));
+  if (earlierAttempt.size) {
+    log(`[resume] ${earlierAttempt.size} articles already analyzed by this run`);
+  }
+
+  // Reuse cached analyses of unchanged articles; only new or edited ones hit the LLM.
+  // Keyed by prompt version and provider routing, so switching model or backend re-analyzes;
+  // analyses made without event extraction, full text or translation are not reused once it is switched on.
+  const analysisVersion =
+    `${PROMPT_VERSION}/${ai.id}${cfg.extractEvents ? "" : "/no-events"}${cfg.fullText ? "/full-text" : ""}` +
+    (cfg.translate ? "" : "/no-translation");
+  const contentHashes = new Map<string, string>();
+  const pending: Article[] = [];
+  let cacheHits = 0;
+  for (const article of representatives) {
+    if (earlierAttempt.has(article.url)) {
+      const earlier = earlierResults.get(article.url);
+      if (earlier) results.push({ ...earlier, ...coverageOf(article) });
+      continue;
+    }
+    const hash = articleContentHash(article);
+    contentHashes.set(article.url, hash);
+    const cached = cfg.analysisCache ? store.getCachedAnalysis(hash, analysisVersion) : null;
+    if (!cached) {
+      pending.push(article);
+      continue;
+    }
+    cacheHits++;
+    store.saveAnalysis(
+      runId,
+      article,
+      cached.relevance,
+      cached.classification,
+      cached.priceImpact,
+      true
+    );
+    if (cached.events) store.saveEvents(runId, article.url, cached.events);
+    if (cached.classification && cached.priceImpact) {
+      results.push({
+        article,
+        relevance: cached.relevance,
+        classification: cached.classification,
+        priceImpact: cached.priceImpact,
+        ...(cached.events && { events: cached.events }),
+        ...coverageOf(article),
+      });
+    }
+  }
+  log(
+    `[cache] ${cacheHits} cached, ${pending.length} to analyze (prompt version ${PROMPT_VERSION})`
+  );
+
+  const startedAt = Date.now();
+  const BATCH_SIZE = 10; // Process 10 articles in parallel
+
+  log(
+    `Processing ${pending.length} articles in batches of ${BATCH_SIZE}...`
+  );
+
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    const batch = pending.slice(i, i + BATCH_SIZE);
+    log(
+      `[progress] Processing batch ${
+        Math.floor(i / BATCH_SIZE) + 1
+      }/${Math.ceil(pending.length / BATCH_SIZE)} (articles ${
+        i + 1
+      }-${Math.min(i + BATCH_SIZE, pending.length)})`
+    );
+
+    const batchPromises = batch.map(async (article) => {
+      let relevance: RareEarthRelevance = {
+        relevant: false,
+        confidence: 0,
+        matchedTerms: [],
+        rationale: "ai_disabled",
+        automotiveRelevant: false,
+        automotiveContextTerms: [],
+        category: "other",
+        usage: undefined,
+        fallbackReason: "ai_disabled",
+      };
+
+      // Non-English articles are judged on their English translation; the stored article keeps the original
+      const translated = await withTranslation(cfg, ai, store, article);
+
+      if (ai.isEnabled("relevance")) {
+        try {
+          relevance = await ai.assessRareEarthRelevance(inEnglish(translated));
+        } catch (e) {
+          recordLlmFallback("relevance", "request_error", (e as Error).message);
+          return null; // skip on failure
+        }
+      } else {
+        recordLlmFallback("relevance", "ai_disabled");
+      }
+
+      if (!relevance.relevant || !relevance.automotiveRelevant) {
+        store.saveAnalysis(runId, article, relevance);
+        if (isCacheableAnalysis(relevance) && isTranslated(cfg, translated)) {
+          store.putCachedAnalysis(contentHashes.get(article.url)!, analysisVersion, article.url, relevance);
+        }
+        return null;
+      }
+
+      // Relevant articles are analyzed from their full page text when it can be retrieved, translated too
+      const withText = fullText ? await withFullText(fullText, store, translated) : translated;
+      const complete = withText === translated ? translated : await withTranslation(cfg, ai, store, withText);
+      const analyzed = inEnglish(complete);
+
+      // Process classification, price impact and event extraction in parallel
+      const [classification, priceImpact, extraction] = await Promise.all([
+        ironNewsAnalyzer.analyze({
+          headline: analyzed.title,
+          body: analyzed.fullText ?? (analyzed.description || analyzed.content),
+          source: analyzed.source,
+          url: analyzed.url,
+          publishedAt: analyzed.publishedAt,
+        }),
+        rareEarthMetalAnalyzer.priceImpact(analyzed),
+        cfg.extractEvents ? rareEarthMetalAnalyzer.events(analyzed) : undefined,
+      ]);
+
+      store.saveAnalysis(runId, article, relevance, classification, priceImpact);
+      if (extraction) store.saveEvents(runId, article.url, extraction.events);
+      if (isCacheableAnalysis(relevance, classification, priceImpact, extraction) && isTranslated(cfg, complete)) {
+        store.putCachedAnalysis(
+          contentHashes.get(article.url)!,
+          analysisVersion,
+          article.url,
+          relevance,
+          classification,
+          priceImpact,
+          extraction?.events
+        );
+      }
+      return {
+        article,
+        relevance,
+        classification,
+        priceImpact,
+        ...(extraction && { events: extraction.events }),
+        ...coverageOf(article),
+      };
+    });
+
+    const batchResults = await Promise.all(batchPromises);
+    results.push(...batchResults.filter((r): r is ArticleAnalysis => r !== null));
+  }
+
+  // Link analyses to developing stories so the predictor can tell a new shock from continued coverage
+  const threadLinks = threadStories(cfg, store, runId, results, entitiesByUrl);
+  for (const result of results) result.thread = threadLinks.get(result.article.url);
+
+  return {
+    results,
+    totalArticles: articles.length,
+    ...(cfg.clusterArticles && { syndicatedCopies: articles.length - representatives.length }),
+    articlesByLanguage,
+    articlesByRegion,
+    durationMs: Date.now() - startedAt,
+  };
+}
+
+/** Page fetcher for full-text enrichment, with its page cache in the store. */
+export function createFullTextFetcher(cfg: AppConfig, store: SqliteStore): FullTextFetcher {
+  return new FullTextFetcher(store, {
+    userAgent: cfg.fullTextUserAgent,
+    timeoutMs: cfg.fullTextTimeoutMs,
+    domainDelayMs: cfg.fullTextDomainDelayMs,
+    maxChars: cfg.fullTextMaxChars,
+  });
+}
+
+/** The article with the body text of its page, retrieved once and stored with the article. */
+async function withFullText(fetcher: FullTextFetcher, store: SqliteStore, article: Article): Promise<Article> {
+  if (article.fullText) return article;
+  const result = await fetcher.fetchText(article.url);
+  if (!result.text) {
+    log(`[fulltext] ${article.url}: ${result.skipped}; analyzing the provider text`);
+    return article;
+  }
+  store.saveArticleFullText(article.url, result.text);
+  log(
+    `[fulltext] ${article.url}: ${result.text.length} characters${result.fromCache ? " (cached page)" : ""}`
+  );
+  return { ...article, fullText: result.text };
+}
+
+/**
+ * The article with its stored English translation, completed by translating what is not
+ * translated yet and stored again. Text left untranslated when translation fails.
+ */
+async function withTranslation(cfg: AppConfig, ai: LlmProvider, store: SqliteStore, fetched: Article): Promise<Article> {
+  const stored = fetched.translation ?? (cfg.translate ? store.loadArticleTranslation(fetched.url) : undefined);
+  const article = stored ? { ...fetched, translation: stored } : fetched;
+  const text = untranslatedText(cfg, article);
+  if (!Object.keys(text).length) return article;
+  if (!ai.isEnabled("translate")) {
+    recordLlmFallback("translate", "ai_disabled");
+    return article;
+  }
+  let result: ArticleTranslation;
+  try {
+    result = await ai.translateArticle(article, text);
+  } catch (e) {
+    recordLlmFallback("translate", "request_error", (e as Error).message);
+    return article;
+  }
+  if (result.fallbackReason) return article;
+  const translation: ArticleTranslation = { ...article.translation, ...result };
+  store.saveArticleTranslation(article.url, translation);
+  log(`[translate] ${article.url}: ${translation.sourceLanguage} → en (${Object.keys(text).join(", ")})`);
+  return { ...article, translation };
+}
+
+// Text of a non-English article that has no translation yet; empty when translation is off
+function untranslatedText(cfg: AppConfig, article: Article): ArticleText {
+  if (!cfg.translate || !article.language || article.language === "en") return {};
+  const fields = (["title", "description", "content", "fullText"] as const).filter(
+    (field) => article[field] && !article.translation?.[field]
+  );
+  return Object.fromEntries(fields.map((field) => [field, article[field]]));
+}
+
+function isTranslated(cfg: AppConfig, article: Article): boolean {
+  return !Object.keys(untranslatedText(cfg, article)).length;
+}
+
+/** The article with its English translation in place of the original text, where there is one. */
+function inEnglish(article: Article): Article {
+  const translation = article.translation;
+  if (!translation) return article;
+  return {
+    ...article,
+    title: translation.title ?? article.title,
+    description: translation.description ?? article.description,
+    content: translation.content ?? article.content,
+    fullText: translation.fullText ?? article.fullText,
+  };
+}
+
+/**
+ * Aggregate summary of the analyses. Counts and distributions are computed in code;
+ * the provider only adds the narrative. Breakdowns by language and region cover the
+ * analyses that counted the articles per language and region.
+ */
+export async function summarizeAnalyses(ai: LlmProvider, outcome: AnalysisOutcome): Promise<AggregatedSummary> {
+  const signals: AnalysisSignals[] = outcome.results.map((r) => ({
+    relevance: r.relevance,
+    classification: r.classification,
+    priceImpact: r.priceImpact,
+  }));
+  let aggregate: AggregatedSummary;
+  try {
+    aggregate = await ai.summarizeAggregate(signals, outcome.totalArticles);
+  } catch (e) {
+    recordLlmFallback("aggregate", "request_error", (e as Error).message);
+    aggregate = {
+      ...computeAggregateMetrics(signals, outcome.totalArticles),
+      narrative: "aggregate_error",
+      fallbackReason: "request_error",
+    };
+  }
+  if (outcome.syndicatedCopies !== undefined) aggregate.syndicatedCopies = outcome.syndicatedCopies;
+  if (outcome.articlesByLanguage) {
+    aggregate.languages = computeAggregateBreakdown(
+      outcome.results,
+      outcome.articlesByLanguage,
+      (r) => r.article.language ?? "unknown"
+    );
+  }
+  if (outcome.articlesByRegion) {
+    aggregate.regions = computeAggregateBreakdown(outcome.results, outcome.articlesByRegion, (r) => articleRegion(r.article));
+  }
+
+  // Clean narrative (remove accidental newlines / hyphen breaks from model)
+  aggregate.narrative = aggregate.narrative
+    .replace(/\n+/g, " ")
+    .replace(/\s{2,}/g, " ")
+    .replace(/-\s+/g, "-")
+    .trim();
+  return aggregate;
+}
+
+/**
+ * 14-day per-metal and basket predictions for an aggregate from real market price data, with
+ * news weighed by its age at `asOf` (when the analysis behind the aggregate ran).
+ * `outcome` is the analysis the aggregate was just computed from; without it the aggregate
+ * was loaded from the store and `results` are the stored analyses of its run.
+ */
+export function predictAggregate(
+  cfg: AppConfig,
+  aggregate: AggregatedSummary,
+  priceData: PriceDataSummary | null,
+  results: ArticleAnalysis[],
+  asOf: Date,
+  outcome?: AnalysisOutcome
+): PredictionSet {
+  const predictor = new RareEarthMetalPredictor();
+  if (!outcome) return generatePredictionOnly(aggregate, predictor, priceData, asOf, results.length ? results : undefined);
+  const predictions = predictor.predictAll(aggregate, priceData, results, asOf);
+  logAnalysisSummary(cfg, aggregate, outcome, predictions);
+  return predictions;
+}
+
+/** Relevant analyses stored for a run, with their events, coverage and story threads. */
+export function loadRunResults(store: SqliteStore, runId: string): ArticleAnalysis[] {
+  const coverageByUrl = store.loadRunCoverage(runId);
+  const analyses = store.loadRunAnalyses(runId);
+  const threadsByUrl = store.loadArticleThreads(analyses.map((a) => a.article.url));
+  const eventsByUrl = new Map<string, MarketEvent[]>();
+  for (const { article, event } of store.loadRunEvents(runId)) {
+    eventsByUrl.set(article.url, [...(eventsByUrl.get(article.url) ?? []), event]);
+  }
+  return analyses
+    .filter((a) => a.classification && a.priceImpact)
+    .map((a) => ({
+      article: a.article,
+      relevance: a.relevance,
+      classification: a.classification!,
+      priceImpact: a.priceImpact!,
+      events: eventsByUrl.get(a.article.url),
+      coverage: coverageByUrl.get(a.article.url),
+      thread: threadsByUrl.get(a.article.url),
+    }));
+}
+
+function logAnalysisSummary(
+  cfg: AppConfig,
+  aggregate: AggregatedSummary,
+  outcome: AnalysisOutcome,
+  predictions: PredictionSet
+) {
+  const { results, durationMs } = outcome;
+  const pricePrediction = predictions.basket;
+  log("— — —");
+  log("Automotive Rare Earth Aggregate Summary");
+  log(
+    `Fetched: ${aggregate.totalArticles}${aggregate.syndicatedCopies ? ` (${aggregate.syndicatedCopies} syndicated copies folded)` : ""}`
+  );
+  log(`Relevant (automotive): ${aggregate.totalRelevant}`);
+  if (aggregate.languages) log(`By language (relevant/fetched): ${formatBreakdown(aggregate.languages)}`);
+  if (aggregate.regions) log(`By region (relevant/fetched): ${formatBreakdown(aggregate.regions)}`);
+  log(
+    `Categories magnet=${aggregate.magnetCount} battery=${aggregate.batteryCount} mixed=${aggregate.mixedCount} other=${aggregate.otherCount}`
+  );
+  log(
+    `Price impact distribution: up=${aggregate.priceImpactDistribution.up} down=${aggregate.priceImpactDistribution.down} uncertain=${aggregate.priceImpactDistribution.uncertain}`
+  );
+  log(
+    `Sentiment distribution: bullish=${aggregate.sentimentDistribution.bullish} bearish=${aggregate.sentimentDistribution.bearish} neutral=${aggregate.sentimentDistribution.neutral}`
+  );
+  log(
+    `Avg relevance confidence: ${aggregate.avgRelevanceConfidence.toFixed(3)}`
+  );
+  log(
+    `Avg sentiment confidence: ${aggregate.avgSentimentConfidence.toFixed(3)}`
+  );
+  log(
+    `Avg price impact confidence: ${aggregate.avgPriceImpactConfidence.toFixed(
+      3
+    )}`
+  );
+  log(
+    `Dominant drivers: ${aggregate.dominantDrivers.join(", ") || "none"}`
+  );
+  if (cfg.extractEvents) {
+    const eventTypes = new Map<string, number>();
+    results.forEach((r) => r.events?.forEach((e) => eventTypes.set(e.type, (eventTypes.get(e.type) ?? 0) + 1)));
+    log(
+      `Market events: ${[...eventTypes.entries()].map(([type, n]) => `${type}=${n}`).join(" ") || "none"}`
+    );
+  }
+  log("— — —");
+  log("14-Day Price Prediction");
+  log(
+    `Current basket price: $${pricePrediction.currentBasketPrice}/kg`
+  );
+  log(
+    `Predicted change: ${
+      pricePrediction.predictedChangePercent > 0 ? "+" : ""
+    }${pricePrediction.predictedChangePercent}% ($${
+      pricePrediction.predictedChangeUSD > 0 ? "+" : ""
+    }${pricePrediction.predictedChangeUSD}/kg)`
+  );
+  log(`Price target: $${pricePrediction.priceTarget}/kg`);
+  log(
+    `Prediction confidence: ${(pricePrediction.confidence * 100).toFixed(1)}%`
+  );
+  log(
+    `Baseline volatility: ${pricePrediction.baselineVolatility}% | News multiplier: ${pricePrediction.newsImpactMultiplier}x | Source: ${pricePrediction.priceDataSource}`
+  );
+  if (pricePrediction.eventShockPercent !== undefined) {
+    log(
+      `Event shocks: ${pricePrediction.eventShockPercent > 0 ? "+" : ""}${pricePrediction.eventShockPercent}pp from ${pricePrediction.eventShocks?.length ?? 0} events`
+    );
+  }
+  logMetalPredictions(predictions);
+  log("Narrative:", aggregate.narrative);
+  log("Suggestion:", aggregate.suggestion);
+  log(`Duration: ${(durationMs / 1000).toFixed(2)}s`);
+  logLlmFallbacks();
+  log("— — —");
+}
+
+function formatBreakdown(breakdown: AggregateBreakdown[]): string {
+  return breakdown.map((b) => `${b.key} ${b.totalRelevant}/${b.totalArticles}`).join(", ");
+}
+
+function countBy<T>(items: T[], keyOf: (item: T) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) counts.set(keyOf(item), (counts.get(keyOf(item)) ?? 0) + 1);
+  return counts;
+}
+
+/**
+ * Recognize catalog entities in every fetched article and flag the ones mentioning a watched
+ * entity, whether or not they are relevant to the basket. Logs each newly flagged article.
+ */
+function flagWatchlistArticles(
+  store: SqliteStore,
+  runId: string,
+  articles: Article[]
+): Map<string, ArticleEntity[]> {
+  const catalog = getEntityCatalog();
+  const entitiesByUrl = new Map(articles.map((a) => [a.url, extractEntities(a, catalog)]));
+  store.saveArticleEntities(entitiesByUrl);
+  const withEntities = [...entitiesByUrl.values()].filter((entities) => entities.length).length;
+  log(`[entities] ${withEntities}/${articles.length} articles mention catalog entities`);
+
+  const flagged = new Map(catalog.watchlists.map((w) => [w.name, 0]));
+  for (const article of articles) {
+    for (const { watchlist, entityIds } of matchWatchlists(entitiesByUrl.get(article.url)!, catalog)) {
+      if (!store.flagWatchlistArticle(runId, watchlist.id, article.url, entityIds)) continue;
+      flagged.set(watchlist.name, flagged.get(watchlist.name)! + 1);
+      const names = entityIds.map((id) => catalog.byId[id].name).join(", ");
+      log(`[watchlist] ${watchlist.name}: "${article.title}" (${article.source}) mentions ${names}`);
+    }
+  }
+  if (flagged.size) {
+    log(`[watchlist] New articles: ${[...flagged].map(([name, n]) => `${name}=${n}`).join(" ")}`);
+  }
+  return entitiesByUrl;
+}
+
+/**
+ * Thread analyses not linked by an earlier run into the active story threads, persist the
+ * threads they start or extend, and return the thread link of every analysis.
+ */
+function threadStories(
+  cfg: AppConfig,
+  store: SqliteStore,
+  runId: string,
+  results: ArticleAnalysis[],
+  entitiesByUrl: Map<string, ArticleEntity[]>
+): Map<string, StoryThreadLink> {
+  const links = store.loadArticleThreads(results.map((r) => r.article.url));
+  const candidates = results
+    .filter((r) => !links.has(r.article.url))
+    .map((analysis) => ({
+      analysis,
+      entityIds: (entitiesByUrl.get(analysis.article.url) ?? []).map((e) => e.id),
+    }));
+  if (!candidates.length) return links;
+
+  // Threads that went quiet before the window preceding the oldest new article cannot take it
+  const oldest = Math.min(
+    ...candidates.map((c) => Date.parse(c.analysis.article.publishedAt ?? "") || Date.now())
+  );
+  const since = new Date(oldest - cfg.storyThreadWindowDays * 24 * 60 * 60 * 1000).toISOString();
+  const active = store.loadActiveThreads(since);
+  const { links: newLinks, touched } = assignStoryThreads(candidates, active, {
+    similarity: cfg.storyThreadSimilarity,
+    windowDays: cfg.storyThreadWindowDays,
+  });
+  store.saveThreads(touched);
+  store.linkThreadArticles(runId, newLinks);
+
+  const activeIds = new Set(active.map((t) => t.id));
+  const started = touched.filter((t) => !activeIds.has(t.id));
+  log(
+    `[threads] ${candidates.length} articles: ${touched.length - started.length} threads continued, ${started.length} started`
+  );
+  return new Map([...links, ...newLinks]);
+}
+
+/**
+ * Only genuine model output is cached, so fallbacks are retried on the next run.
+ */
+function isCacheableAnalysis(
+  relevance: RareEarthRelevance,
+  classification?: Classification,
+  priceImpact?: RareEarthPriceImpact,
+  extraction?: MarketEventExtraction
+): boolean {
+  return (
+    !relevance.fallbackReason &&
+    !classification?.fallbackReason &&
+    !priceImpact?.fallbackReason &&
+    !extraction?.fallbackReason
+  );
+}
+
+/** One line per operation with how many results were fallbacks, and why. */
+function logLlmFallbacks() {
+  const counts = getLlmFallbackCounts();
+  if (!counts.length) {
+    log("[llm] Fallbacks: none");
+    return;
+  }
+  for (const op of LLM_OPERATIONS) {
+    const reasons = counts.filter((c) => c.operation === op);
+    if (reasons.length) {
+      log(`[llm] Fallbacks ${op}: ${reasons.map((c) => `${c.reason}=${c.count}`).join(", ")}`);
+    }
+  }
+}
+
+/**
+ * Generate prediction only mode - uses existing aggregate summary
+ */
+function generatePredictionOnly(
+  aggregate: AggregatedSummary,
+  predictor: RareEarthMetalPredictor,
+  priceData: PriceDataSummary | null,
+  asOf: Date,
+  items?: NewsSignal[],
+): PredictionSet {
+  log("— — —");
+  log("Automotive Rare Earth Aggregate Summary (from store)");
+  log(`Fetched: ${aggregate.totalArticles}`);
+  log(`Relevant (automotive): ${aggregate.totalRelevant}`);
+  log(
+    `Categories magnet=${aggregate.magnetCount} battery=${aggregate.batteryCount} mixed=${aggregate.mixedCount} other=${aggregate.otherCount}`
+  );
+  log(
+    `Price impact distribution: up=${aggregate.priceImpactDistribution.up} down=${aggregate.priceImpactDistribution.down} uncertain=${aggregate.priceImpactDistribution.uncertain}`
+  );
+  log(
+    `Sentiment distribution: bullish=${aggregate.sentimentDistribution.bullish} bearish=${aggregate.sentimentDistribution.bearish} neutral=${aggregate.sentimentDistribution.neutral}`
+  );
+  log(
+    `Dominant drivers: ${aggregate.dominantDrivers.join(", ") || "none"}`
+  );
+
+  // Generate fresh prediction using real market price data
+  const predictions = predictor.predictAll(aggregate, priceData, items, asOf);
+  const pricePrediction = predictions.basket;
+
+  log("— — —");
+  log("14-Day Price Prediction (Regenerated)");
+  log(
+    `Current basket price: $${pricePrediction.currentBasketPrice}/kg`
+  );
+  log(
+    `Predicted change: ${
+      pricePrediction.predictedChangePercent > 0 ? "+" : ""
+    }${pricePrediction.predictedChangePercent}% ($${
+      pricePrediction.predictedChangeUSD > 0 ? "+" : ""
+    }${pricePrediction.predictedChangeUSD}/kg)`
+  );
+  log(`Price target: $${pricePrediction.priceTarget}/kg`);
+  log(
+    `Prediction confidence: ${(pricePrediction.confidence * 100).toFixed(1)}%`
+  );
+  log(
+    `Baseline volatility: ${pricePrediction.baselineVolatility}% | News multiplier: ${pricePrediction.newsImpactMultiplier}x | Source: ${pricePrediction.priceDataSource}`
+  );
+  logMetalPredictions(predictions);
+  log(`Reasoning: ${pricePrediction.reasoning}`);
+  log("— — —");
+  log(`Suggestion: ${aggregate.suggestion}`);
+  log("— — —");
+  return predictions;
+}
+
+function logMetalPredictions(predictions: PredictionSet) {
+  const metals = Object.values(predictions.metals) as PricePrediction[];
+  if (!metals.length) return;
+  log("Per-metal (14 days):");
+  for (const m of metals) {
+    log(
+      `  ${m.symbol}: $${m.currentBasketPrice}/kg → $${m.priceTarget}/kg (${
+        m.predictedChangePercent > 0 ? "+" : ""
+      }${m.predictedChangePercent}%, confidence ${(m.confidence * 100).toFixed(1)}%, ${m.articleCount} articles, volatility ${m.baselineVolatility}%)`
+    );
+  }
+}
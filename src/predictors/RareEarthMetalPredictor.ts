@@ -1,13 +1,225 @@
-import { AggregatedSummary, PricePrediction, PriceDataSummary } from "../types";
+import {
+  AggregatedSummary,
+  MetalPriceHistory,
+  MetalSymbol,
+  ForecastBand,
+  MarketEvent,
+  NewsContribution,
+  PricePrediction,
+  PriceDataSummary,
+} from "../types";
+import { computeAggregateMetrics } from "../statistics/aggregateStatistics";
+import {
+  NewsSignal,
+  NewsWeightingOptions,
+  computeWeightedNewsScores,
+  newsWeightingFromConfig,
+  storySince,
+} from "../statistics/newsWeighting";
+import {
+  computeBasketSeries,
+  computeDailyReturns,
+  computeRollingVolatility,
+} from "../statistics/priceStatistics";
+import { simulateForecastBands } from "../statistics/monteCarlo";
+import { EventShockResult, computeEventShocks } from "../statistics/eventShocks";
+import { MetalUniverse, getMetalUniverse } from "../common/metalUniverse";
+import { describeMarketEvent, eventConcernsMetal } from "../common/marketEvents";
+
+// Predicted changes smaller than this are described as flat
+const FLAT_CHANGE_PERCENT = 0.25;
+
+/** Basket prediction plus the per-metal predictions it was derived from. */
+export interface PredictionSet {
+  basket: PricePrediction;
+  metals: Partial<Record<MetalSymbol, PricePrediction>>;
+}
+
+/** News scores behind one prediction; `topArticles` only when per-article data was weighted. */
+interface NewsScores {
+  sentimentScore: number;
+  priceImpactScore: number;
+  combinedScore: number;
+  topArticles?: NewsContribution[];
+}
 
 export class RareEarthMetalPredictor {
 
   private readonly FALLBACK_14DAY_VOLATILITY = 3.2;   // %
   private readonly FALLBACK_BASKET_PRICE = 95;        // USD/kg
+  private readonly HORIZON_DAYS = 14;
+  private readonly TOP_ARTICLES = 3;
+  private readonly MAX_EVENT_SHOCK_PERCENT = 6;       // cap on the summed event shocks per prediction
+
+  constructor(
+    private readonly universe: MetalUniverse = getMetalUniverse(),
+    private readonly weighting: NewsWeightingOptions = newsWeightingFromConfig(),
+  ) {}
 
+  /** 14-day basket prediction. See predictAll for the per-metal breakdown. */
   public predict(
     aggregate: AggregatedSummary,
     priceData?: PriceDataSummary | null,
+    items?: NewsSignal[],
+    asOf?: Date,
+  ): PricePrediction {
+    return this.predictAll(aggregate, priceData, items, asOf).basket;
+  }
+
+  /**
+   * Predict each metal from the news of its own usage category (magnet / battery, plus mixed)
+   * and its own volatility, then derive the basket from the per-metal predictions.
+   * With per-article `items` each article is weighted by confidence, source credibility and
+   * recency, and the market events they report add discrete shocks; without them every metal
+   * falls back to the counts of the full aggregate. Recency is measured at `asOf`, the time of
+   * the analysis behind the aggregate, so regenerating a prediction later gives the same numbers.
+   * Without price data only the basket can be predicted, from static fallbacks.
+   */
+  public predictAll(
+    aggregate: AggregatedSummary,
+    priceData?: PriceDataSummary | null,
+    items?: NewsSignal[],
+    asOf: Date = new Date(),
+  ): PredictionSet {
+    const predictions = this.predictPoint(aggregate, priceData, items, asOf);
+    this.attachForecastBands(predictions, priceData);
+    return predictions;
+  }
+
+  /**
+   * Simulated 5/25/50/75/95 percentile price paths around a point prediction.
+   * Empty `dailyReturns` falls back to Gaussian daily moves with the prediction's baseline volatility.
+   */
+  public forecastBands(prediction: PricePrediction, dailyReturns: number[] = []): ForecastBand[] {
+    return simulateForecastBands({
+      startPrice: prediction.currentBasketPrice,
+      dailyReturns,
+      targetChangePercent: prediction.predictedChangePercent,
+      horizonDays: this.HORIZON_DAYS,
+      fallbackDailyStdDev: prediction.baselineVolatility,
+    });
+  }
+
+  private predictPoint(
+    aggregate: AggregatedSummary,
+    priceData: PriceDataSummary | null | undefined,
+    items: NewsSignal[] | undefined,
+    asOf: Date,
+  ): PredictionSet {
+    const basketScores = this.newsScores(aggregate, asOf, items);
+    // Metal-specific events count by the metal's value share of the basket, events naming no metal fully
+    const basketShocks = this.eventShocks(items, asOf, (event) =>
+      event.metal === null ? 1 : this.basketValueShare(event.metal, priceData),
+    );
+    if (!priceData) {
+      return {
+        basket: this.predictBasketFromAggregate(aggregate, basketScores, basketShocks, priceData),
+        metals: {},
+      };
+    }
+
+    const metals: Partial<Record<MetalSymbol, PricePrediction>> = {};
+    for (const symbol of Object.keys(priceData.metals) as MetalSymbol[]) {
+      const history = priceData.metals[symbol];
+      if (!history?.prices.length || !history.latestPrice) continue;
+      const metalItems = items?.filter((i) => this.isRelevantToMetal(i, symbol));
+      const metalAggregate = metalItems
+        ? computeAggregateMetrics(metalItems, aggregate.totalArticles)
+        : aggregate;
+      metals[symbol] = this.predictMetal(
+        history,
+        metalAggregate,
+        this.newsScores(metalAggregate, asOf, metalItems),
+        this.eventShocks(metalItems, asOf, (event) => (eventConcernsMetal(event, symbol) ? 1 : 0)),
+        priceData,
+        Boolean(items),
+      );
+    }
+
+    if (!Object.keys(metals).length) {
+      return {
+        basket: this.predictBasketFromAggregate(aggregate, basketScores, basketShocks, priceData),
+        metals,
+      };
+    }
+    return { basket: this.deriveBasket(aggregate, basketScores, basketShocks, metals, priceData), metals };
+  }
+
+  /** weight × price / basket price, or the plain weight without prices; 0 outside the basket. */
+  private basketValueShare(symbol: string, priceData?: PriceDataSummary | null): number {
+    const weight = this.universe.weights[symbol] ?? 0;
+    const price = priceData?.metals[symbol]?.latestPrice;
+    return price && priceData?.basketPrice ? (weight * price) / priceData.basketPrice : weight;
+  }
+
+  private eventShocks(
+    items: NewsSignal[] | undefined,
+    asOf: Date,
+    exposure: (event: MarketEvent) => number,
+  ): EventShockResult {
+    return computeEventShocks(items ?? [], this.weighting, this.MAX_EVENT_SHOCK_PERCENT, exposure, asOf);
+  }
+
+  /**
+   * Sentiment, price impact and combined score. Per-article items are weighted by confidence,
+   * source credibility and recency at `asOf`; without them every counted article weighs the same.
+   */
+  private newsScores(aggregate: AggregatedSummary, asOf: Date, items?: NewsSignal[]): NewsScores {
+    if (items?.some((i) => i.article)) {
+      const weighted = computeWeightedNewsScores(items, this.weighting, asOf);
+      return {
+        sentimentScore: weighted.sentimentScore,
+        priceImpactScore: weighted.priceImpactScore,
+        combinedScore: weighted.combinedScore,
+        topArticles: weighted.contributions
+          .filter((c) => c.signal.article && Math.abs(c.contribution) > 0)
+          .slice(0, this.TOP_ARTICLES)
+          .map(({ signal, contribution }) => ({
+            title: signal.article!.title,
+            url: signal.article!.url,
+            source: signal.article!.source,
+            publishedAt: signal.article!.publishedAt,
+            contribution: Math.round(contribution * 1000) / 1000,
+            ...(signal.coverage && signal.coverage > 1 && { coverage: signal.coverage }),
+            ...(storySince(signal) && { storySince: storySince(signal) }),
+          })),
+      };
+    }
+    const sentimentScore = this.calculateSentimentScore(aggregate);
+    const priceImpactScore = this.calculatePriceImpactScore(aggregate);
+    return {
+      sentimentScore,
+      priceImpactScore,
+      combinedScore:
+        sentimentScore * this.weighting.sentimentWeight + priceImpactScore * (1 - this.weighting.sentimentWeight),
+    };
+  }
+
+  /** Monte Carlo bands from the empirical daily returns of the basket and of each metal. */
+  private attachForecastBands(predictions: PredictionSet, priceData?: PriceDataSummary | null): void {
+    const metalSeries = Object.fromEntries(
+      Object.entries(priceData?.metals ?? {}).map(([symbol, history]) => [symbol, history.prices]),
+    );
+    const basketReturns = computeDailyReturns(
+      computeBasketSeries(metalSeries, this.universe).map((p) => p.priceUsd),
+    );
+    predictions.basket.forecastBands = this.forecastBands(predictions.basket, basketReturns);
+
+    for (const prediction of Object.values(predictions.metals) as PricePrediction[]) {
+      const prices = priceData?.metals[prediction.symbol!]?.prices ?? [];
+      prediction.forecastBands = this.forecastBands(
+        prediction,
+        computeDailyReturns(prices.map((p) => p.priceUsd)),
+      );
+    }
+  }
+
+  /** Single basket prediction from the whole aggregate (no per-metal price data). */
+  private predictBasketFromAggregate(
+    aggregate: AggregatedSummary,
+    scores: NewsScores,
+    shocks: EventShockResult,
+    priceData?: PriceDataSummary | null,
   ): PricePrediction {
     // Resolve basket price and volatility from live data or static fallback
     const basketPrice        = priceData?.basketPrice                       ?? this.FALLBACK_BASKET_PRICE;
@@ -16,22 +228,16 @@ export class RareEarthMetalPredictor {
       priceData?.source === 'metals-api' ? 'metals-api' :
       priceData?.source === 'seed'       ? 'seed'       : 'static';
 
-    // Calculate news sentiment score (-1 to +1)
-    const sentimentScore = this.calculateSentimentScore(aggregate);
-
-    // Calculate price impact score (-1 to +1)
-    const priceImpactScore = this.calculatePriceImpactScore(aggregate);
-
-    // Combine scores with weights (sentiment 40%, price impact 60%)
-    const combinedScore = sentimentScore * 0.4 + priceImpactScore * 0.6;
+    // Combined news score (-1 to +1): sentiment and price impact, by default 40% / 60%
+    const { combinedScore } = scores;
 
     // Calculate news impact multiplier (0.5 to 2.0)
     // Negative news dampens volatility, positive news amplifies it
     const newsImpactMultiplier = 1.0 + combinedScore * 0.8;
 
-    // Calculate predicted change percentage using real baseline volatility
+    // Calculate predicted change percentage using real baseline volatility, plus market event shocks
     const predictedChangePercent =
-      baselineVolatility * newsImpactMultiplier * Math.sign(combinedScore);
+      baselineVolatility * newsImpactMultiplier * Math.sign(combinedScore) + shocks.shockPercent;
 
     // Calculate USD change based on real basket price
     const predictedChangeUSD = (basketPrice * predictedChangePercent) / 100;
@@ -43,13 +249,7 @@ export class RareEarthMetalPredictor {
     const confidence = this.calculatePredictionConfidence(aggregate);
 
     // Generate reasoning
-    const reasoning = this.generateReasoning(
-      aggregate,
-      sentimentScore,
-      priceImpactScore,
-      combinedScore,
-      priceData,
-    );
+    const reasoning = this.generateReasoning(aggregate, scores, shocks, predictedChangePercent, priceData);
 
     return {
       predictedChangePercent: Math.round(predictedChangePercent * 100) / 100,
@@ -61,9 +261,127 @@ export class RareEarthMetalPredictor {
       currentBasketPrice:     basketPrice,
       reasoning,
       priceDataSource,
+      articleCount:           aggregate.totalRelevant,
+      topArticles:            scores.topArticles,
+      ...this.eventFields(shocks),
+    };
+  }
+
+  /** Prediction for one metal using its own price, volatility and category news. */
+  private predictMetal(
+    history: MetalPriceHistory,
+    aggregate: AggregatedSummary,
+    scores: NewsScores,
+    shocks: EventShockResult,
+    priceData: PriceDataSummary,
+    categoryFiltered: boolean,
+  ): PricePrediction {
+    const ownVolatility = computeRollingVolatility(history.prices.map((p) => p.priceUsd));
+    const baselineVolatility =
+      Math.round((ownVolatility || priceData.statistics.rollingVolatility14d) * 1000) / 1000;
+
+    const { combinedScore } = scores;
+    const newsImpactMultiplier = 1.0 + combinedScore * 0.8;
+    const predictedChangePercent =
+      baselineVolatility * newsImpactMultiplier * Math.sign(combinedScore) + shocks.shockPercent;
+    const predictedChangeUSD = (history.latestPrice * predictedChangePercent) / 100;
+
+    const category = this.universe.bySymbol[history.symbol]?.category;
+    const newsScope = categoryFiltered && category
+      ? `${aggregate.totalRelevant} ${category}/mixed articles`
+      : `all ${aggregate.totalRelevant} relevant articles (no per-article data)`;
+
+    return {
+      symbol:                 history.symbol,
+      predictedChangePercent: Math.round(predictedChangePercent * 100) / 100,
+      predictedChangeUSD:     Math.round(predictedChangeUSD * 100) / 100,
+      confidence:             Math.round(this.calculatePredictionConfidence(aggregate) * 1000) / 1000,
+      baselineVolatility,
+      newsImpactMultiplier:   Math.round(newsImpactMultiplier * 100) / 100,
+      priceTarget:            Math.round((history.latestPrice + predictedChangeUSD) * 100) / 100,
+      currentBasketPrice:     history.latestPrice,
+      reasoning: `${history.name}: ${this.describeOutlook(predictedChangePercent, combinedScore, shocks, 2)}; news from ${newsScope}, own 14-day volatility ${baselineVolatility}%.${this.describeTopArticles(scores, 1)}`,
+      priceDataSource:        priceData.source,
+      articleCount:           aggregate.totalRelevant,
+      topArticles:            scores.topArticles,
+      ...this.eventFields(shocks),
     };
   }
 
+  /**
+   * Combine per-metal predictions into the basket prediction, weighting each metal
+   * by its value share in the basket (weight × price).
+   */
+  private deriveBasket(
+    aggregate: AggregatedSummary,
+    scores: NewsScores,
+    shocks: EventShockResult,
+    metals: Partial<Record<MetalSymbol, PricePrediction>>,
+    priceData: PriceDataSummary,
+  ): PricePrediction {
+    let basketValue = 0;
+    let changeUSD = 0;
+    let shockUSD = 0;
+    let weightedConfidence = 0;
+    let weightedMultiplier = 0;
+    for (const [symbol, prediction] of Object.entries(metals) as Array<[MetalSymbol, PricePrediction]>) {
+      const weight = priceData.metals[symbol].weightInBasket;
+      const value = weight * prediction.currentBasketPrice;
+      basketValue += value;
+      changeUSD += weight * prediction.predictedChangeUSD;
+      shockUSD += (weight * prediction.currentBasketPrice * (prediction.eventShockPercent ?? 0)) / 100;
+      weightedConfidence += value * prediction.confidence;
+      weightedMultiplier += value * prediction.newsImpactMultiplier;
+    }
+
+    const basketPrice = priceData.basketPrice || Math.round(basketValue * 100) / 100;
+    const predictedChangePercent = basketValue ? (changeUSD / basketValue) * 100 : 0;
+    const predictedChangeUSD = (basketPrice * predictedChangePercent) / 100;
+
+    // Total shock as it entered the per-metal predictions, value-weighted like the change itself;
+    // events no metal picked up (e.g. from news outside its category) are not cited
+    const applied = new Set(
+      (Object.values(metals) as PricePrediction[]).flatMap((m) => m.eventShocks ?? []).map((s) => s.event),
+    );
+    const derivedShocks: EventShockResult = {
+      shockPercent: basketValue ? Math.round((shockUSD / basketValue) * 100 * 1000) / 1000 : 0,
+      shocks: shocks.shocks.filter((s) => applied.has(s.event)),
+    };
+
+    const perMetal = (Object.values(metals) as PricePrediction[])
+      .map((m) => `${m.symbol} ${m.predictedChangePercent > 0 ? "+" : ""}${m.predictedChangePercent}%`)
+      .join(", ");
+
+    return {
+      predictedChangePercent: Math.round(predictedChangePercent * 100) / 100,
+      predictedChangeUSD:     Math.round(predictedChangeUSD * 100) / 100,
+      confidence:             basketValue ? Math.round((weightedConfidence / basketValue) * 1000) / 1000 : 0,
+      baselineVolatility:     priceData.statistics.rollingVolatility14d,
+      newsImpactMultiplier:   basketValue ? Math.round((weightedMultiplier / basketValue) * 100) / 100 : 1,
+      priceTarget:            Math.round((basketPrice + predictedChangeUSD) * 100) / 100,
+      currentBasketPrice:     basketPrice,
+      reasoning: `${this.generateReasoning(aggregate, scores, derivedShocks, predictedChangePercent, priceData)} Basket derived from per-metal predictions: ${perMetal}.`,
+      priceDataSource:        priceData.source,
+      articleCount:           aggregate.totalRelevant,
+      topArticles:            scores.topArticles,
+      ...this.eventFields(derivedShocks),
+    };
+  }
+
+  /** Magnet metals take magnet + mixed news, battery metals battery + mixed news. */
+  private isRelevantToMetal(item: NewsSignal, symbol: MetalSymbol): boolean {
+    const category = this.universe.bySymbol[symbol]?.category;
+    return item.relevance.category === category || item.relevance.category === "mixed";
+  }
+
+  private describeScore(combinedScore: number): string {
+    const direction =
+      combinedScore > 0.1 ? "upward" : combinedScore < -0.1 ? "downward" : "stable";
+    const strength =
+      Math.abs(combinedScore) > 0.5 ? "strong" : Math.abs(combinedScore) > 0.2 ? "moderate" : "weak";
+    return `${strength} ${direction}`;
+  }
+
   /**
    * Calculate sentiment score from -1 (very bearish) to +1 (very bullish)
    */
@@ -108,34 +426,25 @@ export class RareEarthMetalPredictor {
     const articleFactor = Math.min(1, aggregate.totalRelevant / 30);
 
     // Penalize if too many "uncertain" signals
-    const uncertainPenalty =
-      1 - aggregate.priceImpactDistribution.uncertain / aggregate.totalRelevant;
+    const uncertainPenalty = aggregate.totalRelevant
+      ? 1 - aggregate.priceImpactDistribution.uncertain / aggregate.totalRelevant
+      : 0;
 
     return avgConfidence * 0.5 + articleFactor * 0.3 + uncertainPenalty * 0.2;
   }
 
   /**
-   * Generate human-readable reasoning for the prediction
+   * Generate human-readable reasoning for the prediction: the direction of the final predicted
+   * change (news pressure plus event shocks), then the news and price data behind it
    */
   private generateReasoning(
     aggregate: AggregatedSummary,
-    sentimentScore: number,
-    priceImpactScore: number,
-    combinedScore: number,
+    { sentimentScore, priceImpactScore, combinedScore, ...scores }: NewsScores,
+    shocks: EventShockResult,
+    predictedChangePercent: number,
     priceData?: PriceDataSummary | null,
   ): string {
-    const direction =
-      combinedScore > 0.1
-        ? "upward"
-        : combinedScore < -0.1
-        ? "downward"
-        : "stable";
-    const strength =
-      Math.abs(combinedScore) > 0.5
-        ? "strong"
-        : Math.abs(combinedScore) > 0.2
-        ? "moderate"
-        : "weak";
+    const outlook = this.describeOutlook(predictedChangePercent, combinedScore, shocks);
 
     const sentimentDesc =
       sentimentScore > 0.1
@@ -159,13 +468,67 @@ export class RareEarthMetalPredictor {
         : 'Static baseline (no price data available)';
 
     return `${
-      strength.charAt(0).toUpperCase() + strength.slice(1)
-    } ${direction} pressure driven by ${sentimentDesc} and ${impactDesc}. Based on ${
+      outlook.charAt(0).toUpperCase() + outlook.slice(1)
+    }; news driven by ${sentimentDesc} and ${impactDesc}. Based on ${
       aggregate.totalRelevant
     } automotive-relevant articles (${aggregate.magnetCount} magnet, ${
       aggregate.batteryCount
     } battery). Key drivers: ${aggregate.dominantDrivers
       .slice(0, 3)
-      .join(", ")}. Price source: ${priceNote}.`;
+      .join(", ")}. Price source: ${priceNote}.${this.describeTopArticles(scores)}`;
+  }
+
+  /** eventShockPercent / eventShocks, omitted when no event moved the prediction. */
+  private eventFields(shocks: EventShockResult): Pick<PricePrediction, "eventShockPercent" | "eventShocks"> {
+    if (!shocks.shocks.length) return {};
+    return { eventShockPercent: shocks.shockPercent, eventShocks: shocks.shocks.slice(0, 5) };
   }
+
+  /**
+   * Direction of the final predicted change and what made it up, e.g. "upward outlook (+1.58%):
+   * market event shocks (+1.98pp: mine closure (Lynas, Malaysia, ND) +1.2pp; ...) outweigh weak
+   * downward news pressure (-0.4%)". Event shocks are named whenever they moved the prediction.
+   */
+  private describeOutlook(
+    predictedChangePercent: number,
+    combinedScore: number,
+    shocks: EventShockResult,
+    limit = 3,
+  ): string {
+    const direction =
+      predictedChangePercent >= FLAT_CHANGE_PERCENT ? "upward" : predictedChangePercent <= -FLAT_CHANGE_PERCENT ? "downward" : "flat";
+    const outlook = `${direction} outlook (${signed(predictedChangePercent)}%)`;
+    const pressure = `${this.describeScore(combinedScore)} news pressure`;
+    if (!shocks.shocks.length || !shocks.shockPercent) return `${outlook} from ${pressure}`;
+
+    const newsPercent = predictedChangePercent - shocks.shockPercent;
+    const cited = shocks.shocks.slice(0, limit).map(
+      (s) => `${describeMarketEvent(s.event)} ${signed(s.shockPercent)}pp` + (s.storySince ? ` (continued, since ${s.storySince})` : ""),
+    );
+    const events = `market event shocks (${signed(shocks.shockPercent)}pp: ${cited.join("; ")})`;
+    const news = `${pressure} (${signed(newsPercent)}%)`;
+    if (Math.abs(newsPercent) < FLAT_CHANGE_PERCENT / 10) return `${outlook} from ${events}; ${news}`;
+    if (Math.sign(newsPercent) === Math.sign(shocks.shockPercent)) return `${outlook} from ${news}, reinforced by ${events}`;
+    return Math.abs(shocks.shockPercent) > Math.abs(newsPercent)
+      ? `${outlook}: ${events} outweigh ${news}`
+      : `${outlook} from ${news}, partly offset by ${events}`;
+  }
+
+  /** " Top articles: "Title" (Source, 2026-10-18, +0.21); ..." or "" without weighted scoring. */
+  private describeTopArticles(scores: Pick<NewsScores, "topArticles">, limit = this.TOP_ARTICLES): string {
+    const top = scores.topArticles?.slice(0, limit) ?? [];
+    if (!top.length) return "";
+    const cited = top.map((a) => {
+      const date = a.publishedAt ? `, ${a.publishedAt.split("T")[0]}` : "";
+      const outlets = a.coverage ? `, ${a.coverage} outlets` : "";
+      const story = a.storySince ? `, story since ${a.storySince}` : "";
+      return `"${a.title}" (${a.source}${date}${outlets}${story}, ${a.contribution > 0 ? "+" : ""}${a.contribution})`;
+    });
+    return ` Top ${cited.length === 1 ? "article" : "articles"}: ${cited.join("; ")}.`;
+  }
+}
+
+function signed(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return `${rounded > 0 ? "+" : ""}${rounded}`;
 }
@@ -0,0 +1,80 @@
+import { AppConfig } from "../config";
+import { SqliteStore } from "../storage/SqliteStore";
+
+/** External APIs with a request quota. */
+export type BudgetedApi = "newsapi" | "metals-api";
+
+export interface ApiBudget {
+  api: BudgetedApi;
+  limit: number; // requests per period
+  period: "day" | "month"; // calendar period in UTC the limit resets with
+}
+
+export interface BudgetStatus extends ApiBudget {
+  periodKey: string; // YYYY-MM-DD or YYYY-MM
+  used: number;
+  remaining: number;
+}
+
+/**
+ * Request quotas of external APIs, counted in the store so every process sharing the
+ * database (manual runs, the daemon, the dashboard server) draws from the same budget
+ * and restarts do not reset it. Fetchers consume a request before sending it.
+ */
+export class BudgetTracker {
+  constructor(
+    private readonly store: SqliteStore,
+    private readonly budgets: ApiBudget[]
+  ) {}
+
+  /** NEWSAPI_DAILY_LIMIT and METALS_API_MONTHLY_LIMIT from the config. */
+  public static fromConfig(cfg: AppConfig, store: SqliteStore): BudgetTracker {
+    return new BudgetTracker(store, [
+      { api: "newsapi", limit: cfg.newsApiDailyLimit, period: "day" },
+      { api: "metals-api", limit: cfg.metalsApiMonthlyLimit, period: "month" },
+    ]);
+  }
+
+  public remaining(api: BudgetedApi, now = new Date()): number {
+    const budget = this.budgetOf(api);
+    if (!budget) return Infinity;
+    return Math.max(0, budget.limit - this.store.getApiUsage(api, periodKey(budget, now)));
+  }
+
+  /** Record `count` requests if the budget allows all of them; false leaves the usage unchanged. */
+  public tryConsume(api: BudgetedApi, count = 1, now = new Date()): boolean {
+    const budget = this.budgetOf(api);
+    if (!budget) return true;
+    if (this.remaining(api, now) < count) return false;
+    this.store.addApiUsage(api, periodKey(budget, now), count);
+    return true;
+  }
+
+  /** Why the planned requests do not fit the remaining budgets, or null when they do. */
+  public shortfall(needs: Partial<Record<BudgetedApi, number>>, now = new Date()): string | null {
+    const problems = (Object.entries(needs) as Array<[BudgetedApi, number]>)
+      .filter(([api, count]) => count > 0 && this.remaining(api, now) < count)
+      .map(([api, count]) => {
+        const budget = this.budgetOf(api)!;
+        return `${api} needs ${count} requests, ${this.remaining(api, now)} of ${budget.limit} left this ${budget.period}`;
+      });
+    return problems.length ? problems.join("; ") : null;
+  }
+
+  public status(now = new Date()): BudgetStatus[] {
+    return this.budgets.map((budget) => {
+      const key = periodKey(budget, now);
+      const used = this.store.getApiUsage(budget.api, key);
+      return { ...budget, periodKey: key, used, remaining: Math.max(0, budget.limit - used) };
+    });
+  }
+
+  private budgetOf(api: BudgetedApi): ApiBudget | undefined {
+    return this.budgets.find((b) => b.api === api);
+  }
+}
+
+function periodKey(budget: ApiBudget, now: Date): string {
+  const day = now.toISOString().split("T")[0];
+  return budget.period === "day" ? day : day.slice(0, 7);
+}
@@ -0,0 +1,203 @@
+import { AppConfig, ScheduledJob } from "../config";
+import { continueBackfill, describeBackfill } from "../pipeline/backfill";
+import { PipelineMode, PipelineOptions, estimateApiRequests, runPipeline } from "../pipeline/runner";
+import { RunRecord, SqliteStore } from "../storage/SqliteStore";
+import { BudgetStatus, BudgetTracker } from "./BudgetTracker";
+import { CronSchedule, nextCronTime, parseCron } from "./cron";
+import { log } from "../common/logger";
+
+export interface ScheduledJobStatus {
+  job: ScheduledJob;
+  schedule: string;
+  nextRunAt: string;
+  queued: boolean;
+  running: boolean;
+  lastRun?: RunRecord; // latest run this scheduler started for the job
+}
+
+export interface SchedulerStatus {
+  startedAt?: string; // absent while stopped
+  jobs: ScheduledJobStatus[];
+  budgets: BudgetStatus[];
+}
+
+interface JobState {
+  job: ScheduledJob;
+  schedule: CronSchedule;
+  nextRunAt: Date;
+  lastRunId?: string;
+}
+
+export const SCHEDULED_JOBS: ScheduledJob[] = ["news", "prices", "prediction", "backfill"];
+
+// Longer sleeps are split up: timers overflow past ~24.8 days and the clock may be adjusted
+const MAX_SLEEP_MS = 60 * 60 * 1000;
+
+/**
+ * Runs the pipeline jobs on their own cron schedules inside a long-running process
+ * (the daemon or the dashboard server):
+ * - news: fetch and analyze news, predict from the latest stored prices
+ * - prices: fetch price data only
+ * - prediction: regenerate predictions from the latest aggregate and stored prices
+ * - backfill: continue the oldest unfinished news backfill with the day's spare NewsAPI requests
+ * Jobs run one at a time; a job falling due while another runs is queued, and a job
+ * already queued or running is not queued twice. A job whose API requests do not fit
+ * the remaining quota is recorded as a skipped run instead of starting.
+ */
+export class PipelineScheduler {
+  private readonly jobs: JobState[] = [];
+  private readonly queue: JobState[] = [];
+  private running: JobState | null = null;
+  private draining: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private startedAt: Date | null = null;
+
+  constructor(
+    private readonly cfg: AppConfig,
+    private readonly store: SqliteStore,
+    private readonly budget: BudgetTracker = BudgetTracker.fromConfig(cfg, store)
+  ) {}
+
+  /** Validate every schedule (throwing with all problems at once) and start the timer. */
+  public start(now = new Date()): void {
+    if (this.startedAt) return;
+    this.jobs.length = 0;
+    const errors: string[] = [];
+    for (const job of SCHEDULED_JOBS) {
+      const expression = this.cfg.schedules[job];
+      if (!expression) continue;
+      try {
+        const schedule = parseCron(expression);
+        this.jobs.push({ job, schedule, nextRunAt: nextCronTime(schedule, now) });
+      } catch (e) {
+        errors.push(`${job}: ${(e as Error).message}`);
+      }
+    }
+    if (errors.length) {
+      this.jobs.length = 0;
+      throw new Error(`Invalid schedule:\n  - ${errors.join("\n  - ")}`);
+    }
+    this.startedAt = now;
+    for (const state of this.jobs) {
+      log(`[scheduler] ${state.job} "${state.schedule.expression}", next at ${state.nextRunAt.toISOString()}`);
+    }
+    if (!this.jobs.length) console.warn("[scheduler] All jobs are off; nothing to schedule.");
+    this.arm();
+  }
+
+  /** Stop scheduling; resolves once the job in progress, if any, has finished. */
+  public async stop(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.startedAt = null;
+    this.queue.length = 0;
+    await this.draining;
+  }
+
+  public status(now = new Date()): SchedulerStatus {
+    return {
+      startedAt: this.startedAt?.toISOString(),
+      jobs: this.jobs.map((state) => ({
+        job: state.job,
+        schedule: state.schedule.expression,
+        nextRunAt: state.nextRunAt.toISOString(),
+        queued: this.queue.includes(state),
+        running: this.running === state,
+        lastRun: state.lastRunId ? this.store.getRun(state.lastRunId) ?? undefined : undefined,
+      })),
+      budgets: this.budget.status(now),
+    };
+  }
+
+  private arm(): void {
+    if (!this.startedAt || !this.jobs.length) return;
+    const next = Math.min(...this.jobs.map((s) => s.nextRunAt.getTime()));
+    const delay = Math.min(Math.max(next - Date.now(), 0), MAX_SLEEP_MS);
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private tick(now = new Date()): void {
+    for (const state of this.jobs) {
+      if (state.nextRunAt > now) continue;
+      state.nextRunAt = nextCronTime(state.schedule, now);
+      if (this.running === state || this.queue.includes(state)) {
+        console.warn(`[scheduler] ${state.job} is still pending from its previous slot; not queued again`);
+        continue;
+      }
+      this.queue.push(state);
+    }
+    if (this.queue.length && !this.draining) {
+      this.draining = this.drain().finally(() => (this.draining = null));
+    }
+    this.arm();
+  }
+
+  private async drain(): Promise<void> {
+    for (let state = this.queue.shift(); state; state = this.queue.shift()) {
+      this.running = state;
+      try {
+        await this.runJob(state);
+      } finally {
+        this.running = null;
+      }
+    }
+  }
+
+  private async runJob(state: JobState): Promise<void> {
+    if (state.job === "backfill") return this.runBackfill(state);
+    const { mode, options } = jobRun(state.job, this.budget);
+    const shortfall = this.budget.shortfall(estimateApiRequests(this.cfg, mode, options));
+    if (shortfall) {
+      state.lastRunId = this.store.startRun(mode);
+      this.store.finishRun(state.lastRunId, "skipped", `Request budget: ${shortfall}`);
+      console.warn(`[scheduler] ${state.job} skipped: ${shortfall}`);
+      return;
+    }
+
+    const startedAt = Date.now();
+    state.lastRunId = this.store.startRun(mode);
+    log(`[scheduler] ${state.job} starting`);
+    try {
+      await runPipeline(this.cfg, this.store, mode, options, state.lastRunId);
+      log(`[scheduler] ${state.job} completed in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+    } catch (e) {
+      // runPipeline recorded the failure on the run; keep the schedule going
+      console.error(`[scheduler] ${state.job} failed: ${(e as Error).message}`);
+    }
+  }
+
+  /** Continue the oldest unfinished backfill, leaving BACKFILL_DAILY_RESERVE requests for the other jobs. */
+  private async runBackfill(state: JobState): Promise<void> {
+    const backfill = this.store.listBackfills("active")[0];
+    if (!backfill) {
+      log("[scheduler] backfill: no unfinished backfill");
+      return;
+    }
+    try {
+      const progress = await continueBackfill(this.cfg, this.store, backfill.id, {
+        budget: this.budget,
+        reserve: this.cfg.backfillDailyReserve,
+      });
+      if (!progress.runId && progress.stoppedBy) {
+        state.lastRunId = this.store.startRun("backfill");
+        this.store.finishRun(state.lastRunId, "skipped", `Request budget: ${progress.stoppedBy}`);
+        console.warn(`[scheduler] backfill skipped: ${progress.stoppedBy}`);
+        return;
+      }
+      state.lastRunId = progress.runId ?? state.lastRunId;
+      log(`[scheduler] backfill ${describeBackfill(progress)}${progress.stoppedBy ? `; paused: ${progress.stoppedBy}` : ""}`);
+    } catch (e) {
+      // continueBackfill recorded the failure on the run and the window query
+      console.error(`[scheduler] backfill failed: ${(e as Error).message}`);
+    }
+  }
+}
+
+/** Pipeline mode of a job; news and prediction runs use the latest stored prices. */
+function jobRun(
+  job: Exclude<ScheduledJob, "backfill">,
+  budget: BudgetTracker
+): { mode: PipelineMode; options: PipelineOptions } {
+  const mode: Record<typeof job, PipelineMode> = { news: "analysis", prices: "prices", prediction: "prediction" };
+  return { mode: mode[job], options: { fetchPrices: false, budget } };
+}
@@ -0,0 +1,110 @@
+/** A parsed five-field cron expression (minute hour day-of-month month day-of-week). */
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1..12
+  daysOfWeek: Set<number>; // 0..6, Sunday = 0
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+// Leap days can be up to eight years apart (2096 → 2104)
+const SEARCH_YEARS = 8;
+
+/**
+ * Parse a cron expression: five fields of `*`, numbers, ranges `a-b`, a `/n` step on either
+ * and comma lists, or one of @hourly, @daily, @weekly, @monthly. Day of week 7 is Sunday.
+ * Throws on anything else.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const expanded = MACROS[expression.trim().toLowerCase()] ?? expression;
+  const fields = expanded.trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`Cron expression '${expression}' must have 5 fields (minute hour day month weekday)`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELDS[i], expression)
+  );
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: new Set([...daysOfWeek].map((day) => day % 7)),
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+/**
+ * First minute strictly after `after` matching the schedule, in local time. As in cron,
+ * when both day fields are restricted a day matches if either does.
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+  const t = new Date(after);
+  t.setSeconds(0, 0);
+  t.setMinutes(t.getMinutes() + 1);
+  const limit = new Date(t);
+  limit.setFullYear(limit.getFullYear() + SEARCH_YEARS);
+
+  while (t < limit) {
+    if (!schedule.months.has(t.getMonth() + 1)) {
+      t.setMonth(t.getMonth() + 1, 1);
+      t.setHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, t)) {
+      t.setDate(t.getDate() + 1);
+      t.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(t.getHours())) {
+      t.setHours(t.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(t.getMinutes())) {
+      t.setMinutes(t.getMinutes() + 1, 0, 0);
+    } else {
+      return t;
+    }
+  }
+  throw new Error(`Cron expression '${schedule.expression}' never fires`);
+}
+
+function dayMatches(schedule: CronSchedule, t: Date): boolean {
+  const byMonth = schedule.daysOfMonth.has(t.getDate());
+  const byWeek = schedule.daysOfWeek.has(t.getDay());
+  if (schedule.anyDayOfMonth) return byWeek;
+  if (schedule.anyDayOfWeek) return byMonth;
+  return byMonth || byWeek;
+}
+
+function parseField(field: string, spec: (typeof FIELDS)[number], expression: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) throw new Error(`Cron expression '${expression}': invalid ${spec.name} '${part}'`);
+    const [, range, start, end, step] = match;
+    const from = range === "*" ? spec.min : Number(start);
+    // A bare number with a step ("5/15") runs to the end of the range, as in Vixie cron
+    const to = range === "*" || (step && end === undefined) ? spec.max : Number(end ?? start);
+    const by = step ? Number(step) : 1;
+    if (from < spec.min || to > spec.max || from > to || by < 1) {
+      throw new Error(`Cron expression '${expression}': ${spec.name} '${part}' is outside ${spec.min}-${spec.max}`);
+    }
+    for (let value = from; value <= to; value += by) values.add(value);
+  }
+  return values;
+}
@@ -1,41 +1,48 @@
 import express from "express";
 import cors from "cors";
 import path from "path";
-import { readFileSync, readdirSync, statSync, existsSync } from "fs";
-import { AggregatedSummary, PricePrediction } from "./types";
+import {
+  AggregatedSummary,
+  EntityType,
+  ForecastBand,
+  MarketEventType,
+  MetalSymbol,
+  PriceDataSummary,
+  PricePrediction,
+} from "./types";
 import { RareEarthMetalPredictor } from "./predictors/RareEarthMetalPredictor";
+import { getConfig } from "./config";
+import { openStore } from "./storage/SqliteStore";
+import { getMetalUniverse } from "./common/metalUniverse";
+import { MARKET_EVENT_TYPE_NAMES, resolveEventMetal } from "./common/marketEvents";
+import { ENTITY_TYPES, getEntityCatalog } from "./common/entityCatalog";
+import { MetalPriceFetcher } from "./fetchers/MetalPriceFetcher";
+import { computeBasketSeries, mergeMetalSeries } from "./statistics/priceStatistics";
+import { computeDriverTrend } from "./statistics/aggregateStatistics";
+import { newsWeightingFromConfig, sourceExclusion } from "./statistics/newsWeighting";
+import { computeSourceStats } from "./statistics/sourceAnalytics";
+import { computeQueryStats } from "./statistics/queryStats";
+import { newsQueries } from "./pipeline/steps";
+import { FLAT_THRESHOLD_PERCENT, loadBacktestPrices, realizedBasketChange } from "./backtest/PredictorBacktester";
+import { BudgetTracker } from "./scheduler/BudgetTracker";
+import { PipelineScheduler } from "./scheduler/PipelineScheduler";
 
 const app = express();
 const PORT = process.env.PORT || 3000;
+const store = openStore(getConfig().dbPath);
+// Keeps the stored data fresh without a separate cron job when SERVER_SCHEDULER=true
+const scheduler = getConfig().serverScheduler ? new PipelineScheduler(getConfig(), store) : null;
+const HISTORY_DAYS = 14;
+const DRIVER_TREND_DAYS = 84;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
 
 app.use(cors());
 app.use(express.json());
 app.use(express.static(path.join(__dirname, "../public")));
 
-
 function loadLatestAggregateSummary(): AggregatedSummary | null {
   try {
-    const outDir = path.resolve(process.cwd(), "output");
-    if (!existsSync(outDir) || !statSync(outDir).isDirectory()) {
-      return null;
-    }
-
-    const files = readdirSync(outDir)
-      .filter((filename) => filename.startsWith("aggregate-summary-") && filename.endsWith(".json"))
-      .map((filename) => ({
-        name: filename,
-        path: path.join(outDir, filename),
-        mtime: statSync(path.join(outDir, filename)).mtime,
-      }))
-      .sort((fileA, fileB) => fileB.mtime.getTime() - fileA.mtime.getTime());
-
-    if (files.length === 0) {
-      return null;
-    }
-
-    const latestFile = files[0];
-    const content = readFileSync(latestFile.path, "utf-8");
-    return JSON.parse(content) as AggregatedSummary;
+    return store.loadLatestAggregate()?.summary ?? null;
   } catch (error) {
     console.error("Failed to load aggregate summary:", (error as Error).message);
     return null;
@@ -43,66 +50,68 @@ function loadLatestAggregateSummary(): AggregatedSummary | null {
 }
 
 /**
- * Generate historical price data (simulated for last 14 days)
- * In production, this should come from a real price API
+ * Price data backing the dashboard: the latest persisted PriceDataSummary,
+ * or the bundled seed dataset when no run has stored prices yet.
  */
-function generateHistoricalPrices(
-  currentPrice: number,
-  volatility: number
-): Array<{ date: string; price: number }> {
-  const prices: Array<{ date: string; price: number }> = [];
-  const today = new Date();
-
-  // Generate 14 days of historical data with random walk
-  let price = currentPrice;
-  for (let daysAgo = 14; daysAgo >= 1; daysAgo--) {
-    const date = new Date(today);
-    date.setDate(date.getDate() - daysAgo);
-    // Random walk with mean reversion
-    const change = (Math.random() - 0.5) * (volatility / 100) * 2;
-    price = price * (1 + change);
-    prices.push({
-      date: date.toISOString().split("T")[0],
-      price: Math.round(price * 100) / 100,
-    });
+function loadPriceData(): PriceDataSummary {
+  try {
+    const stored = store.loadLatestPriceData();
+    if (stored) return stored.priceData;
+  } catch (error) {
+    console.error("Failed to load price data:", (error as Error).message);
   }
+  return new MetalPriceFetcher().loadSeedData();
+}
 
-  // Add today's price
-  prices.push({
-    date: today.toISOString().split("T")[0],
-    price: currentPrice,
-  });
+/** Basket series of the last HISTORY_DAYS + 1 trading days (the final point is the current price). */
+function generateHistoricalPrices(priceData: PriceDataSummary): Array<{ date: string; price: number }> {
+  return computeBasketSeries(seriesOf(priceData))
+    .slice(-(HISTORY_DAYS + 1))
+    .map(({ date, priceUsd }) => ({ date, price: round2(priceUsd) }));
+}
 
-  return prices;
+function seriesOf(priceData: PriceDataSummary): Record<MetalSymbol, Array<{ date: string; priceUsd: number }>> {
+  return Object.fromEntries(Object.entries(priceData.metals).map(([symbol, m]) => [symbol, m.prices]));
+}
+
+/** Error message for a malformed or inverted YYYY-MM-DD range, else null. */
+function dateRangeError(from?: string, to?: string): string | null {
+  for (const [name, value] of [["from", from], ["to", to]] as const) {
+    if (value !== undefined && (!ISO_DATE.test(value) || isNaN(Date.parse(value)))) {
+      return `Invalid '${name}' date ${value}, expected YYYY-MM-DD.`;
+    }
+  }
+  return from && to && from > to ? "'from' must not be after 'to'." : null;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
 }
 
 /**
- * Generate future price predictions for next 14 days
+ * Future price points for the next 14 days from the prediction's Monte Carlo bands,
+ * dated from the last historical price. `price` is the median path; `band` carries
+ * the 5/25/75/95 percentiles for the fan chart.
  */
 function generateFuturePrices(
-  currentPrice: number,
-  prediction: PricePrediction
-): Array<{ date: string; price: number; isPrediction: boolean }> {
-  const prices: Array<{ date: string; price: number; isPrediction: boolean }> =
-    [];
-  const today = new Date();
-
-  // Linear interpolation from current price to target price over 14 days
-  const priceChange = prediction.predictedChangeUSD;
-  const dailyChange = priceChange / 14;
-
-  for (let dayOffset = 1; dayOffset <= 14; dayOffset++) {
-    const date = new Date(today);
-    date.setDate(date.getDate() + dayOffset);
-    const price = currentPrice + dailyChange * dayOffset;
-    prices.push({
+  bands: ForecastBand[],
+  startDate: string
+): Array<{
+  date: string;
+  price: number;
+  isPrediction: boolean;
+  band: Omit<ForecastBand, "day" | "p50">;
+}> {
+  return bands.map(({ day, p5, p25, p50, p75, p95 }) => {
+    const date = new Date(`${startDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + day);
+    return {
       date: date.toISOString().split("T")[0],
-      price: Math.round(price * 100) / 100,
+      price: p50,
       isPrediction: true,
-    });
-  }
-
-  return prices;
+      band: { p5, p25, p75, p95 },
+    };
+  });
 }
 
 app.get("/api/summary", (req, res) => {
@@ -114,26 +123,25 @@ app.get("/api/summary", (req, res) => {
     });
   }
 
+  const priceData = loadPriceData();
+
   // Generate prediction if not present in the summary
+  const predictor = new RareEarthMetalPredictor();
   let prediction: PricePrediction;
   if (!summary.pricePrediction) {
-    const predictor = new RareEarthMetalPredictor();
-    prediction = predictor.predict(summary);
+    prediction = predictor.predict(summary, priceData);
     summary.pricePrediction = prediction;
   } else {
     prediction = summary.pricePrediction;
   }
+  // Predictions stored before forecast bands existed get Gaussian bands from their volatility
+  if (!prediction.forecastBands) {
+    prediction.forecastBands = predictor.forecastBands(prediction);
+  }
 
-  // Generate historical and future price data
-  const historicalPrices = generateHistoricalPrices(
-    prediction.currentBasketPrice,
-    prediction.baselineVolatility
-  );
-
-  const futurePrices = generateFuturePrices(
-    prediction.currentBasketPrice,
-    prediction
-  );
+  const historicalPrices = generateHistoricalPrices(priceData);
+  const lastDate = historicalPrices[historicalPrices.length - 1]?.date ?? priceData.periodEnd;
+  const futurePrices = generateFuturePrices(prediction.forecastBands, lastDate);
 
   // Combine all price data
   const allPrices = [
@@ -141,17 +149,279 @@ app.get("/api/summary", (req, res) => {
     ...futurePrices,
   ];
 
+  const universe = getMetalUniverse();
   res.json({
     summary,
+    basket: {
+      name: universe.basket,
+      metals: universe.metals.map(({ symbol, name, category, weightInBasket }) => ({
+        symbol,
+        name,
+        category,
+        weightInBasket,
+      })),
+    },
     chartData: {
       prices: allPrices,
+      metalSeries: Object.fromEntries(
+        Object.entries(priceData.metals).map(([symbol, m]) => [
+          symbol,
+          m.prices.filter((p) => p.date >= historicalPrices[0]?.date),
+        ])
+      ),
       currentPrice: prediction.currentBasketPrice,
       predictedPrice: prediction.priceTarget,
-      todayDate: new Date().toISOString().split("T")[0],
+      todayDate: lastDate,
+      priceDataSource: priceData.source,
+      priceDataFetchedAt: priceData.fetchedAt,
+      isSeedData: priceData.source === "seed",
     },
   });
 });
 
+// Basket or per-metal price series over an arbitrary date range
+app.get("/api/prices", (req, res) => {
+  const from = typeof req.query.from === "string" ? req.query.from : undefined;
+  const to = typeof req.query.to === "string" ? req.query.to : undefined;
+  const symbol = (typeof req.query.symbol === "string" ? req.query.symbol : "BASKET").toUpperCase();
+
+  const rangeError = dateRangeError(from, to);
+  if (rangeError) {
+    return res.status(400).json({ error: rangeError });
+  }
+
+  // Every stored snapshot merged (newer overrides older); seed data when nothing is stored
+  const history = store.loadPriceHistory();
+  const isSeedData = history.length === 0;
+  const series = isSeedData
+    ? seriesOf(new MetalPriceFetcher().loadSeedData())
+    : mergeMetalSeries(history.map((h) => h.priceData.metals));
+
+  let prices: Array<{ date: string; priceUsd: number }>;
+  if (symbol === "BASKET") {
+    prices = computeBasketSeries(series).map(({ date, priceUsd }) => ({ date, priceUsd: round2(priceUsd) }));
+  } else if (series[symbol]) {
+    prices = series[symbol];
+  } else {
+    return res.status(400).json({
+      error: `Unknown symbol ${symbol}. Use BASKET or one of: ${Object.keys(series).join(", ")}.`,
+    });
+  }
+
+  res.json({
+    source: isSeedData ? "seed" : "stored",
+    isSeedData,
+    symbol,
+    from: from ?? null,
+    to: to ?? null,
+    prices: prices.filter((p) => (!from || p.date >= from) && (!to || p.date <= to)),
+  });
+});
+
+// Canonical driver counts and lean per publication day or week, over the latest analysis of each article
+app.get("/api/drivers/trends", (req, res) => {
+  const interval = typeof req.query.interval === "string" ? req.query.interval : "week";
+  if (interval !== "day" && interval !== "week") {
+    return res.status(400).json({ error: `Invalid interval ${interval}, expected day or week.` });
+  }
+  const to = typeof req.query.to === "string" ? req.query.to : new Date().toISOString().split("T")[0];
+  const from = typeof req.query.from === "string" ? req.query.from : undefined;
+  const rangeError = dateRangeError(from, to);
+  if (rangeError) {
+    return res.status(400).json({ error: rangeError });
+  }
+  const start = new Date(`${from ?? to}T00:00:00Z`);
+  if (!from) start.setUTCDate(start.getUTCDate() - DRIVER_TREND_DAYS);
+
+  const analyses = store.loadRelevantAnalysesForWindow(start.toISOString(), `${to}T23:59:59.999Z`);
+  res.json({ from: start.toISOString().split("T")[0], to, interval, articles: analyses.length, periods: computeDriverTrend(analyses, interval) });
+});
+
+// Market events from the latest analysis of each article, newest article first
+app.get("/api/events", (req, res) => {
+  const param = (name: string) => (typeof req.query[name] === "string" ? (req.query[name] as string) : undefined);
+  const from = param("from");
+  const to = param("to");
+  const rangeError = dateRangeError(from, to);
+  if (rangeError) {
+    return res.status(400).json({ error: rangeError });
+  }
+  const type = param("type");
+  if (type !== undefined && !MARKET_EVENT_TYPE_NAMES.includes(type as MarketEventType)) {
+    return res.status(400).json({ error: `Unknown event type ${type}. Use one of: ${MARKET_EVENT_TYPE_NAMES.join(", ")}.` });
+  }
+  const metal = param("metal");
+
+  const events = store.loadLatestEvents({
+    from,
+    to: to && `${to}T23:59:59.999Z`,
+    type,
+    metal: metal && resolveEventMetal(metal, getMetalUniverse()),
+    country: param("country"),
+    limit: Math.min(Number(param("limit")) || 100, 500),
+  });
+  res.json({
+    from: from ?? null,
+    to: to ?? null,
+    count: events.length,
+    events: events.map(({ article, event, runId, extractedAt }) => ({ ...event, article, runId, extractedAt })),
+  });
+});
+
+// Catalog entities by number of articles mentioning them
+app.get("/api/entities", (req, res) => {
+  const param = (name: string) => (typeof req.query[name] === "string" ? (req.query[name] as string) : undefined);
+  const from = param("from");
+  const to = param("to");
+  const rangeError = dateRangeError(from, to);
+  if (rangeError) {
+    return res.status(400).json({ error: rangeError });
+  }
+  const type = param("type");
+  if (type !== undefined && !ENTITY_TYPES.includes(type as EntityType)) {
+    return res.status(400).json({ error: `Unknown entity type ${type}. Use one of: ${ENTITY_TYPES.join(", ")}.` });
+  }
+  const entities = store.loadEntityCounts({
+    from,
+    to: to && `${to}T23:59:59.999Z`,
+    type: type as EntityType | undefined,
+    limit: Math.min(Number(param("limit")) || 50, 500),
+  });
+  res.json({ from: from ?? null, to: to ?? null, entities });
+});
+
+// Per-source contribution, sentiment and hit rate of price impact calls, over the latest analysis of each article
+app.get("/api/sources", (req, res) => {
+  const param = (name: string) => (typeof req.query[name] === "string" ? (req.query[name] as string) : undefined);
+  const from = param("from");
+  const to = param("to");
+  const rangeError = dateRangeError(from, to);
+  if (rangeError) {
+    return res.status(400).json({ error: rangeError });
+  }
+  const horizon = Number(param("horizon") ?? 14);
+  if (!Number.isInteger(horizon) || horizon < 1) {
+    return res.status(400).json({ error: `Invalid horizon ${param("horizon")}, expected a positive number of days.` });
+  }
+  const cfg = getConfig();
+  const weighting = newsWeightingFromConfig(cfg);
+  const sources = computeSourceStats(store.loadLatestAnalyses(from, to && `${to}T23:59:59.999Z`), {
+    weighting,
+    exclusion: (article) => sourceExclusion(article, cfg, weighting),
+    realizedChange: realizedBasketChange(loadBacktestPrices(store), horizon),
+    flatThresholdPercent: FLAT_THRESHOLD_PERCENT,
+  });
+  res.json({ from: from ?? null, to: to ?? null, horizonDays: horizon, sources });
+});
+
+// Yield and relevance rate of each news query over the requests made in a window
+app.get("/api/queries", (req, res) => {
+  const param = (name: string) => (typeof req.query[name] === "string" ? (req.query[name] as string) : undefined);
+  const from = param("from");
+  const to = param("to");
+  const rangeError = dateRangeError(from, to);
+  if (rangeError) {
+    return res.status(400).json({ error: rangeError });
+  }
+  const queries = computeQueryStats(store.loadQueryFetches(from, to && `${to}T23:59:59.999Z`), newsQueries());
+  res.json({ from: from ?? null, to: to ?? null, queries });
+});
+
+// Configured watchlists with their entities and how many articles each has flagged
+app.get("/api/watchlists", (req, res) => {
+  const catalog = getEntityCatalog();
+  const hits = store.countWatchlistHits();
+  res.json({
+    watchlists: catalog.watchlists.map((w) => ({
+      id: w.id,
+      name: w.name,
+      entities: w.entityIds.map((id) => ({ id, name: catalog.byId[id].name, type: catalog.byId[id].type })),
+      flaggedArticles: hits[w.id]?.count ?? 0,
+      lastFlaggedAt: hits[w.id]?.lastFlaggedAt ?? null,
+    })),
+  });
+});
+
+// Articles flagged on one watchlist, newest article first
+app.get("/api/watchlists/:id/articles", (req, res) => {
+  const catalog = getEntityCatalog();
+  const watchlist = catalog.watchlists.find((w) => w.id === req.params.id);
+  if (!watchlist) {
+    return res.status(404).json({ error: `Watchlist ${req.params.id} not found.` });
+  }
+  const from = typeof req.query.from === "string" ? req.query.from : undefined;
+  const to = typeof req.query.to === "string" ? req.query.to : undefined;
+  const rangeError = dateRangeError(from, to);
+  if (rangeError) {
+    return res.status(400).json({ error: rangeError });
+  }
+  const hits = store.loadWatchlistHits({
+    watchlistId: watchlist.id,
+    from,
+    to: to && `${to}T23:59:59.999Z`,
+    limit: Math.min(Number(req.query.limit) || 100, 500),
+  });
+  res.json({
+    watchlist: { id: watchlist.id, name: watchlist.name },
+    count: hits.length,
+    articles: hits.map(({ article, entityIds, runId, flaggedAt }) => ({
+      ...article,
+      entities: entityIds.map((id) => ({ id, name: catalog.byId[id]?.name ?? id })),
+      runId,
+      flaggedAt,
+    })),
+  });
+});
+
+// Story threads with an article in the last `days` (default: the threading window), latest first
+app.get("/api/threads", (req, res) => {
+  const days = req.query.days === undefined ? getConfig().storyThreadWindowDays : Number(req.query.days);
+  if (!Number.isFinite(days) || days <= 0) {
+    return res.status(400).json({ error: `Invalid days ${req.query.days}, expected a positive number.` });
+  }
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const threads = store.listThreads(since, Math.min(Number(req.query.limit) || 20, 200));
+  res.json({ since, count: threads.length, threads });
+});
+
+app.get("/api/threads/:id", (req, res) => {
+  const thread = store.getThread(req.params.id);
+  if (!thread) {
+    return res.status(404).json({ error: `Thread ${req.params.id} not found.` });
+  }
+  res.json({
+    thread,
+    articles: store.loadThreadArticles(thread.id).map(({ article, sentiment, runId }) => ({ ...article, sentiment, runId })),
+  });
+});
+
+// Run history for auditing how a given aggregate / prediction was produced
+app.get("/api/runs", (req, res) => {
+  const limit = Math.min(Number(req.query.limit) || 20, 200);
+  res.json({ runs: store.listRuns(limit) });
+});
+
+app.get("/api/runs/:runId", (req, res) => {
+  const run = store.getRun(req.params.runId);
+  if (!run) {
+    return res.status(404).json({ error: `Run ${req.params.runId} not found.` });
+  }
+  res.json({
+    run,
+    stages: store.loadStageCheckpoints(run.id).map(({ output, ...stage }) => stage),
+    aggregate: store.loadAggregate(run.id),
+    analyses: store.loadRunAnalyses(run.id),
+  });
+});
+
+// Scheduled jobs with their next and last runs, and the API request budgets left
+app.get("/api/scheduler", (req, res) => {
+  if (!scheduler) {
+    return res.json({ enabled: false, budgets: BudgetTracker.fromConfig(getConfig(), store).status() });
+  }
+  res.json({ enabled: true, ...scheduler.status() });
+});
+
 // Serve the frontend
 app.get("/", (req, res) => {
   res.sendFile(path.join(__dirname, "../public/index.html"));
@@ -160,4 +430,5 @@ app.get("/", (req, res) => {
 app.listen(PORT, () => {
   console.log(`SemantiCast Web Server running at http://localhost:${PORT}`);
   console.log(`Open your browser to view the dashboard`);
+  scheduler?.start();
 });
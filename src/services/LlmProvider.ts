@@ -0,0 +1,142 @@
+import {
+  AnalyzeInput,
+  Article,
+  ArticleText,
+  ArticleTranslation,
+  AggregatedSummary,
+  Classification,
+  LlmFallbackReason,
+  MarketEventExtraction,
+  RareEarthPriceImpact,
+  RareEarthRelevance,
+} from "../types";
+import { AnalysisSignals } from "../statistics/aggregateStatistics";
+
+/** The model-backed operations of the pipeline; each can be routed to a different provider. */
+export type LlmOperation = "translate" | "relevance" | "classify" | "priceImpact" | "events" | "aggregate";
+
+export const LLM_OPERATIONS: LlmOperation[] = ["translate", "relevance", "classify", "priceImpact", "events", "aggregate"];
+
+/**
+ * Backend for semantic analysis of articles.
+ * Implementations: OpenAIService (OpenAI or any OpenAI-compatible server) and RuleBasedLlmProvider.
+ */
+export interface LlmProvider {
+  /** Stable identity of backend and model, part of the analysis cache key. */
+  readonly id: string;
+  /** True when article text stays inside our network (local server or no model at all). */
+  readonly local: boolean;
+  isEnabled(operation: LlmOperation): boolean;
+  /** English translation of `text`, taken from `article` (which decides routing and names the language). */
+  translateArticle(article: Article, text: ArticleText): Promise<ArticleTranslation>;
+  classifyNews(input: AnalyzeInput): Promise<Classification>;
+  assessRareEarthRelevance(article: Article): Promise<RareEarthRelevance>;
+  assessRareEarthPriceImpact(article: Article): Promise<RareEarthPriceImpact>;
+  extractMarketEvents(article: Article): Promise<MarketEventExtraction>;
+  summarizeAggregate(items: AnalysisSignals[], totalFetched: number): Promise<AggregatedSummary>;
+}
+
+/**
+ * Dispatches each operation to its configured provider.
+ * Articles from restricted sources never reach a non-local provider: those operations go to
+ * `restrictedFallback` instead, so their text stays inside the network.
+ */
+export class RoutingLlmProvider implements LlmProvider {
+  public readonly id: string;
+  public readonly local: boolean;
+  private readonly restrictedSources: string[];
+
+  constructor(
+    private readonly routes: Record<LlmOperation, LlmProvider>,
+    private readonly restrictedFallback: LlmProvider,
+    restrictedSources: string[] = []
+  ) {
+    if (!restrictedFallback.local) {
+      throw new Error(`Restricted-source fallback ${restrictedFallback.id} is not a local provider`);
+    }
+    this.restrictedSources = restrictedSources.map((s) => s.toLowerCase());
+    this.local = LLM_OPERATIONS.every((op) => routes[op].local);
+    this.id =
+      LLM_OPERATIONS.map((op) => `${op}=${routes[op].id}`).join(",") +
+      (this.restrictedSources.length && !this.local
+        ? `;restricted=${this.restrictedSources.join("|")}->${restrictedFallback.id}`
+        : "");
+  }
+
+  public isEnabled(operation: LlmOperation): boolean {
+    return this.routes[operation].isEnabled(operation);
+  }
+
+  public translateArticle(article: Article, text: ArticleText): Promise<ArticleTranslation> {
+    return this.providerFor("translate", article.source, article.url).translateArticle(article, text);
+  }
+
+  public classifyNews(input: AnalyzeInput): Promise<Classification> {
+    return this.providerFor("classify", input.source, input.url).classifyNews(input);
+  }
+
+  public assessRareEarthRelevance(article: Article): Promise<RareEarthRelevance> {
+    return this.providerFor("relevance", article.source, article.url).assessRareEarthRelevance(article);
+  }
+
+  public assessRareEarthPriceImpact(article: Article): Promise<RareEarthPriceImpact> {
+    return this.providerFor("priceImpact", article.source, article.url).assessRareEarthPriceImpact(article);
+  }
+
+  public extractMarketEvents(article: Article): Promise<MarketEventExtraction> {
+    return this.providerFor("events", article.source, article.url).extractMarketEvents(article);
+  }
+
+  // Aggregation only sees categories, directions, drivers and sentiment, never article text
+  public summarizeAggregate(items: AnalysisSignals[], totalFetched: number): Promise<AggregatedSummary> {
+    return this.routes.aggregate.summarizeAggregate(items, totalFetched);
+  }
+
+  private providerFor(operation: LlmOperation, source?: string, url?: string): LlmProvider {
+    const provider = this.routes[operation];
+    if (provider.local || !this.isRestricted(source, url)) return provider;
+    return this.restrictedFallback;
+  }
+
+  /** Matches a restricted entry against the source name or the article URL's host (and its subdomains). */
+  private isRestricted(source?: string, url?: string): boolean {
+    if (!this.restrictedSources.length) return false;
+    let host = "";
+    try {
+      host = url ? new URL(url).hostname.toLowerCase() : "";
+    } catch {
+      // unparseable URL: match on source name only
+    }
+    const name = source?.toLowerCase() ?? "";
+    return this.restrictedSources.some(
+      (entry) => entry === name || entry === host || host.endsWith(`.${entry}`)
+    );
+  }
+}
+
+const fallbackCounts = new Map<string, number>();
+
+/**
+ * Count (and, except for ai_disabled, log) one result that is a fallback instead of model output.
+ * ai_disabled is only counted: the factory already warned once at startup.
+ */
+export function recordLlmFallback(operation: LlmOperation, reason: LlmFallbackReason, detail?: string): void {
+  const key = `${operation}:${reason}`;
+  fallbackCounts.set(key, (fallbackCounts.get(key) ?? 0) + 1);
+  if (reason !== "ai_disabled") {
+    console.warn(`[llm] ${operation} fallback (${reason})${detail ? `: ${detail}` : ""}`);
+  }
+}
+
+/** Fallbacks recorded in this process, per operation and reason. */
+export function getLlmFallbackCounts(): Array<{ operation: LlmOperation; reason: LlmFallbackReason; count: number }> {
+  return [...fallbackCounts.entries()].map(([key, count]) => {
+    const [operation, reason] = key.split(":") as [LlmOperation, LlmFallbackReason];
+    return { operation, reason, count };
+  });
+}
+
+/** Start counting afresh, e.g. at the start of each run in a long-running process. */
+export function resetLlmFallbackCounts(): void {
+  fallbackCounts.clear();
+}
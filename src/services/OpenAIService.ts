@@ -3,15 +3,69 @@ import {
   AnalyzeInput,
   Classification,
   Article,
+  ArticleText,
+  ArticleTranslation,
   RareEarthRelevance,
   RareEarthPriceImpact,
   AggregatedSummary,
+  LlmFallbackReason,
+  MarketEvent,
+  MarketEventExtraction,
 } from "../types";
+import { AnalysisSignals, computeAggregateMetrics, reconcileAggregate } from "../statistics/aggregateStatistics";
+import { DRIVER_TAXONOMY } from "../common/driverTaxonomy";
+import { MARKET_EVENT_TYPES, normalizeMarketEvent } from "../common/marketEvents";
+import { getMetalUniverse } from "../common/metalUniverse";
+import { normalizeLanguage } from "../common/languages";
+import { LlmOperation, LlmProvider, recordLlmFallback } from "./LlmProvider";
+import {
+  AGGREGATE_SCHEMA,
+  CLASSIFICATION_SCHEMA,
+  EVENTS_SCHEMA,
+  PRICE_IMPACT_SCHEMA,
+  RELEVANCE_SCHEMA,
+  ResponseSchema,
+  TRANSLATION_SCHEMA,
+  toJsonSchema,
+  validateSchema,
+} from "./llmSchemas";
+
+/**
+ * Version of the per-article prompts (classify, relevance, price impact, events) and sampling settings.
+ * Part of the analysis cache key together with the provider id: bump whenever a prompt changes
+ * so cached results are recomputed.
+ */
+export const PROMPT_VERSION = "2026-10-4";
+
+export const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+
+/** How replies are constrained: strict JSON schema, any JSON object, or prompt instructions only. */
+export type ResponseFormat = "json_schema" | "json_object" | "text";
+
+export interface OpenAIServiceOptions {
+  model?: string;
+  baseURL?: string; // OpenAI-compatible server (llama.cpp, Ollama, vLLM, ...); unset for api.openai.com
+  local?: boolean; // the server at baseURL is inside our network; api.openai.com never is
+  responseFormat?: ResponseFormat; // defaults to json_schema for OpenAI, json_object for other servers
+}
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
 
-export class OpenAIService {
+type JsonReply<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: LlmFallbackReason; detail: string };
+
+/**
+ * LlmProvider backed by the Chat Completions API of OpenAI or of any OpenAI-compatible server.
+ */
+export class OpenAIService implements LlmProvider {
   private client: OpenAI | null;
+  private readonly model: string;
+  private readonly responseFormat: ResponseFormat;
+  public readonly id: string;
+  public readonly local: boolean;
 
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, options: OpenAIServiceOptions = {}) {
     const allowInsecure = process.env.ALLOW_INSECURE_OPENAI === "true";
     if (allowInsecure) {
       // Disables TLS verification globally for this process. Use ONLY for debugging.
@@ -21,13 +75,57 @@ export class OpenAIService {
         "[OpenAIService] WARNING: TLS verification disabled (ALLOW_INSECURE_OPENAI=true). Do not use in production."
       );
     }
-    this.client = apiKey ? new OpenAI({ apiKey }) : null;
+    this.model = options.model || DEFAULT_OPENAI_MODEL;
+    this.responseFormat = options.responseFormat ?? (options.baseURL ? "json_object" : "json_schema");
+    this.local = Boolean(options.baseURL && options.local);
+    this.id = options.baseURL ? `openai-compatible:${this.model}@${options.baseURL}` : `openai:${this.model}`;
+    if (options.baseURL) {
+      // Local servers usually ignore the key, but the SDK requires one
+      this.client = new OpenAI({ apiKey: apiKey || "not-needed", baseURL: options.baseURL });
+    } else {
+      this.client = apiKey ? new OpenAI({ apiKey }) : null;
+    }
   }
 
-  public get enabled(): boolean {
+  public isEnabled(_operation?: LlmOperation): boolean {
     return this.client !== null;
   }
 
+  /**
+   * Translate the given fields of a non-English article into English, completely and without
+   * summarizing. Names, figures and units are kept; fields not given are not returned.
+   */
+  public async translateArticle(article: Article, text: ArticleText): Promise<ArticleTranslation> {
+    if (!this.client) throw new Error("OpenAI client not configured");
+
+    const system = `You translate news articles about metals, mining and the automotive industry into English.
+                    Translate every given field faithfully and completely; do not summarize, add or leave out anything.
+                    Use the usual English names of companies, people and places; keep numbers, units, dates and currencies exactly.
+                    Only return JSON: { sourceLanguage, title, description, content, fullText }.
+                    - sourceLanguage: ISO 639-1 code of the original text.
+                    - a field that is missing or null in the input is null in the reply.
+                    No extra text.`;
+
+    const user = `Language (detected, may be wrong): ${article.language ?? "unknown"}
+Fields:
+${JSON.stringify(text)}`;
+
+    const reply = await this.completeJson<{ sourceLanguage: string } & Record<keyof ArticleText, string | null>>(
+      "translate",
+      TRANSLATION_SCHEMA,
+      system,
+      user,
+      0
+    );
+    const sourceLanguage = (reply.ok && normalizeLanguage(reply.value.sourceLanguage)) || article.language || "";
+    if (!reply.ok) return { sourceLanguage, fallbackReason: reply.reason };
+    const translated: ArticleText = {};
+    for (const field of ["title", "description", "content", "fullText"] as const) {
+      if (text[field] && reply.value[field]) translated[field] = reply.value[field]!;
+    }
+    return { sourceLanguage, ...translated };
+  }
+
   public async classifyNews(input: AnalyzeInput): Promise<Classification> {
     if (!this.client) {
       throw new Error("OpenAI client not configured");
@@ -44,41 +142,11 @@ export class OpenAIService {
 ${text}
 """`;
 
-    let completion;
-    try {
-      completion = await this.client.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: system },
-          { role: "user", content: user },
-        ],
-        temperature: 0.2,
-      });
-    } catch (error: any) {
-      if (isTlsIssuerError(error)) {
-        throw new Error(formatTlsGuidance("OpenAI", error));
-      }
-      throw error;
+    const reply = await this.completeJson<Classification>("classify", CLASSIFICATION_SCHEMA, system, user, 0.2);
+    if (!reply.ok) {
+      return { sentiment: "neutral", impact: "flat", confidence: 0, fallbackReason: reply.reason };
     }
-
-    const content = completion.choices?.[0]?.message?.content ?? "";
-
-    const jsonText = extractJson(content);
-    const parsed = JSON.parse(jsonText) as Classification;
-
-    const sentiment = ["bullish", "bearish", "neutral"].includes(
-      (parsed as any).sentiment
-    )
-      ? (parsed as any).sentiment
-      : "neutral";
-    const impact = ["up", "down", "flat"].includes((parsed as any).impact)
-      ? (parsed as any).impact
-      : "flat";
-    const confidence = Math.max(
-      0,
-      Math.min(1, Number((parsed as any).confidence ?? 0.5))
-    );
-
+    const { sentiment, impact, confidence } = reply.value;
     return { sentiment, impact, confidence };
   }
 
@@ -94,7 +162,7 @@ ${text}
       throw new Error("OpenAI client not configured");
     }
 
-    const text = [article.title, article.description, article.content]
+    const text = [article.title, article.description, article.fullText ?? article.content]
       .filter(Boolean)
       .join("\n\n");
 
@@ -129,114 +197,61 @@ Source: ${article.source}
 Published: ${article.publishedAt}
 Text:\n"""\n${text}\n"""`;
 
-    let completion;
-    try {
-      completion = await this.client.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: system },
-          { role: "user", content: user },
-        ],
-        temperature: 0.1,
-      });
-    } catch (e: any) {
-      if (isTlsIssuerError(e)) {
-        return {
-          relevant: false,
-          confidence: 0.1,
-          matchedTerms: [],
-          rationale: formatTlsGuidance("OpenAI", e).slice(0, 300),
-          automotiveRelevant: false,
-          automotiveContextTerms: [],
-          category: "other",
-          usage: undefined,
-        };
-      }
+    const reply = await this.completeJson<{
+      relevant: boolean;
+      confidence: number;
+      matchedTerms: string[];
+      rationale: string;
+      automotiveRelevant: boolean;
+      automotiveContextTerms: string[];
+      category: NonNullable<RareEarthRelevance["category"]>;
+      usage: string | null;
+    }>("relevance", RELEVANCE_SCHEMA, system, user, 0.1);
+    if (!reply.ok) {
       return {
         relevant: false,
-        confidence: 0.1,
+        confidence: reply.reason === "parse_error" || reply.reason === "schema_error" ? 0.2 : 0.1,
         matchedTerms: [],
-        rationale: "openai_error",
+        rationale:
+          reply.reason === "tls_error"
+            ? formatTlsGuidance("OpenAI", { message: reply.detail }).slice(0, 300)
+            : reply.reason,
         automotiveRelevant: false,
         automotiveContextTerms: [],
         category: "other",
         usage: undefined,
+        fallbackReason: reply.reason,
       };
     }
 
-    const content = completion.choices?.[0]?.message?.content ?? "";
-    const jsonText = extractJson(content);
-    let parsed: any;
-    try {
-      parsed = JSON.parse(jsonText);
-    } catch (e) {
-      return {
-        relevant: false,
-        confidence: 0.2,
-        matchedTerms: [],
-        rationale: "parse_error",
-        automotiveRelevant: false,
-        automotiveContextTerms: [],
-        category: "other",
-        usage: undefined,
-      };
-    }
-    const relevant = Boolean(parsed.relevant);
-    const confidence = Math.max(
-      0,
-      Math.min(1, Number(parsed.confidence ?? 0.5))
-    );
-    const matchedTerms = Array.isArray(parsed.matchedTerms)
-      ? parsed.matchedTerms
-          .filter((term: any) => typeof term === "string")
-          .map((term: string) => term.toLowerCase())
-          .slice(0, 20)
-      : [];
-    const rationale =
-      typeof parsed.rationale === "string"
-        ? parsed.rationale.slice(0, 200)
-        : undefined;
-    const automotiveRelevant = relevant && Boolean(parsed.automotiveRelevant);
-    const automotiveContextTerms =
-      automotiveRelevant && Array.isArray(parsed.automotiveContextTerms)
-        ? parsed.automotiveContextTerms
-            .filter((term: any) => typeof term === "string")
-            .map((term: string) => term.toLowerCase())
-            .slice(0, 15)
-        : [];
-    const category: RareEarthRelevance["category"] =
-      automotiveRelevant &&
-      ["magnet", "battery", "mixed", "other"].includes(parsed.category)
-        ? parsed.category
-        : automotiveRelevant
-        ? "other"
-        : "other";
-    const usage =
-      automotiveRelevant && typeof parsed.usage === "string"
-        ? parsed.usage.slice(0, 120)
-        : undefined;
+    const parsed = reply.value;
+    const relevant = parsed.relevant;
+    const automotiveRelevant = relevant && parsed.automotiveRelevant;
     return {
       relevant,
-      confidence,
-      matchedTerms,
-      rationale,
+      confidence: parsed.confidence,
+      matchedTerms: parsed.matchedTerms.map((term) => term.toLowerCase()),
+      rationale: parsed.rationale,
       automotiveRelevant,
-      automotiveContextTerms,
-      category,
-      usage,
+      automotiveContextTerms: automotiveRelevant
+        ? parsed.automotiveContextTerms.map((term) => term.toLowerCase())
+        : [],
+      category: automotiveRelevant ? parsed.category : "other",
+      usage: automotiveRelevant && parsed.usage ? parsed.usage : undefined,
     };
   }
 
   /**
    * Assess expected short-term price impact direction for rare earth metals.
-   * Returns JSON with direction up|down|uncertain, confidence, drivers[], reasoning.
+   * Returns JSON with direction up|down|uncertain, confidence, drivers[] (from the driver
+   * taxonomy), reasoning.
    */
   
   public async assessRareEarthPriceImpact(
     article: Article
   ): Promise<RareEarthPriceImpact> {
     if (!this.client) throw new Error("OpenAI client not configured");
-    const text = [article.title, article.description, article.content]
+    const text = [article.title, article.description, article.fullText ?? article.content]
       .filter(Boolean)
       .join("\n\n");
 
@@ -247,7 +262,8 @@ Text:\n"""\n${text}\n"""`;
                     - direction 'up' if supply risk, export restrictions, demand surge, strategic stockpiling, bullish policy.
                     - direction 'down' if oversupply, production expansion, demand contraction, price cap, bearish policy.
                     - use 'uncertain' if mixed signals or insufficient detail.
-                    - drivers: at most 5 concise lowercase phrases.
+                    - drivers: 1 to 3 drivers from this list, exactly as written, most important first ('other' only if none fits):
+                    ${DRIVER_TAXONOMY.map((d) => `  ${d.driver}: ${d.description}`).join("\n                    ")}
                     - reasoning: <= 240 chars.
                     No extra text.`;
 
@@ -258,261 +274,223 @@ Text:\n"""\n${text}\n"""`;
       1800
     )}\n"""`;
 
-    let completion;
-    try {
-      completion = await this.client.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: system },
-          { role: "user", content: user },
-        ],
-        temperature: 0.15,
-      });
-    } catch (e: any) {
-      if (isTlsIssuerError(e)) {
-        return {
-          direction: "uncertain",
-          confidence: 0.1,
-          drivers: [],
-          reasoning: "tls_error",
-        };
-      }
+    const reply = await this.completeJson<Required<Omit<RareEarthPriceImpact, "fallbackReason">>>(
+      "priceImpact",
+      PRICE_IMPACT_SCHEMA,
+      system,
+      user,
+      0.15
+    );
+    if (!reply.ok) {
       return {
         direction: "uncertain",
-        confidence: 0.1,
+        confidence: reply.reason === "parse_error" || reply.reason === "schema_error" ? 0.2 : 0.1,
         drivers: [],
-        reasoning: "openai_error",
+        reasoning: reply.reason,
+        fallbackReason: reply.reason,
       };
     }
+    const { direction, confidence, drivers, reasoning } = reply.value;
+    return { direction, confidence, drivers, reasoning };
+  }
 
-    const content = completion.choices?.[0]?.message?.content ?? "";
-    const jsonText = extractJson(content);
-    let parsed: any;
-    try {
-      parsed = JSON.parse(jsonText);
-    } catch {
-      return {
-        direction: "uncertain",
-        confidence: 0.2,
-        drivers: [],
-        reasoning: "parse_error",
-      };
-    }
+  /**
+   * Extract concrete market events (export quota changes, mine openings/closures, offtake
+   * agreements, plant announcements, tariffs) with their facts. Articles without a concrete
+   * event yield an empty list.
+   */
+  public async extractMarketEvents(article: Article): Promise<MarketEventExtraction> {
+    if (!this.client) throw new Error("OpenAI client not configured");
+    const universe = getMetalUniverse();
+    const text = [article.title, article.description, article.fullText ?? article.content]
+      .filter(Boolean)
+      .join("\n\n");
 
-    const direction: RareEarthPriceImpact["direction"] = [
-      "up",
-      "down",
-      "uncertain",
-    ].includes(parsed.direction)
-      ? parsed.direction
-      : "uncertain";
-    const confidence = clamp01(Number(parsed.confidence ?? 0.5));
-    const drivers = Array.isArray(parsed.drivers)
-      ? parsed.drivers.filter((driver: any) => typeof driver === "string").slice(0, 5)
-      : [];
-    const reasoning =
-      typeof parsed.reasoning === "string"
-        ? parsed.reasoning.slice(0, 240)
-        : undefined;
-    return { direction, confidence, drivers, reasoning };
+    const system = `You extract concrete market events for rare earth and battery metals from news articles.
+                    Only return JSON: { events: [{ type, country, company, metal, volumeTonnes, effectiveDate, stance, confidence, summary }] }.
+                    Event types:
+                    ${MARKET_EVENT_TYPES.map((d) => `  ${d.type}: ${d.description}`).join("\n                    ")}
+                    Rules:
+                    - only events the article reports as decided, started or signed; no forecasts, opinions or market commentary. No event: { "events": [] }.
+                    - at most 5 events, one per distinct fact.
+                    - country, company: as named in the article, else null.
+                    - metal: one of ${universe.metals.map((m) => `${m.symbol} (${m.name})`).join(", ")}, else the lowercase metal name, else null.
+                    - volumeTonnes: affected quantity in metric tonnes (per year for capacities and quotas), else null.
+                    - effectiveDate: YYYY-MM-DD when stated, else null.
+                    - stance: expected effect on the metal's price (bullish, bearish or neutral).
+                    - summary: one sentence, <= 200 chars.
+                    No extra text.`;
+
+    const user = `Article context:\nTitle: ${article.title}\nSource: ${
+      article.source
+    }\nPublished: ${article.publishedAt}\nText:\n"""\n${truncate(text, 1800)}\n"""`;
+
+    const reply = await this.completeJson<{ events: MarketEvent[] }>("events", EVENTS_SCHEMA, system, user, 0.1);
+    if (!reply.ok) {
+      return { events: [], fallbackReason: reply.reason };
+    }
+    return { events: reply.value.events.map((event) => normalizeMarketEvent(event, universe)) };
   }
 
   /**
-   * Produce an aggregated automotive-focused narrative and metrics from per-article structured results.
-   * Input should be an array of objects: { relevance, classification, priceImpact }.
+   * Aggregate per-article structured results. Counts, distributions, driver statistics and the
+   * suggestion are computed in code over every item; the model only writes the narrative.
+   * It also restates the counts it was given, which are reconciled against the computed ones.
    */
   public async summarizeAggregate(
-    items: Array<{
-      relevance: RareEarthRelevance;
-      classification: Classification;
-      priceImpact: RareEarthPriceImpact;
-    }>,
+    items: AnalysisSignals[],
     totalFetched: number
   ): Promise<AggregatedSummary> {
     if (!this.client) {
-      return this.buildFallbackAggregate(items, totalFetched);
+      recordLlmFallback("aggregate", "ai_disabled");
+      return this.buildFallbackAggregate(items, totalFetched, "ai_disabled");
     }
     if (!items.length) {
       return this.buildFallbackAggregate(items, totalFetched);
     }
-    // Prepare compact JSON payload for model
-    const compact = items.slice(0, 60).map((i) => ({
-      cat: i.relevance.category,
-      pc: i.priceImpact.direction,
-      pd: i.priceImpact.drivers,
-      sc: i.classification.sentiment,
-    }));
-
-    const system = `You aggregate structured rare earth automotive article analytics.
-                    You will receive arrays of compact objects with keys: cat (category), pc (price direction), pd (drivers[]), sc (sentiment).
+
+    const aggBase = computeAggregateMetrics(items, totalFetched);
+    const metrics = {
+      totalRelevant: aggBase.totalRelevant,
+      categories: {
+        magnet: aggBase.magnetCount,
+        battery: aggBase.batteryCount,
+        mixed: aggBase.mixedCount,
+        other: aggBase.otherCount,
+      },
+      priceImpactDistribution: aggBase.priceImpactDistribution,
+      sentimentDistribution: aggBase.sentimentDistribution,
+      drivers: (aggBase.driverStats ?? [])
+        .filter((d) => aggBase.dominantDrivers.includes(d.driver))
+        .map(({ driver, count, lean }) => ({ driver, count, lean })),
+    };
+
+    const system = `You write the narrative for aggregated rare earth automotive article analytics.
+                    You receive exact metrics computed from every relevant article: totalRelevant, categories, priceImpactDistribution,
+                    sentimentDistribution and drivers (canonical driver, number of articles citing it, lean from -1 all down to +1 all up; most cited first).
                     Return ONLY JSON with keys:
-                    priceImpactDistribution { up, down, uncertain }, sentimentDistribution { bullish, bearish, neutral }, dominantDrivers (string[] <=8 lowercase), narrative (<=420 chars, concise, no hype), suggestion (string <=140 chars).
-                    Suggestion rules:
-                    - suggestion starts with BUY / HOLD / SELL (uppercase) then a colon and brief rationale.
-                    - Use BUY if strong bullish drivers AND priceImpactDistribution.up dominates and sentiment bullish > bearish.
-                    - Use SELL if bearish drivers dominate AND down > up AND bearish > bullish.
-                    - Otherwise use HOLD.
-                    - Always append a disclaimer: "(informational, not financial advice)".
-                    No lists of articles, focus on synthesized themes for automotive industry (EV motors, batteries).`;
-
-    const user = `Data: ${JSON.stringify(compact)}`;
-    let completion;
-    try {
-      completion = await this.client.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: [
-          { role: "system", content: system },
-          { role: "user", content: user },
-        ],
-        temperature: 0.25,
-      });
-    } catch (e: any) {
-      if (isTlsIssuerError(e))
-        return this.buildFallbackAggregate(items, totalFetched);
-      return this.buildFallbackAggregate(items, totalFetched);
-    }
-    const content = completion.choices?.[0]?.message?.content ?? "";
-    const jsonText = extractJson(content);
-    let parsed: any;
-    try {
-      parsed = JSON.parse(jsonText);
-    } catch {
-      return this.buildFallbackAggregate(items, totalFetched);
+                    totalRelevant, priceImpactDistribution { up, down, uncertain }, sentimentDistribution { bullish, bearish, neutral } - restated exactly as given (they are checked),
+                    narrative (<=420 chars, concise, no hype).
+                    Only cite numbers that appear in the metrics. No lists of articles, focus on synthesized themes for automotive industry (EV motors, batteries).`;
+
+    const user = `Metrics: ${JSON.stringify(metrics)}`;
+    const reply = await this.completeJson<{
+      totalRelevant: number;
+      priceImpactDistribution: AggregatedSummary["priceImpactDistribution"];
+      sentimentDistribution: AggregatedSummary["sentimentDistribution"];
+      narrative: string;
+    }>("aggregate", AGGREGATE_SCHEMA, system, user, 0.25);
+    if (!reply.ok) {
+      return this.buildFallbackAggregate(items, totalFetched, reply.reason);
     }
 
-    const aggBase = this.computeBaseMetrics(items, totalFetched);
-    const pid = parsed.priceImpactDistribution || {};
-    const sd = parsed.sentimentDistribution || {};
-    const drivers = Array.isArray(parsed.dominantDrivers)
-      ? parsed.dominantDrivers
-          .filter((driver: any) => typeof driver === "string")
-          .map((driver: string) => driver.toLowerCase())
-          .slice(0, 8)
-      : [];
-    const narrative =
-      typeof parsed.narrative === "string"
-        ? parsed.narrative.slice(0, 420)
-        : "No narrative";
+    const parsed = reply.value;
+    const reconciliation = reconcileAggregate(aggBase, parsed);
+    if (!reconciliation.consistent) {
+      console.warn(`[llm] aggregate narrative disagrees with computed counts: ${reconciliation.mismatches.join("; ")}`);
+    }
     return {
       ...aggBase,
-      priceImpactDistribution: {
-        up: Number(pid.up) || 0,
-        down: Number(pid.down) || 0,
-        uncertain: Number(pid.uncertain) || 0,
-      },
-      sentimentDistribution: {
-        bullish: Number(sd.bullish) || 0,
-        bearish: Number(sd.bearish) || 0,
-        neutral: Number(sd.neutral) || 0,
-      },
-      dominantDrivers: drivers,
-      narrative,
-      suggestion:
-        typeof parsed.suggestion === "string"
-          ? parsed.suggestion.slice(0, 140)
-          : this.inferFallbackSuggestion(aggBase),
+      narrative: parsed.narrative,
+      reconciliation,
     };
   }
 
-  private computeBaseMetrics(
-    items: Array<{
-      relevance: RareEarthRelevance;
-      classification: Classification;
-      priceImpact: RareEarthPriceImpact;
-    }>,
-    totalFetched: number
-  ) {
-    const totalRelevant = items.length;
-    const magnetCount = items.filter(
-      (i) => i.relevance.category === "magnet"
-    ).length;
-    const batteryCount = items.filter(
-      (i) => i.relevance.category === "battery"
-    ).length;
-    const mixedCount = items.filter(
-      (i) => i.relevance.category === "mixed"
-    ).length;
-    const otherCount = items.filter(
-      (i) => i.relevance.category === "other"
-    ).length;
-    const avgRelevanceConfidence = totalRelevant
-      ? items.reduce((sum, item) => sum + item.relevance.confidence, 0) / totalRelevant
-      : 0;
-    const avgSentimentConfidence = totalRelevant
-      ? items.reduce((sum, item) => sum + item.classification.confidence, 0) /
-        totalRelevant
-      : 0;
-    const avgPriceImpactConfidence = totalRelevant
-      ? items.reduce((sum, item) => sum + item.priceImpact.confidence, 0) / totalRelevant
-      : 0;
-    const priceImpactDistribution = {
-      up: items.filter((item) => item.priceImpact.direction === "up").length,
-      down: items.filter((item) => item.priceImpact.direction === "down").length,
-      uncertain: items.filter((item) => item.priceImpact.direction === "uncertain")
-        .length,
-    };
-    const sentimentDistribution = {
-      bullish: items.filter((item) => item.classification.sentiment === "bullish")
-        .length,
-      bearish: items.filter((item) => item.classification.sentiment === "bearish")
-        .length,
-      neutral: items.filter((item) => item.classification.sentiment === "neutral")
-        .length,
-    };
-    return {
-      totalArticles: totalFetched,
-      totalRelevant,
-      magnetCount,
-      batteryCount,
-      mixedCount,
-      otherCount,
-      avgRelevanceConfidence,
-      avgSentimentConfidence,
-      avgPriceImpactConfidence,
-      priceImpactDistribution,
-      sentimentDistribution,
-      dominantDrivers: [] as string[],
-      narrative: "",
-    } as AggregatedSummary;
+  /**
+   * Request a JSON reply and validate it against `schema`.
+   * An unparseable or invalid reply gets one repair round: the model sees its own reply and
+   * the validation errors and is asked for a corrected object. Every failure is recorded.
+   */
+  private async completeJson<T>(
+    operation: LlmOperation,
+    schema: ResponseSchema,
+    system: string,
+    user: string,
+    temperature: number
+  ): Promise<JsonReply<T>> {
+    const messages: ChatMessage[] = [
+      { role: "system", content: system },
+      { role: "user", content: user },
+    ];
+
+    let content: string;
+    try {
+      content = await this.complete(messages, schema, temperature);
+    } catch (error: any) {
+      const reason: LlmFallbackReason = isTlsIssuerError(error) ? "tls_error" : "request_error";
+      recordLlmFallback(operation, reason, error?.message);
+      return { ok: false, reason, detail: String(error?.message ?? error) };
+    }
+
+    let result = parseReply<T>(schema, content);
+    if (!result.ok) {
+      try {
+        content = await this.complete(
+          [
+            ...messages,
+            { role: "assistant", content },
+            {
+              role: "user",
+              content: `Your reply was invalid: ${result.detail}. Return ONLY the corrected JSON object.`,
+            },
+          ],
+          schema,
+          temperature
+        );
+        result = parseReply<T>(schema, content);
+      } catch {
+        // repair request failed: report the original validation failure
+      }
+    }
+    if (!result.ok) {
+      recordLlmFallback(operation, result.reason, result.detail);
+    }
+    return result;
+  }
+
+  private async complete(messages: ChatMessage[], schema: ResponseSchema, temperature: number): Promise<string> {
+    if (!this.client) throw new Error("OpenAI client not configured");
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      temperature,
+      ...(this.responseFormat === "json_schema" && {
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: schema.name, schema: toJsonSchema(schema), strict: true },
+        },
+      }),
+      ...(this.responseFormat === "json_object" && { response_format: { type: "json_object" } }),
+    });
+    return completion.choices?.[0]?.message?.content ?? "";
   }
 
   private buildFallbackAggregate(
-    items: Array<{
-      relevance: RareEarthRelevance;
-      classification: Classification;
-      priceImpact: RareEarthPriceImpact;
-    }>,
-    totalFetched: number
+    items: AnalysisSignals[],
+    totalFetched: number,
+    fallbackReason?: LlmFallbackReason
   ): AggregatedSummary {
-    const base = this.computeBaseMetrics(items, totalFetched);
     return {
-      ...base,
-      dominantDrivers: [],
+      ...computeAggregateMetrics(items, totalFetched),
+      fallbackReason,
       narrative: items.length
         ? "Automotive rare earth activity observed; AI summary unavailable."
         : "No relevant automotive rare earth articles found.",
-      suggestion: this.inferFallbackSuggestion(base),
     };
   }
+}
 
-  private inferFallbackSuggestion(base: AggregatedSummary): string {
-    // Simple heuristic: majority up & bullish => BUY, majority down & bearish => SELL else HOLD.
-    const { priceImpactDistribution: pid, sentimentDistribution: sd } = base;
-    let action: "BUY" | "SELL" | "HOLD" = "HOLD";
-    if (
-      pid.up > pid.down &&
-      sd.bullish > sd.bearish &&
-      pid.up >= pid.down + pid.uncertain
-    )
-      action = "BUY";
-    else if (
-      pid.down > pid.up &&
-      sd.bearish > sd.bullish &&
-      pid.down >= pid.up + pid.uncertain
-    )
-      action = "SELL";
-    return `${action}: heuristic summary based on current distributions (informational, not financial advice)`;
+function parseReply<T>(schema: ResponseSchema, content: string): JsonReply<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(content));
+  } catch (e) {
+    return { ok: false, reason: "parse_error", detail: `not valid JSON (${(e as Error).message})` };
   }
+  const validation = validateSchema<T>(schema, parsed);
+  return validation.ok
+    ? validation
+    : { ok: false, reason: "schema_error", detail: validation.errors.join("; ") };
 }
 
 function extractJson(text: string): string {
@@ -541,7 +519,3 @@ function formatTlsGuidance(context: string, error: any): string {
 function truncate(text: string, max: number): string {
   return text.length <= max ? text : text.slice(0, max) + "…";
 }
-
-function clamp01(value: number): number {
-  return Math.max(0, Math.min(1, value));
-}
@@ -0,0 +1,189 @@
+import {
+  AnalyzeInput,
+  Article,
+  ArticleText,
+  ArticleTranslation,
+  AggregatedSummary,
+  Classification,
+  MarketEvent,
+  MarketEventExtraction,
+  MarketEventType,
+  PriceDriver,
+  RareEarthPriceImpact,
+  RareEarthRelevance,
+} from "../types";
+import { AnalysisSignals, computeAggregateMetrics } from "../statistics/aggregateStatistics";
+import { LlmOperation, LlmProvider } from "./LlmProvider";
+import { getMetalUniverse } from "../common/metalUniverse";
+
+const MAGNET_TERMS = ["neodymium", "praseodymium", "dysprosium", "terbium", "samarium", "ndfeb", "permanent magnet"];
+const BATTERY_TERMS = ["lithium", "cobalt", "nickel", "manganese", "graphite"];
+const OTHER_MINERAL_TERMS = [
+  "rare earth", "rare earths", "cerium", "lanthanum", "yttrium", "scandium", "europium", "gadolinium",
+  "holmium", "erbium", "thulium", "ytterbium", "lutetium", "critical minerals",
+];
+const AUTOMOTIVE_TERMS = [
+  "ev", "evs", "electric vehicle", "electric vehicles", "electric car", "automotive", "auto industry", "automaker",
+  "oem", "battery", "batteries", "battery pack", "gigafactory", "cell production", "cathode", "anode", "motor",
+  "traction motor", "magnet", "magnets", "drivetrain", "tesla", "byd", "volkswagen", "toyota",
+];
+
+// Canonical driver → pattern in the article text
+const UP_DRIVERS: Array<[PriceDriver, RegExp]> = [
+  ["export policy", /export (ban|control|curb|restriction|licen[cs]e)s?/],
+  ["supply disruption", /(supply|production) (disruption|shortage|halt|cut)s?|mine (closure|shutdown)/],
+  ["demand growth", /(demand|sales) (surge|growth|boom|rises?|jumps?)|record demand/],
+  ["stockpiling", /stockpil(e|es|ing)|strategic reserve/],
+  ["tariffs and sanctions", /tariffs?|sanctions?/],
+];
+const DOWN_DRIVERS: Array<[PriceDriver, RegExp]> = [
+  ["oversupply", /oversupply|glut|surplus/],
+  ["new capacity", /(new|expand(s|ed|ing)?|ramp(s|ed|ing)? up) (mine|mines|capacity|production|output)|capacity expansion/],
+  ["demand slowdown", /(demand|sales) (slowdown|slump|falls?|drops?|weak(ens|ness)?)|weak demand/],
+  ["recycling", /recycl(e|es|ed|ing)/],
+  ["substitution", /rare[- ]earth[- ]free|magnet[- ]free|substitut(e|es|ed|ion)/],
+  ["market prices", /prices? (fall|falls|drop|drops|slump|slumps|plunge|plunges)/],
+  ["government policy", /price caps?/],
+];
+// Event type → pattern and price stance; a relaxed or lifted measure flips the stance
+const EVENT_RULES: Array<[MarketEventType, RegExp, MarketEvent["stance"]]> = [
+  ["export restriction", /export (ban|quota|control|curb|restriction|licen[cs]e)s?/, "bullish"],
+  ["mine closure", /(mine|refinery|plant) (closure|shutdown|suspension)|(halts?|suspends?) (production|mining|operations)/, "bullish"],
+  ["mine opening", /(mine|refinery) (opens|opening|starts production|begins production|restart)|first production/, "bearish"],
+  ["tariff", /tariffs?|import dut(y|ies)|sanctions?/, "bullish"],
+  ["offtake agreement", /offtake|supply (agreement|deal|contract)/, "neutral"],
+  ["plant announcement", /(magnet|cathode|battery|processing|separation) (plant|factory|facility)/, "neutral"],
+];
+const RELAXED = /(lift|lifts|lifted|eases?|eased|relax(es|ed)?|scrap(s|ped)?|remov(es|ed)|suspend(s|ed)?) (the )?(ban|quota|tariff|restriction|control|dut)/;
+const COUNTRIES = [
+  "china", "united states", "australia", "myanmar", "malaysia", "vietnam", "brazil", "india", "japan",
+  "canada", "chile", "argentina", "indonesia", "congo", "russia", "greenland", "south africa", "germany",
+];
+const VOLUME = /(\d[\d,]*(?:\.\d+)?)\s*(k|thousand)?\s*(?:metric )?(?:tonnes|tons|t)\b/;
+
+const BULLISH_WORDS = ["surge", "rally", "record", "higher", "growth", "upgrade", "shortage", "soar"];
+const BEARISH_WORDS = ["plunge", "drop", "miss", "lower", "fraud", "downgrade", "glut", "slump"];
+
+/**
+ * Deterministic keyword rules in place of a model. Nothing leaves the process, results are
+ * reproducible, and it needs no key — for restricted sources, offline runs and baselines.
+ * It cannot translate: non-English articles are matched against the English terms as they are.
+ */
+export class RuleBasedLlmProvider implements LlmProvider {
+  public readonly id = "rules:v2";
+  public readonly local = true;
+
+  public isEnabled(operation?: LlmOperation): boolean {
+    return operation !== "translate";
+  }
+
+  public async translateArticle(article: Article, _text: ArticleText): Promise<ArticleTranslation> {
+    return { sourceLanguage: article.language ?? "", fallbackReason: "ai_disabled" };
+  }
+
+  public async classifyNews(input: AnalyzeInput): Promise<Classification> {
+    const text = [input.headline, input.body].filter(Boolean).join(" ").toLowerCase();
+    const bull = BULLISH_WORDS.filter((w) => text.includes(w)).length;
+    const bear = BEARISH_WORDS.filter((w) => text.includes(w)).length;
+    if (bull > bear) return { sentiment: "bullish", impact: "up", confidence: confidenceFor(bull - bear) };
+    if (bear > bull) return { sentiment: "bearish", impact: "down", confidence: confidenceFor(bear - bull) };
+    return { sentiment: "neutral", impact: "flat", confidence: 0.4 };
+  }
+
+  public async assessRareEarthRelevance(article: Article): Promise<RareEarthRelevance> {
+    const text = articleText(article);
+    const magnet = findTerms(text, MAGNET_TERMS);
+    const battery = findTerms(text, BATTERY_TERMS);
+    const matchedTerms = [...magnet, ...battery, ...findTerms(text, OTHER_MINERAL_TERMS)].slice(0, 20);
+    const relevant = matchedTerms.length > 0;
+    const automotiveContextTerms = relevant ? findTerms(text, AUTOMOTIVE_TERMS).slice(0, 15) : [];
+    const automotiveRelevant = automotiveContextTerms.length > 0;
+
+    let category: RareEarthRelevance["category"] = "other";
+    if (automotiveRelevant) {
+      if (magnet.length && battery.length) category = "mixed";
+      else if (magnet.length) category = "magnet";
+      else if (battery.length) category = "battery";
+    }
+    const usage: Record<NonNullable<RareEarthRelevance["category"]>, string | undefined> = {
+      magnet: "permanent magnets for EV traction motors",
+      battery: "EV battery materials",
+      mixed: "EV motors and batteries",
+      other: undefined,
+    };
+
+    return {
+      relevant,
+      confidence: relevant ? confidenceFor(matchedTerms.length + automotiveContextTerms.length, 0.8) : 0.6,
+      matchedTerms,
+      rationale: `rule_based: ${matchedTerms.length} mineral and ${automotiveContextTerms.length} automotive terms`,
+      automotiveRelevant,
+      automotiveContextTerms,
+      category,
+      usage: automotiveRelevant ? usage[category] : undefined,
+    };
+  }
+
+  public async assessRareEarthPriceImpact(article: Article): Promise<RareEarthPriceImpact> {
+    const text = articleText(article);
+    const up = UP_DRIVERS.filter(([, pattern]) => pattern.test(text)).map(([driver]) => driver);
+    const down = DOWN_DRIVERS.filter(([, pattern]) => pattern.test(text)).map(([driver]) => driver);
+    const direction: RareEarthPriceImpact["direction"] =
+      up.length > down.length ? "up" : down.length > up.length ? "down" : "uncertain";
+    return {
+      direction,
+      confidence: direction === "uncertain" ? 0.3 : confidenceFor(Math.abs(up.length - down.length)),
+      drivers: [...up, ...down].slice(0, 3),
+      reasoning: `rule_based: ${up.length} supportive and ${down.length} bearish drivers matched`,
+    };
+  }
+
+  public async extractMarketEvents(article: Article): Promise<MarketEventExtraction> {
+    const text = articleText(article);
+    const flip = RELAXED.test(text);
+    const country = COUNTRIES.find((c) => new RegExp(`\\b${c}\\b`).test(text)) ?? null;
+    const metals = getMetalUniverse().metals.filter((m) =>
+      new RegExp(`\\b${m.name.toLowerCase().split(" ")[0]}\\b`).test(text)
+    );
+    const volume = VOLUME.exec(text);
+
+    const events = EVENT_RULES.filter(([, pattern]) => pattern.test(text)).map(([type, , stance]): MarketEvent => ({
+      type,
+      country: country ? country.replace(/\b\w/g, (c) => c.toUpperCase()) : null,
+      company: null,
+      metal: metals.length === 1 ? metals[0].symbol : null,
+      volumeTonnes: volume
+        ? Number(volume[1].replace(/,/g, "")) * (volume[2] ? 1000 : 1)
+        : null,
+      effectiveDate: null,
+      stance: flip && stance !== "neutral" ? (stance === "bullish" ? "bearish" : "bullish") : stance,
+      confidence: 0.4,
+      summary: `rule_based: ${article.title}`.slice(0, 200),
+    }));
+    return { events: events.slice(0, 3) };
+  }
+
+  public async summarizeAggregate(items: AnalysisSignals[], totalFetched: number): Promise<AggregatedSummary> {
+    const base = computeAggregateMetrics(items, totalFetched);
+    const { up, down, uncertain } = base.priceImpactDistribution;
+    const narrative = items.length
+      ? `${items.length} automotive-relevant articles (magnet ${base.magnetCount}, battery ${base.batteryCount}, ` +
+        `mixed ${base.mixedCount}); price signals up ${up}, down ${down}, uncertain ${uncertain}. ` +
+        `Main drivers: ${base.dominantDrivers.slice(0, 3).join(", ") || "none identified"}.`
+      : "No relevant automotive rare earth articles found.";
+    return { ...base, narrative: narrative.slice(0, 420) };
+  }
+}
+
+function articleText(article: Article): string {
+  return [article.title, article.description, article.fullText ?? article.content].filter(Boolean).join(" ").toLowerCase();
+}
+
+function findTerms(text: string, terms: string[]): string[] {
+  return terms.filter((term) => new RegExp(`\\b${term}\\b`).test(text));
+}
+
+// 0.4 plus 0.1 per unit of evidence, capped
+function confidenceFor(evidence: number, cap = 0.7): number {
+  return Math.min(cap, Math.round((0.4 + 0.1 * evidence) * 10) / 10);
+}
@@ -0,0 +1,48 @@
+import { AppConfig, LlmProviderName } from "../config";
+import { LLM_OPERATIONS, LlmOperation, LlmProvider, RoutingLlmProvider } from "./LlmProvider";
+import { OpenAIService } from "./OpenAIService";
+import { RuleBasedLlmProvider } from "./RuleBasedLlmProvider";
+
+/**
+ * Build the provider for each operation from LLM_PROVIDER / LLM_PROVIDER_<OPERATION>.
+ * Each backend is created once and shared by the operations routed to it.
+ * Restricted sources fall back to the OpenAI-compatible server when LLM_BASE_URL is set and
+ * local, otherwise to the rule-based provider.
+ */
+export function createLlmProvider(cfg: AppConfig): RoutingLlmProvider {
+  const instances = new Map<LlmProviderName, LlmProvider>();
+  const get = (name: LlmProviderName): LlmProvider => {
+    if (!instances.has(name)) instances.set(name, instantiate(name, cfg));
+    return instances.get(name)!;
+  };
+
+  const routes = Object.fromEntries(
+    LLM_OPERATIONS.map((op) => [op, get(cfg.llmProviders[op])])
+  ) as Record<LlmOperation, LlmProvider>;
+  const fallback = cfg.llmBaseUrl && cfg.llmBaseUrlLocal ? get("openai-compatible") : get("rules");
+
+  const disabled = LLM_OPERATIONS.filter((op) => !routes[op].isEnabled(op));
+  if (disabled.length) {
+    console.warn(`[llm] No API key or no support for ${disabled.join(", ")}; these operations use fallback results.`);
+  }
+  return new RoutingLlmProvider(routes, fallback, cfg.llmRestrictedSources);
+}
+
+function instantiate(name: LlmProviderName, cfg: AppConfig): LlmProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAIService(cfg.openAiKey, { model: cfg.openAiModel });
+    case "openai-compatible":
+      if (!cfg.llmBaseUrl) {
+        throw new Error("LLM provider openai-compatible selected but LLM_BASE_URL is not set");
+      }
+      return new OpenAIService(cfg.llmApiKey, {
+        model: cfg.llmModel,
+        baseURL: cfg.llmBaseUrl,
+        local: cfg.llmBaseUrlLocal,
+        responseFormat: cfg.llmResponseFormat,
+      });
+    case "rules":
+      return new RuleBasedLlmProvider();
+  }
+}
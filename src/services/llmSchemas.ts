@@ -0,0 +1,233 @@
+/**
+ * Schemas of the JSON the LLM must return for each operation.
+ * One definition drives both the provider's structured-output request (`toJsonSchema`)
+ * and local validation of the reply (`validateSchema`), which never coerces: a missing
+ * or mistyped field is an error, not a zero.
+ */
+
+import { PRICE_DRIVERS } from "../common/driverTaxonomy";
+import { MARKET_EVENT_TYPE_NAMES } from "../common/marketEvents";
+
+export type FieldSchema =
+  | { type: "boolean" }
+  | { type: "number"; min?: number; max?: number; nullable?: boolean }
+  | { type: "integer"; min?: number }
+  | { type: "string"; maxLength?: number; nullable?: boolean }
+  | { type: "enum"; values: readonly string[] }
+  | { type: "stringArray"; maxItems?: number }
+  | { type: "enumArray"; values: readonly string[]; maxItems?: number }
+  | { type: "object"; properties: Record<string, FieldSchema> }
+  | { type: "objectArray"; properties: Record<string, FieldSchema>; maxItems?: number };
+
+export interface ResponseSchema {
+  name: string;
+  properties: Record<string, FieldSchema>;
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+const TRANSLATED_FIELD: FieldSchema = { type: "string", nullable: true };
+
+export const TRANSLATION_SCHEMA: ResponseSchema = {
+  name: "article_translation",
+  properties: {
+    sourceLanguage: { type: "string", maxLength: 10 },
+    title: TRANSLATED_FIELD,
+    description: TRANSLATED_FIELD,
+    content: TRANSLATED_FIELD,
+    fullText: TRANSLATED_FIELD,
+  },
+};
+
+export const CLASSIFICATION_SCHEMA: ResponseSchema = {
+  name: "classification",
+  properties: {
+    sentiment: { type: "enum", values: ["bullish", "bearish", "neutral"] },
+    impact: { type: "enum", values: ["up", "down", "flat"] },
+    confidence: { type: "number", min: 0, max: 1 },
+  },
+};
+
+export const RELEVANCE_SCHEMA: ResponseSchema = {
+  name: "rare_earth_relevance",
+  properties: {
+    relevant: { type: "boolean" },
+    confidence: { type: "number", min: 0, max: 1 },
+    matchedTerms: { type: "stringArray", maxItems: 20 },
+    rationale: { type: "string", maxLength: 200 },
+    automotiveRelevant: { type: "boolean" },
+    automotiveContextTerms: { type: "stringArray", maxItems: 15 },
+    category: { type: "enum", values: ["magnet", "battery", "mixed", "other"] },
+    usage: { type: "string", maxLength: 120, nullable: true },
+  },
+};
+
+export const PRICE_IMPACT_SCHEMA: ResponseSchema = {
+  name: "rare_earth_price_impact",
+  properties: {
+    direction: { type: "enum", values: ["up", "down", "uncertain"] },
+    confidence: { type: "number", min: 0, max: 1 },
+    drivers: { type: "enumArray", values: PRICE_DRIVERS, maxItems: 3 },
+    reasoning: { type: "string", maxLength: 240 },
+  },
+};
+
+export const EVENTS_SCHEMA: ResponseSchema = {
+  name: "market_events",
+  properties: {
+    events: {
+      type: "objectArray",
+      maxItems: 5,
+      properties: {
+        type: { type: "enum", values: MARKET_EVENT_TYPE_NAMES },
+        country: { type: "string", maxLength: 60, nullable: true },
+        company: { type: "string", maxLength: 80, nullable: true },
+        metal: { type: "string", maxLength: 40, nullable: true },
+        volumeTonnes: { type: "number", min: 0, nullable: true },
+        effectiveDate: { type: "string", maxLength: 10, nullable: true },
+        stance: { type: "enum", values: ["bullish", "bearish", "neutral"] },
+        confidence: { type: "number", min: 0, max: 1 },
+        summary: { type: "string", maxLength: 200 },
+      },
+    },
+  },
+};
+
+const COUNT: FieldSchema = { type: "integer", min: 0 };
+
+export const AGGREGATE_SCHEMA: ResponseSchema = {
+  name: "aggregate_summary",
+  properties: {
+    totalRelevant: COUNT,
+    priceImpactDistribution: { type: "object", properties: { up: COUNT, down: COUNT, uncertain: COUNT } },
+    sentimentDistribution: { type: "object", properties: { bullish: COUNT, bearish: COUNT, neutral: COUNT } },
+    narrative: { type: "string", maxLength: 420 },
+  },
+};
+
+/**
+ * Validate a parsed reply. Over-long strings and arrays are truncated rather than rejected,
+ * matching the length limits the prompts ask for; everything else must match exactly.
+ */
+export function validateSchema<T>(schema: ResponseSchema, value: unknown): ValidationResult<T> {
+  const errors: string[] = [];
+  const result = validateObject(schema.properties, value, "", errors);
+  return errors.length ? { ok: false, errors } : { ok: true, value: result as T };
+}
+
+function validateObject(
+  properties: Record<string, FieldSchema>,
+  value: unknown,
+  path: string,
+  errors: string[]
+): Record<string, unknown> | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    errors.push(`${path || "reply"} must be an object`);
+    return undefined;
+  }
+  const input = value as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(properties)) {
+    out[key] = validateField(field, input[key], path ? `${path}.${key}` : key, errors);
+  }
+  return out;
+}
+
+function validateField(field: FieldSchema, value: unknown, path: string, errors: string[]): unknown {
+  switch (field.type) {
+    case "boolean":
+      if (typeof value !== "boolean") errors.push(`${path} must be a boolean`);
+      return value;
+    case "number": {
+      if (value === null && field.nullable) return null;
+      const inRange =
+        typeof value === "number" && Number.isFinite(value) &&
+        value >= (field.min ?? -Infinity) && value <= (field.max ?? Infinity);
+      if (!inRange) {
+        const range = field.min !== undefined && field.max !== undefined ? ` in [${field.min}, ${field.max}]` : "";
+        errors.push(`${path} must be a number${range}${field.nullable ? " or null" : ""}`);
+      }
+      return value;
+    }
+    case "integer":
+      if (!Number.isInteger(value) || (value as number) < (field.min ?? -Infinity)) {
+        errors.push(`${path} must be an integer${field.min !== undefined ? ` >= ${field.min}` : ""}`);
+      }
+      return value;
+    case "string":
+      if (value === null && field.nullable) return null;
+      if (typeof value !== "string") {
+        errors.push(`${path} must be a string${field.nullable ? " or null" : ""}`);
+        return value;
+      }
+      return field.maxLength ? value.slice(0, field.maxLength) : value;
+    case "enum":
+      if (typeof value !== "string" || !field.values.includes(value)) {
+        errors.push(`${path} must be one of ${field.values.join(" | ")}`);
+      }
+      return value;
+    case "stringArray":
+      if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+        errors.push(`${path} must be an array of strings`);
+        return value;
+      }
+      return field.maxItems ? value.slice(0, field.maxItems) : value;
+    case "enumArray":
+      if (!Array.isArray(value) || value.some((item) => typeof item !== "string" || !field.values.includes(item))) {
+        errors.push(`${path} must be an array of: ${field.values.join(" | ")}`);
+        return value;
+      }
+      return field.maxItems ? value.slice(0, field.maxItems) : value;
+    case "object":
+      return validateObject(field.properties, value, path, errors);
+    case "objectArray":
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array of objects`);
+        return value;
+      }
+      return value
+        .slice(0, field.maxItems ?? value.length)
+        .map((item, idx) => validateObject(field.properties, item, `${path}[${idx}]`, errors));
+  }
+}
+
+/**
+ * JSON Schema for OpenAI structured outputs (strict mode: every property required,
+ * no additional properties). Numeric ranges and length limits are enforced locally.
+ */
+export function toJsonSchema(schema: ResponseSchema): Record<string, unknown> {
+  return objectJsonSchema(schema.properties);
+}
+
+function objectJsonSchema(properties: Record<string, FieldSchema>): Record<string, unknown> {
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      Object.entries(properties).map(([key, field]) => [key, fieldJsonSchema(field)])
+    ),
+    required: Object.keys(properties),
+    additionalProperties: false,
+  };
+}
+
+function fieldJsonSchema(field: FieldSchema): Record<string, unknown> {
+  switch (field.type) {
+    case "boolean":
+    case "integer":
+      return { type: field.type };
+    case "number":
+      return { type: field.nullable ? ["number", "null"] : "number" };
+    case "string":
+      return { type: field.nullable ? ["string", "null"] : "string" };
+    case "enum":
+      return { type: "string", enum: [...field.values] };
+    case "stringArray":
+      return { type: "array", items: { type: "string" } };
+    case "enumArray":
+      return { type: "array", items: { type: "string", enum: [...field.values] } };
+    case "object":
+      return objectJsonSchema(field.properties);
+    case "objectArray":
+      return { type: "array", items: objectJsonSchema(field.properties) };
+  }
+}
@@ -0,0 +1,202 @@
+import {
+  AggregateBreakdown,
+  AggregateReconciliation,
+  AggregatedSummary,
+  ArticleAnalysis,
+  DriverStat,
+  PriceDriver,
+} from "../types";
+import { normalizeDrivers } from "../common/driverTaxonomy";
+
+/** Per-article signals needed for aggregation (the article itself is optional). */
+export type AnalysisSignals = Pick<ArticleAnalysis, "relevance" | "classification" | "priceImpact">;
+
+const DOMINANT_DRIVER_COUNT = 8;
+
+/**
+ * Exact counts, distributions, driver statistics and average confidences over every
+ * per-article result, plus the rule-based suggestion. Only the narrative is left empty
+ * for the caller (an LLM or a template) to fill in.
+ */
+export function computeAggregateMetrics(
+  items: AnalysisSignals[],
+  totalFetched: number
+): AggregatedSummary {
+  const totalRelevant = items.length;
+  const magnetCount = items.filter(
+    (i) => i.relevance.category === "magnet"
+  ).length;
+  const batteryCount = items.filter(
+    (i) => i.relevance.category === "battery"
+  ).length;
+  const mixedCount = items.filter(
+    (i) => i.relevance.category === "mixed"
+  ).length;
+  const otherCount = items.filter(
+    (i) => i.relevance.category === "other"
+  ).length;
+  const avgRelevanceConfidence = totalRelevant
+    ? items.reduce((sum, item) => sum + item.relevance.confidence, 0) / totalRelevant
+    : 0;
+  const avgSentimentConfidence = totalRelevant
+    ? items.reduce((sum, item) => sum + item.classification.confidence, 0) /
+      totalRelevant
+    : 0;
+  const avgPriceImpactConfidence = totalRelevant
+    ? items.reduce((sum, item) => sum + item.priceImpact.confidence, 0) / totalRelevant
+    : 0;
+  const priceImpactDistribution = {
+    up: items.filter((item) => item.priceImpact.direction === "up").length,
+    down: items.filter((item) => item.priceImpact.direction === "down").length,
+    uncertain: items.filter((item) => item.priceImpact.direction === "uncertain")
+      .length,
+  };
+  const sentimentDistribution = {
+    bullish: items.filter((item) => item.classification.sentiment === "bullish")
+      .length,
+    bearish: items.filter((item) => item.classification.sentiment === "bearish")
+      .length,
+    neutral: items.filter((item) => item.classification.sentiment === "neutral")
+      .length,
+  };
+  const driverStats = computeDriverStats(items);
+  const summary: AggregatedSummary = {
+    totalArticles: totalFetched,
+    totalRelevant,
+    magnetCount,
+    batteryCount,
+    mixedCount,
+    otherCount,
+    avgRelevanceConfidence,
+    avgSentimentConfidence,
+    avgPriceImpactConfidence,
+    priceImpactDistribution,
+    sentimentDistribution,
+    dominantDrivers: driverStats
+      .filter((d) => d.driver !== "other")
+      .slice(0, DOMINANT_DRIVER_COUNT)
+      .map((d) => d.driver),
+    driverStats,
+    narrative: "",
+    suggestion: "",
+  };
+  summary.suggestion = inferHeuristicSuggestion(summary);
+  return summary;
+}
+
+/**
+ * How many articles cite each canonical driver and how their price impact leans, most cited
+ * first. Free-text drivers from before the taxonomy are normalized on the way in.
+ */
+export function computeDriverStats(items: AnalysisSignals[]): DriverStat[] {
+  const stats = new Map<PriceDriver, DriverStat>();
+  for (const item of items) {
+    // count each driver once per article
+    for (const driver of normalizeDrivers(item.priceImpact.drivers)) {
+      const stat = stats.get(driver) ?? { driver, count: 0, up: 0, down: 0, uncertain: 0, lean: 0 };
+      stat.count++;
+      stat[item.priceImpact.direction]++;
+      stats.set(driver, stat);
+    }
+  }
+  return [...stats.values()]
+    .map((stat) => ({ ...stat, lean: Math.round(((stat.up - stat.down) / stat.count) * 1000) / 1000 }))
+    .sort((a, b) => b.count - a.count || a.driver.localeCompare(b.driver));
+}
+
+/** Driver statistics of the articles published in one period. */
+export interface DriverTrendPoint {
+  period: string; // first day of the period, YYYY-MM-DD
+  articles: number;
+  drivers: DriverStat[];
+}
+
+/**
+ * Driver statistics per day or per ISO week (starting Monday) of publication.
+ * Undated articles are left out; periods without articles are omitted.
+ */
+export function computeDriverTrend(
+  analyses: ArticleAnalysis[],
+  interval: "day" | "week"
+): DriverTrendPoint[] {
+  const byPeriod = new Map<string, ArticleAnalysis[]>();
+  for (const analysis of analyses) {
+    const published = analysis.article.publishedAt ? new Date(analysis.article.publishedAt) : null;
+    if (!published || isNaN(published.getTime())) continue;
+    if (interval === "week") {
+      published.setUTCDate(published.getUTCDate() - ((published.getUTCDay() + 6) % 7));
+    }
+    const period = published.toISOString().split("T")[0];
+    byPeriod.set(period, [...(byPeriod.get(period) ?? []), analysis]);
+  }
+  return [...byPeriod.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, items]) => ({ period, articles: items.length, drivers: computeDriverStats(items) }));
+}
+
+/**
+ * Counts and distributions of the relevant articles per language or region (`keyOf`), most
+ * relevant first. `fetched` holds the admitted articles per key, relevant or not; keys
+ * without relevant articles are listed too.
+ */
+export function computeAggregateBreakdown(
+  results: ArticleAnalysis[],
+  fetched: Record<string, number>,
+  keyOf: (analysis: ArticleAnalysis) => string
+): AggregateBreakdown[] {
+  const byKey = new Map<string, ArticleAnalysis[]>(Object.keys(fetched).map((key) => [key, []]));
+  for (const result of results) {
+    const key = keyOf(result);
+    byKey.set(key, [...(byKey.get(key) ?? []), result]);
+  }
+  return [...byKey.entries()]
+    .map(([key, items]): AggregateBreakdown => {
+      const { totalRelevant, priceImpactDistribution, sentimentDistribution } = computeAggregateMetrics(items, 0);
+      return { key, totalArticles: fetched[key] ?? 0, totalRelevant, priceImpactDistribution, sentimentDistribution };
+    })
+    .sort((a, b) => b.totalRelevant - a.totalRelevant || b.totalArticles - a.totalArticles || a.key.localeCompare(b.key));
+}
+
+/**
+ * Compare the numbers a model restated against the computed ones.
+ * The computed values are always the ones used; a mismatch only flags the narrative as suspect.
+ */
+export function reconcileAggregate(
+  computed: AggregatedSummary,
+  reported: Pick<AggregatedSummary, "totalRelevant" | "priceImpactDistribution" | "sentimentDistribution">
+): AggregateReconciliation {
+  const mismatches: string[] = [];
+  const check = (field: string, model: number, actual: number) => {
+    if (model !== actual) mismatches.push(`${field}: model ${model}, computed ${actual}`);
+  };
+  check("totalRelevant", reported.totalRelevant, computed.totalRelevant);
+  for (const key of ["up", "down", "uncertain"] as const) {
+    check(`priceImpactDistribution.${key}`, reported.priceImpactDistribution[key], computed.priceImpactDistribution[key]);
+  }
+  for (const key of ["bullish", "bearish", "neutral"] as const) {
+    check(`sentimentDistribution.${key}`, reported.sentimentDistribution[key], computed.sentimentDistribution[key]);
+  }
+  return { consistent: mismatches.length === 0, mismatches };
+}
+
+/**
+ * BUY / HOLD / SELL from the distributions alone: BUY when up and bullish clearly dominate,
+ * SELL when down and bearish do, HOLD otherwise. The rationale cites the exact counts.
+ */
+export function inferHeuristicSuggestion(base: AggregatedSummary): string {
+  const { priceImpactDistribution: pid, sentimentDistribution: sd } = base;
+  let action: "BUY" | "SELL" | "HOLD" = "HOLD";
+  if (
+    pid.up > pid.down &&
+    sd.bullish > sd.bearish &&
+    pid.up >= pid.down + pid.uncertain
+  )
+    action = "BUY";
+  else if (
+    pid.down > pid.up &&
+    sd.bearish > sd.bullish &&
+    pid.down >= pid.up + pid.uncertain
+  )
+    action = "SELL";
+  return `${action}: price signals up ${pid.up} / down ${pid.down} / uncertain ${pid.uncertain}, sentiment bullish ${sd.bullish} / bearish ${sd.bearish} (informational, not financial advice)`;
+}
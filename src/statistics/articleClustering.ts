@@ -0,0 +1,146 @@
+import { Article } from "../types";
+
+/** Syndicated copies of one story; the representative is analyzed on behalf of all members. */
+export interface ArticleCluster {
+  representative: Article;
+  members: Article[]; // every copy including the representative, representative first
+}
+
+export interface ClusteringOptions {
+  threshold: number; // minimum Jaccard similarity of title + lead shingles to treat two articles as copies
+  preference?: (article: Article) => number; // higher wins the representative slot (e.g. source credibility)
+}
+
+const SHINGLE_WORDS = 3;
+const LEAD_WORDS = 60;
+const BANDS = 32;
+const ROWS_PER_BAND = 4;
+const SEEDS = Array.from({ length: BANDS * ROWS_PER_BAND }, (_, i) => mix32(0x9e3779b9 ^ Math.imul(i + 1, 0x85ebca6b)));
+
+/**
+ * Group near-duplicate articles (the same wire story carried by several outlets).
+ * Candidates come from MinHash signatures of title + lead word shingles with LSH banding,
+ * so the cost stays linear in the article count; a candidate pair joins when the exact
+ * shingle Jaccard similarity reaches `threshold`, and clusters are closed transitively.
+ * Representative: highest `preference`, then the longest text, then the earliest publication.
+ * Clusters come back in the input order of their first member.
+ */
+export function clusterArticles(articles: Article[], options: ClusteringOptions): ArticleCluster[] {
+  const shingles = articles.map(articleShingles);
+  const parent = articles.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  const buckets = new Map<string, number[]>();
+  shingles.forEach((set, i) => {
+    if (!set.size) return;
+    const signature = minHash(set);
+    for (let band = 0; band < BANDS; band++) {
+      const key = `${band}:${signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND).join(",")}`;
+      buckets.set(key, [...(buckets.get(key) ?? []), i]);
+    }
+  });
+
+  const compared = new Set<string>();
+  for (const bucket of buckets.values()) {
+    for (let a = 0; a < bucket.length; a++) {
+      for (let b = a + 1; b < bucket.length; b++) {
+        const [i, j] = [bucket[a], bucket[b]];
+        const pair = `${i}:${j}`;
+        if (compared.has(pair) || find(i) === find(j)) continue;
+        compared.add(pair);
+        if (jaccard(shingles[i], shingles[j]) >= options.threshold) parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, Article[]>();
+  articles.forEach((article, i) => groups.set(find(i), [...(groups.get(find(i)) ?? []), article]));
+  const preference = options.preference ?? (() => 0);
+  return [...groups.values()].map((members) => {
+    const representative = [...members].sort(
+      (a, b) =>
+        preference(b) - preference(a) ||
+        textLength(b) - textLength(a) ||
+        publishedTime(a) - publishedTime(b)
+    )[0];
+    return { representative, members: [representative, ...members.filter((m) => m !== representative)] };
+  });
+}
+
+/** Word shingles of the title (without a trailing " - Outlet" tag) and the first words of the lead. */
+function articleShingles(article: Article): Set<string> {
+  const title = stripOutletSuffix(article.title, article.source);
+  const lead = tokenize(article.description || article.content || "").slice(0, LEAD_WORDS);
+  const words = [...tokenize(title), ...lead];
+  if (words.length < SHINGLE_WORDS) return new Set(words);
+  const shingles = new Set<string>();
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_WORDS).join(" "));
+  }
+  return shingles;
+}
+
+function stripOutletSuffix(title: string, source: string): string {
+  const match = title.match(/^(.*\S)\s+[-–—|]\s+([^-–—|]+)$/);
+  if (!match) return title;
+  const suffix = match[2].trim().toLowerCase();
+  const outlet = source.toLowerCase();
+  return suffix && (outlet.includes(suffix) || suffix.includes(outlet)) ? match[1] : title;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .split(" ")
+    .filter(Boolean);
+}
+
+function minHash(shingles: Set<string>): number[] {
+  const signature = new Array<number>(SEEDS.length).fill(0xffffffff);
+  for (const shingle of shingles) {
+    const hash = fnv1a(shingle);
+    for (let k = 0; k < SEEDS.length; k++) {
+      const value = mix32(hash ^ SEEDS[k]);
+      if (value < signature[k]) signature[k] = value;
+    }
+  }
+  return signature;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const item of a) if (b.has(item)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+function textLength(article: Article): number {
+  return (article.description?.length ?? 0) + (article.content?.length ?? 0);
+}
+
+// Undated articles sort after dated ones
+function publishedTime(article: Article): number {
+  const time = article.publishedAt ? Date.parse(article.publishedAt) : NaN;
+  return Number.isNaN(time) ? Number.MAX_SAFE_INTEGER : time;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// murmur3 finalizer: spreads every input bit over the whole 32-bit output
+function mix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
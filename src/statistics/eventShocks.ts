@@ -0,0 +1,62 @@
+import { EventShock, MarketEvent } from "../types";
+import { MARKET_EVENT_TYPES } from "../common/marketEvents";
+import { NewsSignal, NewsWeightingOptions, recencyDecay, sourceCredibility, storySince } from "./newsWeighting";
+
+export interface EventShockResult {
+  shockPercent: number; // sum of all shocks, clamped to ±maxShockPercent
+  shocks: EventShock[]; // per event, largest |shockPercent| first
+}
+
+const STANCE_SIGN = { bullish: 1, bearish: -1, neutral: 0 } as const;
+const BASE_SHOCK = Object.fromEntries(MARKET_EVENT_TYPES.map((d) => [d.type, d.baseShockPercent]));
+
+/**
+ * Discrete price shocks (percentage points over the horizon) from the market events in `signals`.
+ * Each event moves the price by its type's base shock, signed by stance and scaled by its
+ * confidence, its source's credibility and recency, times `exposure` (0 leaves the event out,
+ * e.g. a different metal's event). Recency runs from the effective date, else from when the
+ * story first broke: follow-up coverage of an old story carries an old, decayed shock rather
+ * than a new one. The same event reported by several articles counts once, at its strongest.
+ */
+export function computeEventShocks(
+  signals: NewsSignal[],
+  options: NewsWeightingOptions,
+  maxShockPercent: number,
+  exposure: (event: MarketEvent) => number = () => 1,
+  asOf: Date = new Date()
+): EventShockResult {
+  const strongest = new Map<string, EventShock>();
+  for (const signal of signals) {
+    const since = storySince(signal);
+    for (const event of signal.events ?? []) {
+      const shockPercent =
+        exposure(event) *
+        BASE_SHOCK[event.type] *
+        STANCE_SIGN[event.stance] *
+        event.confidence *
+        sourceCredibility(signal.article, options) *
+        recencyDecay(event.effectiveDate ?? since ?? signal.article?.publishedAt, asOf, options.halfLifeDays);
+      if (shockPercent === 0) continue;
+
+      const key = [event.type, event.company, event.country, event.metal, event.effectiveDate]
+        .map((part) => String(part ?? "").toLowerCase())
+        .join("|");
+      const existing = strongest.get(key);
+      if (!existing || Math.abs(shockPercent) > Math.abs(existing.shockPercent)) {
+        strongest.set(key, {
+          event,
+          articleUrl: signal.article?.url ?? "",
+          shockPercent: Math.round(shockPercent * 1000) / 1000,
+          ...(!event.effectiveDate && since && { storySince: since }),
+        });
+      }
+    }
+  }
+
+  const shocks = [...strongest.values()].sort((a, b) => Math.abs(b.shockPercent) - Math.abs(a.shockPercent));
+  const total = shocks.reduce((sum, s) => sum + s.shockPercent, 0);
+  return {
+    shockPercent: Math.round(Math.max(-maxShockPercent, Math.min(maxShockPercent, total)) * 1000) / 1000,
+    shocks,
+  };
+}
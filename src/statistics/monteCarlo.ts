@@ -0,0 +1,91 @@
+import { ForecastBand } from '../types';
+
+export interface SimulationOptions {
+  startPrice: number;
+  dailyReturns: number[];   // empirical daily returns (%); empty → Gaussian with fallbackDailyStdDev
+  targetChangePercent: number; // news-derived drift: expected total % change over the horizon
+  horizonDays?: number;
+  paths?: number;
+  fallbackDailyStdDev?: number; // % daily std dev used when there are too few empirical returns
+  seed?: number;
+}
+
+const MIN_EMPIRICAL_RETURNS = 5;
+
+/**
+ * Monte Carlo forecast bands by bootstrap resampling of empirical daily returns.
+ * The historical mean is removed from the returns and replaced by a constant daily drift
+ * that compounds to `targetChangePercent`, so the median path tracks the news-driven
+ * prediction while the spread reflects realized volatility.
+ * Seeded for reproducible output.
+ */
+export function simulateForecastBands({
+  startPrice,
+  dailyReturns,
+  targetChangePercent,
+  horizonDays = 14,
+  paths = 2000,
+  fallbackDailyStdDev = 1,
+  seed = 42,
+}: SimulationOptions): ForecastBand[] {
+  const random = mulberry32(seed);
+  const dailyDrift = (Math.pow(1 + targetChangePercent / 100, 1 / horizonDays) - 1) * 100;
+
+  const useEmpirical = dailyReturns.length >= MIN_EMPIRICAL_RETURNS;
+  const mean = useEmpirical ? dailyReturns.reduce((a, b) => a + b, 0) / dailyReturns.length : 0;
+  const shocks = useEmpirical ? dailyReturns.map(r => r - mean) : [];
+  const drawShock = useEmpirical
+    ? () => shocks[Math.floor(random() * shocks.length)]
+    : () => gaussian(random) * fallbackDailyStdDev;
+
+  // pricesByDay[d][p] = price of path p at day d+1
+  const pricesByDay: number[][] = Array.from({ length: horizonDays }, () => new Array(paths));
+  for (let p = 0; p < paths; p++) {
+    let price = startPrice;
+    for (let d = 0; d < horizonDays; d++) {
+      price *= 1 + (dailyDrift + drawShock()) / 100;
+      pricesByDay[d][p] = price;
+    }
+  }
+
+  const round = (v: number) => Math.round(v * 100) / 100;
+  return pricesByDay.map((prices, d) => {
+    prices.sort((a, b) => a - b);
+    return {
+      day: d + 1,
+      p5:  round(percentile(prices, 5)),
+      p25: round(percentile(prices, 25)),
+      p50: round(percentile(prices, 50)),
+      p75: round(percentile(prices, 75)),
+      p95: round(percentile(prices, 95)),
+    };
+  });
+}
+
+// Linear interpolation between closest ranks on an ascending array
+function percentile(sorted: number[], pct: number): number {
+  if (!sorted.length) return 0;
+  const rank = (pct / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+// Small, fast seeded PRNG (uniform on [0, 1))
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draw via Box–Muller
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,171 @@
+import { Article, ArticleAnalysis } from "../types";
+import { AppConfig, getConfig } from "../config";
+import { SourceRegistry, getSourceRegistry, isBlockedSource } from "../common/sourceRegistry";
+import { AnalysisSignals } from "./aggregateStatistics";
+
+/**
+ * Per-article signals plus the article they came from (needed for source and recency weights),
+ * the market events it reported, how many outlets carried the story and the story thread it belongs to.
+ */
+export type NewsSignal = AnalysisSignals &
+  Partial<Pick<ArticleAnalysis, "article" | "events" | "coverage" | "thread">>;
+
+export interface NewsWeightingOptions {
+  halfLifeDays: number; // age at which an article counts half
+  sentimentWeight: number; // share of sentiment in the combined score; price impact gets the rest
+  sourceCredibility: Record<string, number>; // source registry id, name or domain (lowercase) → 0..1
+  defaultSourceCredibility: number; // for sources not listed
+  coverageWeight: number; // weight multiplier is 1 + coverageWeight × ln(outlets carrying the story)
+}
+
+/** One article's share of the combined news score. */
+export interface ArticleContribution {
+  signal: NewsSignal;
+  weight: number; // credibility × recency × coverage, before signal confidences
+  contribution: number; // signed share of the combined score
+}
+
+export interface WeightedNewsScores {
+  sentimentScore: number; // -1..+1
+  priceImpactScore: number; // -1..+1
+  combinedScore: number; // -1..+1
+  contributions: ArticleContribution[]; // sorted by |contribution|, largest first
+}
+
+/**
+ * Weighting options from config. Registered sources count with their registry credibility
+ * (looked up by id, name, alias or domain); SOURCE_CREDIBILITY entries override it.
+ */
+export function newsWeightingFromConfig(
+  cfg: AppConfig = getConfig(),
+  registry: SourceRegistry = getSourceRegistry()
+): NewsWeightingOptions {
+  const registered = registry.sources.flatMap((s) =>
+    [s.id, s.name, ...s.aliases, ...s.domains].map((key): [string, number] => [key.toLowerCase(), s.credibility])
+  );
+  return {
+    halfLifeDays: cfg.newsHalfLifeDays,
+    sentimentWeight: cfg.sentimentWeight,
+    sourceCredibility: { ...Object.fromEntries(registered), ...cfg.sourceCredibility },
+    defaultSourceCredibility: cfg.defaultSourceCredibility,
+    coverageWeight: cfg.coverageWeight,
+  };
+}
+
+const SENTIMENT_VALUE = { bullish: 1, bearish: -1, neutral: 0 } as const;
+const IMPACT_VALUE = { up: 1, down: -1, uncertain: 0 } as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sentiment and price impact scores where each article counts by its own confidence,
+ * its source's credibility, exp. decay on its age (half-life `halfLifeDays`) and, log-damped,
+ * the number of outlets that syndicated it (one vote per story, a wider story a louder one).
+ * Fallback results (no model output) carry no weight. Undated articles count as fresh.
+ */
+export function computeWeightedNewsScores(
+  signals: NewsSignal[],
+  options: NewsWeightingOptions,
+  asOf: Date = new Date(),
+): WeightedNewsScores {
+  const weights = signals.map(
+    (s) =>
+      sourceCredibility(s.article, options) *
+      recencyDecay(s.article?.publishedAt, asOf, options.halfLifeDays) *
+      (1 + options.coverageWeight * Math.log(Math.max(1, s.coverage ?? 1)))
+  );
+
+  const sentimentWeights = signals.map((s, i) =>
+    s.classification.fallbackReason ? 0 : weights[i] * s.classification.confidence,
+  );
+  const impactWeights = signals.map((s, i) =>
+    s.priceImpact.fallbackReason ? 0 : weights[i] * s.priceImpact.confidence,
+  );
+  const sentimentTotal = sentimentWeights.reduce((a, b) => a + b, 0);
+  const impactTotal = impactWeights.reduce((a, b) => a + b, 0);
+
+  const contributions = signals.map((signal, i) => {
+    const sentimentShare = sentimentTotal
+      ? (sentimentWeights[i] * SENTIMENT_VALUE[signal.classification.sentiment]) / sentimentTotal
+      : 0;
+    const impactShare = impactTotal
+      ? (impactWeights[i] * IMPACT_VALUE[signal.priceImpact.direction]) / impactTotal
+      : 0;
+    return {
+      signal,
+      weight: weights[i],
+      sentimentShare,
+      impactShare,
+      contribution: sentimentShare * options.sentimentWeight + impactShare * (1 - options.sentimentWeight),
+    };
+  });
+
+  const sentimentScore = clampScore(contributions.reduce((sum, c) => sum + c.sentimentShare, 0));
+  const priceImpactScore = clampScore(contributions.reduce((sum, c) => sum + c.impactShare, 0));
+  return {
+    sentimentScore,
+    priceImpactScore,
+    combinedScore: sentimentScore * options.sentimentWeight + priceImpactScore * (1 - options.sentimentWeight),
+    contributions: contributions
+      .map(({ signal, weight, contribution }) => ({ signal, weight, contribution }))
+      .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution)),
+  };
+}
+
+/** Credibility of the article's registered source id or source name, else of its URL host (or parent domain). */
+export function sourceCredibility(article: Article | undefined, options: NewsWeightingOptions): number {
+  if (!article) return options.defaultSourceCredibility;
+  const byName =
+    options.sourceCredibility[article.sourceId ?? ""] ?? options.sourceCredibility[article.source?.toLowerCase() ?? ""];
+  if (byName !== undefined) return byName;
+  let host = "";
+  try {
+    host = new URL(article.url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return options.defaultSourceCredibility;
+  }
+  for (let domain = host; domain.includes("."); domain = domain.slice(domain.indexOf(".") + 1)) {
+    const byDomain = options.sourceCredibility[domain];
+    if (byDomain !== undefined) return byDomain;
+  }
+  return options.defaultSourceCredibility;
+}
+
+/**
+ * Why articles of this source are kept out of analysis: blocked (registry block list or
+ * BLOCKED_SOURCES), or less credible than MIN_SOURCE_CREDIBILITY. Undefined when admitted.
+ */
+export function sourceExclusion(
+  article: Article,
+  cfg: AppConfig = getConfig(),
+  options: NewsWeightingOptions = newsWeightingFromConfig(cfg)
+): string | undefined {
+  const registry = getSourceRegistry();
+  if (isBlockedSource(article, [...registry.blocked, ...cfg.blockedSources], registry)) return "blocked";
+  const credibility = sourceCredibility(article, options);
+  if (credibility < cfg.minSourceCredibility) {
+    return `credibility ${credibility} below MIN_SOURCE_CREDIBILITY ${cfg.minSourceCredibility}`;
+  }
+  return undefined;
+}
+
+/**
+ * First-seen date of the signal's story thread when the article continues a story that broke
+ * on an earlier day, else undefined (the article is, or starts, the news itself).
+ */
+export function storySince(signal: NewsSignal): string | undefined {
+  const firstSeen = signal.thread?.firstSeenAt.split("T")[0];
+  const published = signal.article?.publishedAt?.split("T")[0];
+  return firstSeen && published && firstSeen < published ? firstSeen : undefined;
+}
+
+/** 0.5 ^ (age / half-life) for a date; undated, future or unparseable dates count as fresh. */
+export function recencyDecay(date: string | undefined, asOf: Date, halfLifeDays: number): number {
+  const time = date ? Date.parse(date) : NaN;
+  if (Number.isNaN(time) || halfLifeDays <= 0) return 1;
+  const ageDays = Math.max(0, (asOf.getTime() - time) / DAY_MS);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+function clampScore(score: number): number {
+  return Math.max(-1, Math.min(1, score));
+}
@@ -1,11 +1,12 @@
-import { MetalSymbol, PriceStatistics } from '../types';
+import {
+  MetalPriceHistory,
+  MetalSymbol,
+  PriceDataSummary,
+  PriceStatistics,
+} from '../types';
+import { MetalUniverse, getMetalUniverse } from '../common/metalUniverse';
 
-const BASKET_WEIGHTS: Record<MetalSymbol, number> = {
-  ND: 0.40, // Neodymium oxide
-  PR: 0.20, // Praseodymium oxide
-  LI: 0.30, // Lithium carbonate 
-  CO: 0.10, // Cobalt
-};
+type MetalSeries = Record<MetalSymbol, Array<{ date: string; priceUsd: number }>>;
 
  // Compute daily percentage returns: [(p[i] - p[i-1]) / p[i-1]] * 100
 export function computeDailyReturns(prices: number[]): number[] {
@@ -44,23 +45,62 @@ export function computeRollingVolatility(
  // Compute the weighted basket price (USD/kg) from a snapshot of latest prices.
 export function computeBasketPrice(
   latestPrices: Record<MetalSymbol, number>,
+  weights: Record<MetalSymbol, number> = getMetalUniverse().weights,
 ): number {
-  return (Object.keys(BASKET_WEIGHTS) as MetalSymbol[]).reduce(
-    (sum, s) => sum + (latestPrices[s] ?? 0) * BASKET_WEIGHTS[s],
+  return Object.keys(weights).reduce(
+    (sum, s) => sum + (latestPrices[s] ?? 0) * weights[s],
     0,
   );
 }
 
+/**
+ * Basket weights restricted to metals that actually have price data, renormalized to sum to 1.
+ * Lets a basket still be priced when e.g. the seed data lacks one of its metals.
+ */
+export function availableBasketWeights(
+  metalPrices: MetalSeries,
+  universe: MetalUniverse = getMetalUniverse(),
+): Record<MetalSymbol, number> {
+  const available = universe.metals.filter(m => (metalPrices[m.symbol]?.length ?? 0) > 0);
+  const total = available.reduce((sum, m) => sum + m.weightInBasket, 0);
+  return Object.fromEntries(available.map(m => [m.symbol, total ? m.weightInBasket / total : 0]));
+}
+
 /**
  * Derive all PriceStatistics from the per-metal price series.
- * Only dates where ALL four metals have a price are included in the basket.
+ * Only dates where ALL basket metals with data have a price are included in the basket.
  */
 export function computePriceStatistics(
-  metalPrices: Record<MetalSymbol, Array<{ date: string; priceUsd: number }>>,
+  metalPrices: MetalSeries,
+  universe: MetalUniverse = getMetalUniverse(),
 ): PriceStatistics {
-  const symbols: MetalSymbol[] = ['ND', 'PR', 'LI', 'CO'];
+  const basketPrices = computeBasketSeries(metalPrices, universe).map(p => p.priceUsd);
 
-  // Build date → { ND, PR, LI, CO } map
+  const returns = computeDailyReturns(basketPrices);
+  const round = (v: number) => Math.round(v * 1000) / 1000;
+
+  return {
+    rollingVolatility14d: round(computeRollingVolatility(basketPrices)),
+    empiricalStdDev:      round(computeStdDev(returns)),
+    avgDailyReturn:       round(returns.length ? returns.reduce((a, b) => a + b, 0) / returns.length : 0),
+    maxReturn:            round(returns.length ? Math.max(...returns) : 0),
+    minReturn:            round(returns.length ? Math.min(...returns) : 0),
+    dataPointCount:       basketPrices.length,
+  };
+}
+
+/**
+ * Daily (unrounded) basket price series over trading days with complete data for all metals,
+ * ascending by date.
+ */
+export function computeBasketSeries(
+  metalPrices: MetalSeries,
+  universe: MetalUniverse = getMetalUniverse(),
+): Array<{ date: string; priceUsd: number }> {
+  const weights = availableBasketWeights(metalPrices, universe);
+  const symbols = Object.keys(weights);
+
+  // Build date → { symbol: price } map
   const dateMap = new Map<string, Partial<Record<MetalSymbol, number>>>();
   for (const symbol of symbols) {
     for (const { date, priceUsd } of metalPrices[symbol] ?? []) {
@@ -70,23 +110,83 @@ export function computePriceStatistics(
   }
 
   // Keep only trading days with complete data for all metals
-  const completeDates = [...dateMap.keys()]
+  return [...dateMap.keys()]
     .sort()
-    .filter(d => symbols.every(s => dateMap.get(d)![s] != null));
+    .filter(d => symbols.every(s => dateMap.get(d)![s] != null))
+    .map(d => ({
+      date: d,
+      priceUsd: computeBasketPrice(dateMap.get(d) as Record<MetalSymbol, number>, weights),
+    }));
+}
 
-  const basketPrices = completeDates.map(d =>
-    computeBasketPrice(dateMap.get(d) as Record<MetalSymbol, number>),
-  );
+/**
+ * Merge per-metal histories from several price summaries into one series per metal.
+ * Later sources override earlier ones on the same date.
+ */
+export function mergeMetalSeries(
+  sources: Array<Record<MetalSymbol, { prices: Array<{ date: string; priceUsd: number }> }>>,
+): MetalSeries {
+  const merged = new Map<MetalSymbol, Map<string, number>>();
+  for (const source of sources) {
+    for (const symbol of Object.keys(source)) {
+      if (!merged.has(symbol)) merged.set(symbol, new Map());
+      for (const { date, priceUsd } of source[symbol].prices) {
+        merged.get(symbol)!.set(date, priceUsd);
+      }
+    }
+  }
+  const result: MetalSeries = {};
+  for (const [symbol, byDate] of merged) {
+    result[symbol] = [...byDate.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, priceUsd]) => ({ date, priceUsd }));
+  }
+  return result;
+}
 
-  const returns = computeDailyReturns(basketPrices);
-  const round = (v: number) => Math.round(v * 1000) / 1000;
+/**
+ * Build a full PriceDataSummary from per-metal price series (used by the fetcher and the backtest).
+ * Series may be unsorted; the basket price is taken on the last date with all metals present.
+ */
+export function summarizePriceSeries(
+  metalPrices: MetalSeries,
+  source: PriceDataSummary['source'],
+  fetchedAt = new Date().toISOString(),
+  universe: MetalUniverse = getMetalUniverse(),
+): PriceDataSummary {
+  const metals = {} as Record<MetalSymbol, MetalPriceHistory>;
+  const allDates = new Set<string>();
+  for (const { symbol, name, weightInBasket } of universe.metals) {
+    const series = [...(metalPrices[symbol] ?? [])].sort((a, b) => a.date.localeCompare(b.date));
+    if (!series.length) continue; // metal without data is left out of the summary
+    const pxValues = series.map(s => s.priceUsd);
+    const avgPrice =
+      pxValues.length > 0
+        ? Math.round((pxValues.reduce((a, b) => a + b, 0) / pxValues.length) * 100) / 100
+        : 0;
+    series.forEach(s => allDates.add(s.date));
+
+    metals[symbol] = {
+      symbol,
+      name,
+      weightInBasket,
+      prices: series,
+      latestPrice: pxValues[pxValues.length - 1] ?? 0,
+      avgPrice,
+    };
+  }
+
+  const sortedDates = [...allDates].sort();
+  const basketSeries = computeBasketSeries(metalPrices, universe);
+  const lastBasket = basketSeries[basketSeries.length - 1]?.priceUsd ?? 0;
 
   return {
-    rollingVolatility14d: round(computeRollingVolatility(basketPrices)),
-    empiricalStdDev:      round(computeStdDev(returns)),
-    avgDailyReturn:       round(returns.length ? returns.reduce((a, b) => a + b, 0) / returns.length : 0),
-    maxReturn:            round(returns.length ? Math.max(...returns) : 0),
-    minReturn:            round(returns.length ? Math.min(...returns) : 0),
-    dataPointCount:       basketPrices.length,
+    fetchedAt,
+    periodStart: sortedDates[0] ?? '',
+    periodEnd: sortedDates[sortedDates.length - 1] ?? '',
+    source,
+    metals,
+    basketPrice: Math.round(lastBasket * 100) / 100,
+    statistics: computePriceStatistics(metalPrices, universe),
   };
 }
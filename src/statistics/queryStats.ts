@@ -0,0 +1,63 @@
+import { NewsQuerySpec } from "../common/querySets";
+import { StoredQueryFetch } from "../storage/SqliteStore";
+
+/** Yield and relevance of one query over the requests made with it. */
+export interface QueryStats {
+  id: string;
+  query: string;
+  active: boolean; // part of the query set fetched with now
+  fetches: number; // requests made with the query
+  articles: number; // distinct articles returned
+  articlesPerFetch: number;
+  exclusive: number; // articles no other query returned; 0 means the query adds nothing
+  analyzed: number; // articles with an analysis
+  relevant: number; // analyzed articles relevant to the automotive basket
+  relevanceRate: number | null; // relevant / analyzed; null before any analysis
+  lastFetchedAt: string;
+}
+
+/**
+ * Per-query statistics over query requests, most relevant articles first. Queries are told
+ * apart by their text, so a query set edit starts new statistics for the changed queries.
+ */
+export function computeQueryStats(fetches: StoredQueryFetch[], active: NewsQuerySpec[] = []): QueryStats[] {
+  const groups = new Map<string, StoredQueryFetch[]>();
+  for (const fetch of fetches) {
+    const key = `${fetch.queryId}\n${fetch.query}`;
+    groups.set(key, [...(groups.get(key) ?? []), fetch]);
+  }
+
+  // Queries returning each article, to find those only one query brings in
+  const queriesByUrl = new Map<string, Set<string>>();
+  for (const [key, group] of groups) {
+    for (const { url } of group.flatMap((f) => f.articles)) {
+      queriesByUrl.set(url, (queriesByUrl.get(url) ?? new Set()).add(key));
+    }
+  }
+
+  const activeQueries = new Set(active.map((q) => q.query));
+  const stats = [...groups.values()].map((group): QueryStats => {
+    const articles = new Map(group.flatMap((f) => f.articles).map((a) => [a.url, a.relevance]));
+    const analyzed = [...articles.values()].filter((relevance) => relevance !== undefined);
+    const relevant = analyzed.filter((relevance) => relevance!.relevant && relevance!.automotiveRelevant).length;
+    return {
+      id: group[0].queryId,
+      query: group[0].query,
+      active: activeQueries.has(group[0].query),
+      fetches: group.length,
+      articles: articles.size,
+      articlesPerFetch: round(group.reduce((sum, f) => sum + f.articles.length, 0) / group.length),
+      exclusive: [...articles.keys()].filter((url) => queriesByUrl.get(url)!.size === 1).length,
+      analyzed: analyzed.length,
+      relevant,
+      relevanceRate: analyzed.length ? round(relevant / analyzed.length) : null,
+      lastFetchedAt: group[group.length - 1].fetchedAt,
+    };
+  });
+
+  return stats.sort((a, b) => b.relevant - a.relevant || b.articles - a.articles || a.id.localeCompare(b.id));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,109 @@
+import { Article, Classification, RareEarthPriceImpact, RareEarthRelevance } from "../types";
+import { SourceRegistry, SourceTier, getSourceRegistry, resolveSource, sourceKey } from "../common/sourceRegistry";
+import { NewsWeightingOptions, sourceCredibility } from "./newsWeighting";
+
+/** One analyzed article (the latest analysis of it); classification and price impact only when relevant. */
+export interface SourceAnalysisInput {
+  article: Article;
+  relevance: RareEarthRelevance;
+  classification?: Classification;
+  priceImpact?: RareEarthPriceImpact;
+}
+
+/** What one outlet contributed to the analyses of a window and how its calls turned out. */
+export interface SourceStats {
+  id: string; // registry id, else the outlet's host (or lowercased name)
+  name: string;
+  registered: boolean;
+  tier?: SourceTier;
+  region?: string;
+  paywall?: boolean;
+  credibility: number; // weight of its articles in the prediction
+  excluded?: string; // why its articles are no longer analyzed
+  articles: number; // analyzed articles
+  relevant: number; // automotive-relevant articles
+  relevantShare: number; // relevant / articles
+  sentiment: { bullish: number; bearish: number; neutral: number }; // relevant articles with a model classification
+  averageSentiment: number | null; // bullish +1, bearish -1, neutral 0; null without model classifications
+  averagePriceImpact: number | null; // up +1, down -1, uncertain 0; null without model assessments
+  predictive: {
+    evaluated: number; // up/down price impact calls with a realized basket move over the horizon
+    hits: number; // calls the realized move went along with
+    hitRate: number | null;
+  };
+}
+
+export interface SourceStatsOptions {
+  weighting: NewsWeightingOptions;
+  exclusion?: (article: Article) => string | undefined;
+  realizedChange?: (asOf: string) => number | undefined; // realized basket % change over the horizon from a date
+  flatThresholdPercent: number; // |realized change| below this confirms neither direction
+}
+
+const SENTIMENT_VALUE = { bullish: 1, bearish: -1, neutral: 0 } as const;
+const IMPACT_VALUE = { up: 1, down: -1, uncertain: 0 } as const;
+
+/**
+ * Per-source contribution, sentiment and predictiveness over analyzed articles, most
+ * relevant articles first. Fallback results (no model output) count as analyzed but not
+ * towards sentiment, price impact or predictiveness.
+ */
+export function computeSourceStats(
+  analyses: SourceAnalysisInput[],
+  options: SourceStatsOptions,
+  registry: SourceRegistry = getSourceRegistry()
+): SourceStats[] {
+  const groups = new Map<string, SourceAnalysisInput[]>();
+  for (const analysis of analyses) {
+    const key = sourceKey(analysis.article, registry);
+    groups.set(key, [...(groups.get(key) ?? []), analysis]);
+  }
+
+  const stats = [...groups].map(([id, group]): SourceStats => {
+    const first = group[0].article;
+    const profile = registry.byId[id] ?? resolveSource(first, registry);
+    const relevant = group.filter((a) => a.relevance.relevant && a.relevance.automotiveRelevant);
+    const classified = relevant.filter((a) => a.classification && !a.classification.fallbackReason);
+    const assessed = relevant.filter((a) => a.priceImpact && !a.priceImpact.fallbackReason);
+
+    let evaluated = 0;
+    let hits = 0;
+    for (const { article, priceImpact } of assessed) {
+      const date = article.publishedAt?.split("T")[0];
+      const change = date && priceImpact!.direction !== "uncertain" ? options.realizedChange?.(date) : undefined;
+      if (change === undefined) continue;
+      evaluated++;
+      const signed = priceImpact!.direction === "up" ? change : -change;
+      if (signed >= options.flatThresholdPercent) hits++;
+    }
+
+    const sentiment = { bullish: 0, bearish: 0, neutral: 0 };
+    classified.forEach((a) => sentiment[a.classification!.sentiment]++);
+    const excluded = options.exclusion?.(first);
+    return {
+      id,
+      name: profile?.name ?? first.source,
+      registered: !!profile,
+      ...(profile && { tier: profile.tier, region: profile.region, paywall: profile.paywall }),
+      credibility: sourceCredibility(first, options.weighting),
+      ...(excluded && { excluded }),
+      articles: group.length,
+      relevant: relevant.length,
+      relevantShare: round(relevant.length / group.length),
+      sentiment,
+      averageSentiment: classified.length
+        ? round(classified.reduce((sum, a) => sum + SENTIMENT_VALUE[a.classification!.sentiment], 0) / classified.length)
+        : null,
+      averagePriceImpact: assessed.length
+        ? round(assessed.reduce((sum, a) => sum + IMPACT_VALUE[a.priceImpact!.direction], 0) / assessed.length)
+        : null,
+      predictive: { evaluated, hits, hitRate: evaluated ? round(hits / evaluated) : null },
+    };
+  });
+
+  return stats.sort((a, b) => b.relevant - a.relevant || b.articles - a.articles || a.id.localeCompare(b.id));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,174 @@
+import { randomBytes } from "crypto";
+import { ArticleAnalysis, Sentiment, StoryThread, StoryThreadLink } from "../types";
+
+/** Persisted thread: the public view plus the profile new articles are matched against. */
+export interface ThreadState extends StoryThread {
+  keywordCounts: Record<string, number>; // keyword → articles using it
+  entityCounts: Record<string, number>; // entity id → articles mentioning it
+  headlines: ThreadHeadline[]; // latest first, at most HEADLINES
+}
+
+export interface ThreadHeadline {
+  title: string;
+  source: string;
+  publishedAt: string;
+  sentiment: Sentiment;
+}
+
+export interface ThreadingOptions {
+  similarity: number; // minimum match score (0..1) to continue a thread instead of starting one
+  windowDays: number; // a thread takes new articles until this long after its latest one
+}
+
+/** An analyzed article to thread, with the catalog entities it mentions. */
+export interface ThreadCandidate {
+  analysis: ArticleAnalysis;
+  entityIds: string[];
+}
+
+const PROFILE_KEYWORDS = 25;
+const LEAD_WORDS = 30;
+const HEADLINES = 3;
+const MIN_SHARED_KEYWORDS = 2;
+const KEYWORD_SHARE = 0.6; // rest of the score comes from shared entities
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Function words plus vocabulary every article in this domain shares; neither tells stories apart
+const STOPWORDS = new Set(
+  (
+    "the a an and or but of to in on for with by from at as is are was were be been its it this that these those " +
+    "has have had will would could may might can new says said after over amid into about than more most also " +
+    "rare earth earths metal metals mineral minerals critical price prices market markets ev evs electric vehicle " +
+    "vehicles car cars battery batteries magnet magnets supply demand report reports news update week year"
+  ).split(" ")
+);
+
+/**
+ * Link each article to the active thread it matches best, or start a new thread.
+ * Articles are taken in publication order so threads grow chronologically. The match
+ * score is the share of the article's keywords in the thread's keyword profile and,
+ * when the article mentions catalog entities, the share of those already in the thread;
+ * at least MIN_SHARED_KEYWORDS keywords must be shared. Returns the link per article url
+ * and every thread created or extended.
+ */
+export function assignStoryThreads(
+  candidates: ThreadCandidate[],
+  activeThreads: ThreadState[],
+  options: ThreadingOptions
+): { links: Map<string, StoryThreadLink>; touched: ThreadState[] } {
+  const threads = [...activeThreads];
+  const touched = new Set<ThreadState>();
+  const links = new Map<string, StoryThreadLink>();
+  const ordered = [...candidates].sort((a, b) => publishedAt(a.analysis).localeCompare(publishedAt(b.analysis)));
+
+  for (const candidate of ordered) {
+    const keywords = articleKeywords(candidate.analysis);
+    const at = publishedAt(candidate.analysis);
+    let best: { thread: ThreadState; score: number } | null = null;
+    for (const thread of threads) {
+      if (Math.abs(Date.parse(at) - Date.parse(thread.lastSeenAt)) > options.windowDays * DAY_MS) continue;
+      const score = matchScore(keywords, candidate.entityIds, thread);
+      if (score >= options.similarity && (!best || score > best.score)) best = { thread, score };
+    }
+
+    const thread = best?.thread ?? startThread(candidate.analysis, at);
+    if (!best) threads.push(thread);
+    extendThread(thread, candidate, keywords, at);
+    touched.add(thread);
+    links.set(candidate.analysis.article.url, {
+      id: thread.id,
+      firstSeenAt: thread.firstSeenAt,
+      articleCount: thread.articleCount,
+    });
+  }
+  return { links, touched: [...touched] };
+}
+
+/** Distinct headline and lead keywords: lowercase, without stopwords, plural "s" stripped. */
+export function articleKeywords(analysis: Pick<ArticleAnalysis, "article">): Set<string> {
+  const { title, description, content } = analysis.article;
+  const lead = (description || content || "").split(/\s+/).slice(0, LEAD_WORDS).join(" ");
+  return new Set(
+    `${title} ${lead}`
+      .normalize("NFKD")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, " ")
+      .split(" ")
+      .filter((word) => word.length >= 3 && !STOPWORDS.has(word) && !/^\d+$/.test(word))
+      .map((word) => (word.length > 4 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word))
+  );
+}
+
+function matchScore(keywords: Set<string>, entityIds: string[], thread: ThreadState): number {
+  const profile = new Set(thread.keywords);
+  const sharedKeywords = [...keywords].filter((k) => profile.has(k)).length;
+  if (sharedKeywords < MIN_SHARED_KEYWORDS || !keywords.size) return 0;
+  const keywordScore = sharedKeywords / keywords.size;
+  if (!entityIds.length) return keywordScore;
+  const entityScore = entityIds.filter((id) => thread.entityCounts[id]).length / entityIds.length;
+  return KEYWORD_SHARE * keywordScore + (1 - KEYWORD_SHARE) * entityScore;
+}
+
+function startThread(analysis: ArticleAnalysis, at: string): ThreadState {
+  return {
+    id: `${at.split("T")[0]}-${randomBytes(4).toString("hex")}`,
+    title: analysis.article.title,
+    firstSeenAt: at,
+    lastSeenAt: at,
+    articleCount: 0,
+    latestSentiment: analysis.classification.sentiment,
+    summary: "",
+    keywords: [],
+    entityIds: [],
+    keywordCounts: {},
+    entityCounts: {},
+    headlines: [],
+  };
+}
+
+function extendThread(thread: ThreadState, candidate: ThreadCandidate, keywords: Set<string>, at: string): void {
+  const { article, classification } = candidate.analysis;
+  thread.articleCount++;
+  if (at < thread.firstSeenAt) thread.firstSeenAt = at;
+  for (const keyword of keywords) thread.keywordCounts[keyword] = (thread.keywordCounts[keyword] ?? 0) + 1;
+  for (const id of candidate.entityIds) thread.entityCounts[id] = (thread.entityCounts[id] ?? 0) + 1;
+  thread.keywords = topKeys(thread.keywordCounts, PROFILE_KEYWORDS);
+  thread.entityIds = topKeys(thread.entityCounts, Infinity);
+
+  thread.headlines = [
+    { title: article.title, source: article.source, publishedAt: at, sentiment: classification.sentiment },
+    ...thread.headlines,
+  ]
+    .sort((a, b) => b.publishedAt.localeCompare(a.publishedAt))
+    .slice(0, HEADLINES);
+  if (at >= thread.lastSeenAt) {
+    thread.lastSeenAt = at;
+    thread.latestSentiment = classification.sentiment;
+  }
+  thread.summary = summarizeThread(thread);
+}
+
+/** "5 articles since 2026-10-01 (12 days). Latest: "…" (Reuters, 2026-10-12, bullish). Earlier: "…"; "…"." */
+function summarizeThread(thread: ThreadState): string {
+  const days = Math.round((Date.parse(thread.lastSeenAt) - Date.parse(thread.firstSeenAt)) / DAY_MS);
+  const [latest, ...earlier] = thread.headlines;
+  const span =
+    `${thread.articleCount} ${thread.articleCount === 1 ? "article" : "articles"} since ${thread.firstSeenAt.split("T")[0]}` +
+    (days > 0 ? ` (${days} ${days === 1 ? "day" : "days"}).` : ".");
+  const latestText = ` Latest: "${latest.title}" (${latest.source}, ${latest.publishedAt.split("T")[0]}, ${latest.sentiment}).`;
+  const earlierText = earlier.length ? ` Earlier: ${earlier.map((h) => `"${h.title}"`).join("; ")}.` : "";
+  return span + latestText + earlierText;
+}
+
+function topKeys(counts: Record<string, number>, limit: number): string[] {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([key]) => key);
+}
+
+// Undated articles are threaded as of now
+function publishedAt(analysis: Pick<ArticleAnalysis, "article">): string {
+  const time = analysis.article.publishedAt ? Date.parse(analysis.article.publishedAt) : NaN;
+  return new Date(Number.isNaN(time) ? Date.now() : time).toISOString();
+}
@@ -0,0 +1,1477 @@
+import path from "path";
+import { randomBytes } from "crypto";
+import { mkdirSync, existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { DatabaseSync } from "node:sqlite";
+import {
+  Article,
+  ArticleAnalysis,
+  ArticleEntity,
+  ArticleTranslation,
+  AggregatedSummary,
+  Classification,
+  EntityType,
+  MarketEvent,
+  PriceDataSummary,
+  RareEarthPriceImpact,
+  RareEarthRelevance,
+  Sentiment,
+  StoryThread,
+  StoryThreadLink,
+} from "../types";
+import { normalizeAggregateDrivers, normalizePriceImpact } from "../common/driverTaxonomy";
+import { log } from "../common/logger";
+import { NewsQuerySpec } from "../common/querySets";
+import { ThreadState } from "../statistics/storyThreads";
+
+// Explicit column list: analyses.id and articles.id would otherwise collide
+const ANALYSIS_COLUMNS = `
+  an.run_id, an.relevance_json, an.classification_json, an.price_impact_json, an.analyzed_at,
+  ar.id AS article_id, ar.url, ar.source, ar.source_id, ar.title, ar.description, ar.published_at,
+  ar.content, ar.author, ar.language, ar.translation_json`;
+
+const EVENT_COLUMNS = `
+  ev.run_id, ev.event_json, ev.extracted_at, ar.url, ar.title, ar.source, ar.published_at`;
+
+const WATCHLIST_HIT_COLUMNS = `
+  wh.watchlist_id, wh.run_id, wh.entity_ids_json, wh.flagged_at, ar.url, ar.title, ar.source, ar.published_at`;
+
+export type RunMode = "fetch" | "analysis" | "prediction" | "prices" | "backfill" | "legacy-import";
+export type RunStatus = "running" | "completed" | "failed" | "skipped";
+
+export interface RunRecord {
+  id: string;
+  mode: RunMode;
+  status: RunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  note?: string;
+  inputs?: Record<string, unknown>; // options the run was started with, kept for resuming it
+}
+
+export type StageStatus = "running" | "completed" | "failed" | "skipped";
+
+/** Progress of one pipeline stage within a run, with its checkpointed output. */
+export interface StageCheckpoint {
+  stage: string;
+  status: StageStatus;
+  startedAt: string;
+  finishedAt?: string;
+  output?: unknown; // JSON checkpoint of a completed stage
+  error?: string;
+}
+
+/** Stored per-article analysis. Irrelevant articles only carry a relevance assessment. */
+export interface StoredAnalysis {
+  runId: string;
+  article: Article;
+  relevance: RareEarthRelevance;
+  classification?: Classification;
+  priceImpact?: RareEarthPriceImpact;
+  analyzedAt: string;
+}
+
+/** Cached analysis of one article content version under one prompt version. */
+export interface CachedAnalysis {
+  relevance: RareEarthRelevance;
+  classification?: Classification;
+  priceImpact?: RareEarthPriceImpact;
+  events?: MarketEvent[]; // absent for irrelevant articles or when extraction was off
+  cachedAt: string;
+}
+
+/** One extracted market event with the article that reported it. */
+export interface StoredEvent {
+  runId: string;
+  article: Pick<Article, "url" | "title" | "source" | "publishedAt">;
+  event: MarketEvent;
+  extractedAt: string;
+}
+
+/** Articles linked to a run and/or published within a window (inclusive ISO bounds). */
+export interface ArticleQuery {
+  runId?: string;
+  from?: string;
+  to?: string;
+}
+
+/** Filters for loadLatestEvents; dates bound the reporting article's publication date. */
+export interface EventQuery {
+  from?: string;
+  to?: string;
+  type?: string;
+  metal?: string;
+  country?: string;
+  limit?: number;
+}
+
+/** Mention counts of one entity over the articles of a window. */
+export interface EntityCount {
+  id: string;
+  name: string;
+  type: EntityType;
+  articles: number; // articles mentioning the entity
+  mentions: number; // total alias matches over those articles
+}
+
+/** Filters for loadEntityCounts; dates bound the article's publication date. */
+export interface EntityQuery {
+  from?: string;
+  to?: string;
+  type?: EntityType;
+  limit?: number;
+}
+
+/** An article flagged on a watchlist, with the watched entities it mentions. */
+export interface StoredWatchlistHit {
+  watchlistId: string;
+  runId: string; // run that first saw the article while the watchlist covered it
+  article: Pick<Article, "url" | "title" | "source" | "publishedAt">;
+  entityIds: string[];
+  flaggedAt: string;
+}
+
+/** Filters for loadWatchlistHits; dates bound the article's publication date. */
+export interface WatchlistHitQuery {
+  watchlistId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+/** One article of a story thread with the sentiment of its latest analysis. */
+export interface StoredThreadArticle {
+  article: Pick<Article, "url" | "title" | "source" | "publishedAt">;
+  sentiment?: Sentiment;
+  runId: string; // run that linked the article to the thread
+}
+
+export interface StoredAggregate {
+  runId: string;
+  createdAt: string;
+  sourceRunId?: string; // analysis run the aggregate was derived from (prediction-only runs)
+  summary: AggregatedSummary;
+}
+
+export interface StoredPriceData {
+  runId: string;
+  priceData: PriceDataSummary;
+}
+
+/** One provider request for a query, with the articles it returned and their latest relevance. */
+export interface StoredQueryFetch {
+  runId: string;
+  queryId: string;
+  query: string;
+  fetchedAt: string;
+  articles: Array<{ url: string; relevance?: RareEarthRelevance }>; // relevance absent until analyzed
+}
+
+/** A downloaded web page (article or robots.txt) kept so it is not requested again. */
+export interface CachedPage {
+  url: string;
+  status: number; // HTTP status of the response
+  contentType?: string;
+  body: string;
+  fetchedAt: string;
+}
+
+export type BackfillGranularity = "day" | "week";
+
+/** A historical news fetch over a date range, worked off window by window across runs. */
+export interface BackfillRecord {
+  id: string;
+  from: string; // first day, YYYY-MM-DD
+  to: string; // last day, inclusive
+  window: BackfillGranularity;
+  queries: NewsQuerySpec[];
+  pageLimit: number; // pages requested per query and window
+  status: "active" | "completed";
+  createdAt: string;
+  completedAt?: string;
+}
+
+export type BackfillWindowStatus = "pending" | "completed" | "failed";
+
+/** One query over one window of a backfill: the unit that is fetched, tracked and resumed. */
+export interface BackfillWindow {
+  backfillId: string;
+  start: string; // first day of the window, YYYY-MM-DD
+  end: string; // last day, inclusive
+  queryIndex: number;
+  status: BackfillWindowStatus;
+  articles?: number; // articles the providers returned
+  saturated?: boolean; // every requested page came back full, so the window likely holds more articles
+  runId?: string; // run that fetched (or last tried) it
+  error?: string;
+  fetchedAt?: string;
+}
+
+/**
+ * Embedded SQLite store (node:sqlite) for runs and their stage checkpoints, articles with their
+ * translations and entities, per-article analyses, market events, watchlist hits, story threads, aggregate
+ * summaries and price data, keyed by pipeline run id, plus request counts against external
+ * API quotas, downloaded article pages, the requests made per news query and the progress
+ * of news backfills.
+ * Structured payloads are stored as JSON columns next to the indexed fields.
+ */
+export class SqliteStore {
+  private readonly db: DatabaseSync;
+
+  constructor(public readonly dbPath: string) {
+    if (dbPath !== ":memory:") {
+      mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+    }
+    this.db = new DatabaseSync(dbPath);
+    this.db.exec("PRAGMA journal_mode = WAL; PRAGMA foreign_keys = ON;");
+    this.migrate();
+  }
+
+  // ── Runs ──────────────────────────────────────────────────────────────────────
+
+  /** Register a new pipeline run and return its id. */
+  public startRun(mode: RunMode, startedAt = new Date()): string {
+    const id = `${startedAt.toISOString().replace(/[:.]/g, "-")}-${randomBytes(3).toString("hex")}`;
+    this.db
+      .prepare("INSERT INTO runs (id, mode, status, started_at) VALUES (?, ?, 'running', ?)")
+      .run(id, mode, startedAt.toISOString());
+    return id;
+  }
+
+  public finishRun(runId: string, status: Exclude<RunStatus, "running">, note?: string): void {
+    this.db
+      .prepare("UPDATE runs SET status = ?, finished_at = ?, note = ? WHERE id = ?")
+      .run(status, new Date().toISOString(), note ?? null, runId);
+  }
+
+  public setRunInputs(runId: string, inputs: Record<string, unknown>): void {
+    this.db.prepare("UPDATE runs SET inputs_json = ? WHERE id = ?").run(JSON.stringify(inputs), runId);
+  }
+
+  /** Mark a finished run as running again, to resume it or re-run some of its stages. */
+  public reopenRun(runId: string): void {
+    this.db
+      .prepare("UPDATE runs SET status = 'running', finished_at = NULL, note = NULL WHERE id = ?")
+      .run(runId);
+  }
+
+  public getRun(runId: string): RunRecord | null {
+    const row = this.db.prepare("SELECT * FROM runs WHERE id = ?").get(runId);
+    return row ? toRunRecord(row) : null;
+  }
+
+  /** Latest run of `mode` with `status`, e.g. the last completed fetch. */
+  public findLatestRun(mode: RunMode, status: RunStatus = "completed"): RunRecord | null {
+    const row = this.db
+      .prepare("SELECT * FROM runs WHERE mode = ? AND status = ? ORDER BY started_at DESC LIMIT 1")
+      .get(mode, status);
+    return row ? toRunRecord(row) : null;
+  }
+
+  public listRuns(limit = 20): RunRecord[] {
+    return this.db
+      .prepare("SELECT * FROM runs ORDER BY started_at DESC LIMIT ?")
+      .all(limit)
+      .map(toRunRecord);
+  }
+
+  // ── Stage checkpoints ───────────────────────────────────────────────────────
+
+  public startStage(runId: string, stage: string): void {
+    this.db
+      .prepare(`
+        INSERT OR REPLACE INTO run_stages (run_id, stage, status, started_at)
+        VALUES (?, ?, 'running', ?)
+      `)
+      .run(runId, stage, new Date().toISOString());
+  }
+
+  /** Record how a stage ended; `output` is its checkpoint when completed. */
+  public finishStage(
+    runId: string,
+    stage: string,
+    status: Exclude<StageStatus, "running">,
+    output?: unknown,
+    error?: string
+  ): void {
+    this.db
+      .prepare(`
+        INSERT INTO run_stages (run_id, stage, status, started_at, finished_at, output_json, error)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(run_id, stage) DO UPDATE SET
+          status = excluded.status,
+          finished_at = excluded.finished_at,
+          output_json = excluded.output_json,
+          error = excluded.error
+      `)
+      .run(
+        runId, stage, status, new Date().toISOString(), new Date().toISOString(),
+        output === undefined ? null : JSON.stringify(output), error ?? null
+      );
+  }
+
+  /** Stages of a run in the order they were started. */
+  public loadStageCheckpoints(runId: string): StageCheckpoint[] {
+    return this.db
+      .prepare("SELECT * FROM run_stages WHERE run_id = ? ORDER BY started_at, rowid")
+      .all(runId)
+      .map((row) => ({
+        stage: String(row.stage),
+        status: row.status as StageStatus,
+        startedAt: String(row.started_at),
+        finishedAt: (row.finished_at as string | null) ?? undefined,
+        output: row.output_json === null ? undefined : JSON.parse(String(row.output_json)),
+        error: (row.error as string | null) ?? undefined,
+      }));
+  }
+
+  // ── Articles & analyses ─────────────────────────────────────────────────────
+
+  /** Upsert fetched articles and link them to the run that fetched them. An edited article loses its translation. */
+  public saveArticles(runId: string, articles: Article[]): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO articles (url, id, source, source_id, title, description, published_at, content, author, language, first_seen_run_id, first_seen_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(url) DO UPDATE SET
+        source_id = COALESCE(excluded.source_id, articles.source_id),
+        translation_json = CASE
+          WHEN excluded.title IS articles.title AND excluded.description IS articles.description
+            AND COALESCE(excluded.content, articles.content) IS articles.content
+          THEN articles.translation_json
+        END,
+        title = excluded.title,
+        description = excluded.description,
+        content = COALESCE(excluded.content, articles.content),
+        language = COALESCE(excluded.language, articles.language),
+        published_at = COALESCE(excluded.published_at, articles.published_at)
+    `);
+    const link = this.db.prepare(
+      "INSERT OR IGNORE INTO run_articles (run_id, article_url) VALUES (?, ?)"
+    );
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      for (const a of articles) {
+        upsert.run(
+          a.url, a.id, a.source, a.sourceId ?? null, a.title, a.description ?? null, a.publishedAt ?? null,
+          a.content ?? null, a.author ?? null, a.language ?? null, runId, now
+        );
+        link.run(runId, a.url);
+      }
+    });
+  }
+
+  /** Record one query request of the run and the (stored) articles it returned. */
+  public saveQueryFetch(runId: string, query: NewsQuerySpec, articleUrls: string[]): void {
+    const link = this.db.prepare("INSERT OR IGNORE INTO query_articles (fetch_id, article_url) VALUES (?, ?)");
+    this.transaction(() => {
+      const { lastInsertRowid } = this.db
+        .prepare("INSERT INTO query_fetches (run_id, query_id, query, articles, fetched_at) VALUES (?, ?, ?, ?, ?)")
+        .run(runId, query.id, query.query, new Set(articleUrls).size, new Date().toISOString());
+      for (const url of articleUrls) link.run(lastInsertRowid, url);
+    });
+  }
+
+  /** Query requests made within [from, to] (inclusive ISO bounds on the request time), oldest first. */
+  public loadQueryFetches(from?: string, to?: string): StoredQueryFetch[] {
+    const conditions = ["1 = 1"];
+    const params: string[] = [];
+    if (from) {
+      conditions.push("qf.fetched_at >= ?");
+      params.push(from);
+    }
+    if (to) {
+      conditions.push("qf.fetched_at <= ?");
+      params.push(to);
+    }
+    const rows = this.db
+      .prepare(`
+        SELECT qf.id, qf.run_id, qf.query_id, qf.query, qf.fetched_at, qa.article_url, an.relevance_json
+        FROM query_fetches qf
+        LEFT JOIN query_articles qa ON qa.fetch_id = qf.id
+        LEFT JOIN analyses an ON an.id = (SELECT MAX(id) FROM analyses WHERE article_url = qa.article_url)
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY qf.fetched_at, qf.id
+      `)
+      .all(...params);
+    const fetches = new Map<number, StoredQueryFetch>();
+    for (const row of rows) {
+      const id = Number(row.id);
+      if (!fetches.has(id)) {
+        fetches.set(id, {
+          runId: String(row.run_id),
+          queryId: String(row.query_id),
+          query: String(row.query),
+          fetchedAt: String(row.fetched_at),
+          articles: [],
+        });
+      }
+      if (row.article_url !== null) {
+        fetches.get(id)!.articles.push({
+          url: String(row.article_url),
+          ...(row.relevance_json !== null && { relevance: JSON.parse(String(row.relevance_json)) }),
+        });
+      }
+    }
+    return [...fetches.values()];
+  }
+
+  /** Store the body text extracted from an article's page. */
+  public saveArticleFullText(url: string, fullText: string): void {
+    this.db
+      .prepare("UPDATE articles SET full_text = ?, full_text_at = ? WHERE url = ?")
+      .run(fullText, new Date().toISOString(), url);
+  }
+
+  /** English translation stored for an article, if any. */
+  public loadArticleTranslation(url: string): ArticleTranslation | undefined {
+    const row = this.db.prepare("SELECT translation_json FROM articles WHERE url = ?").get(url);
+    return row?.translation_json ? JSON.parse(String(row.translation_json)) : undefined;
+  }
+
+  /** Store the English translation of an article's text, replacing an earlier one. */
+  public saveArticleTranslation(url: string, translation: ArticleTranslation): void {
+    const { fallbackReason, ...stored } = translation;
+    this.db.prepare("UPDATE articles SET translation_json = ? WHERE url = ?").run(JSON.stringify(stored), url);
+  }
+
+  /**
+   * Record which article represents each syndicated copy fetched by the run (url → representative url,
+   * the representative mapping to itself). Articles not listed stand for themselves.
+   */
+  public saveRunClusters(runId: string, representativeByUrl: Map<string, string>): void {
+    const update = this.db.prepare(
+      "UPDATE run_articles SET representative_url = ? WHERE run_id = ? AND article_url = ?"
+    );
+    this.transaction(() => {
+      for (const [url, representativeUrl] of representativeByUrl) update.run(representativeUrl, runId, url);
+    });
+  }
+
+  /** Stored articles matching the query, in publication order (undated last). */
+  public loadArticles(query: ArticleQuery = {}): Article[] {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    const filters: Array<[string | undefined, string]> = [
+      [query.runId, "ar.url IN (SELECT article_url FROM run_articles WHERE run_id = ?)"],
+      [query.from, "ar.published_at >= ?"],
+      [query.to, "ar.published_at <= ?"],
+    ];
+    for (const [value, condition] of filters) {
+      if (value === undefined) continue;
+      conditions.push(condition);
+      params.push(value);
+    }
+    return this.db
+      .prepare(`
+        SELECT ar.* FROM articles ar
+        ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+        ORDER BY ar.published_at IS NULL, ar.published_at, ar.url
+      `)
+      .all(...params)
+      .map(toArticle);
+  }
+
+  /** Outlets carrying each clustered story of a run, keyed by representative url (unclustered articles absent). */
+  public loadRunCoverage(runId: string): Map<string, number> {
+    const rows = this.db
+      .prepare(`
+        SELECT representative_url, COUNT(*) AS coverage FROM run_articles
+        WHERE run_id = ? AND representative_url IS NOT NULL
+        GROUP BY representative_url
+      `)
+      .all(runId);
+    return new Map(rows.map((row) => [String(row.representative_url), Number(row.coverage)]));
+  }
+
+  /**
+   * Persist one per-article analysis. Classification/price impact are absent for irrelevant articles.
+   * `cacheHit` records that the result was reused from the analysis cache rather than freshly computed.
+   */
+  public saveAnalysis(
+    runId: string,
+    article: Article,
+    relevance: RareEarthRelevance,
+    classification?: Classification,
+    priceImpact?: RareEarthPriceImpact,
+    cacheHit = false
+  ): void {
+    this.db
+      .prepare(`
+        INSERT INTO analyses (run_id, article_url, relevant, relevance_json, classification_json, price_impact_json, analyzed_at, cache_hit)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        runId,
+        article.url,
+        relevance.relevant && relevance.automotiveRelevant ? 1 : 0,
+        JSON.stringify(relevance),
+        classification ? JSON.stringify(classification) : null,
+        priceImpact ? JSON.stringify(priceImpact) : null,
+        new Date().toISOString(),
+        cacheHit ? 1 : 0
+      );
+  }
+
+  // ── Analysis cache ──────────────────────────────────────────────────────────
+
+  /** Look up a cached analysis by article content hash and prompt version. */
+  public getCachedAnalysis(contentHash: string, promptVersion: string): CachedAnalysis | null {
+    const row = this.db
+      .prepare("SELECT * FROM analysis_cache WHERE content_hash = ? AND prompt_version = ?")
+      .get(contentHash, promptVersion);
+    if (!row) return null;
+    return {
+      relevance: JSON.parse(String(row.relevance_json)),
+      classification: row.classification_json
+        ? JSON.parse(String(row.classification_json))
+        : undefined,
+      priceImpact: row.price_impact_json ? JSON.parse(String(row.price_impact_json)) : undefined,
+      events: row.events_json ? JSON.parse(String(row.events_json)) : undefined,
+      cachedAt: String(row.cached_at),
+    };
+  }
+
+  public putCachedAnalysis(
+    contentHash: string,
+    promptVersion: string,
+    articleUrl: string,
+    relevance: RareEarthRelevance,
+    classification?: Classification,
+    priceImpact?: RareEarthPriceImpact,
+    events?: MarketEvent[]
+  ): void {
+    this.db
+      .prepare(`
+        INSERT OR REPLACE INTO analysis_cache
+          (content_hash, prompt_version, article_url, relevance_json, classification_json, price_impact_json, events_json, cached_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        contentHash,
+        promptVersion,
+        articleUrl,
+        JSON.stringify(relevance),
+        classification ? JSON.stringify(classification) : null,
+        priceImpact ? JSON.stringify(priceImpact) : null,
+        events ? JSON.stringify(events) : null,
+        new Date().toISOString()
+      );
+  }
+
+  /** Drop the analyses and events stored for a run, so its articles are analyzed afresh. */
+  public clearRunAnalyses(runId: string): void {
+    this.transaction(() => {
+      this.db.prepare("DELETE FROM analyses WHERE run_id = ?").run(runId);
+      this.db.prepare("DELETE FROM events WHERE run_id = ?").run(runId);
+    });
+  }
+
+  /** All analyses recorded by one run (relevant and irrelevant). */
+  public loadRunAnalyses(runId: string): StoredAnalysis[] {
+    return this.db
+      .prepare(`
+        SELECT ${ANALYSIS_COLUMNS} FROM analyses an
+        JOIN articles ar ON ar.url = an.article_url
+        WHERE an.run_id = ?
+        ORDER BY an.id
+      `)
+      .all(runId)
+      .map(toStoredAnalysis);
+  }
+
+  /**
+   * Latest complete analysis of each relevant article published in [from, to].
+   * Used to re-aggregate past windows independently of the run that produced them.
+   */
+  public loadRelevantAnalysesForWindow(from: string, to: string): ArticleAnalysis[] {
+    return this.db
+      .prepare(`
+        SELECT ${ANALYSIS_COLUMNS} FROM analyses an
+        JOIN articles ar ON ar.url = an.article_url
+        WHERE an.id IN (SELECT MAX(id) FROM analyses GROUP BY article_url)
+          AND an.relevant = 1
+          AND an.classification_json IS NOT NULL
+          AND an.price_impact_json IS NOT NULL
+          AND ar.published_at >= ? AND ar.published_at <= ?
+        ORDER BY ar.published_at
+      `)
+      .all(from, to)
+      .map(toStoredAnalysis)
+      .map((a) => ({
+        article: a.article,
+        relevance: a.relevance,
+        classification: a.classification!,
+        priceImpact: a.priceImpact!,
+      }));
+  }
+
+  /** Latest analysis of every article (relevant or not) published within [from, to], either bound optional. */
+  public loadLatestAnalyses(from?: string, to?: string): StoredAnalysis[] {
+    const conditions = ["an.id IN (SELECT MAX(id) FROM analyses GROUP BY article_url)"];
+    const params: string[] = [];
+    if (from) {
+      conditions.push("ar.published_at >= ?");
+      params.push(from);
+    }
+    if (to) {
+      conditions.push("ar.published_at <= ?");
+      params.push(to);
+    }
+    return this.db
+      .prepare(`
+        SELECT ${ANALYSIS_COLUMNS} FROM analyses an
+        JOIN articles ar ON ar.url = an.article_url
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY ar.published_at
+      `)
+      .all(...params)
+      .map(toStoredAnalysis);
+  }
+
+  // ── Market events ─────────────────────────────────────────────────────────────
+
+  /** Persist the events one run extracted from one article (none is a valid result). */
+  public saveEvents(runId: string, articleUrl: string, events: MarketEvent[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO events
+        (run_id, article_url, type, country, company, metal, volume_tonnes, effective_date, stance, confidence, event_json, extracted_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      for (const e of events) {
+        insert.run(
+          runId, articleUrl, e.type, e.country, e.company, e.metal, e.volumeTonnes, e.effectiveDate,
+          e.stance, e.confidence, JSON.stringify(e), now
+        );
+      }
+    });
+  }
+
+  /** Events extracted by one run. */
+  public loadRunEvents(runId: string): StoredEvent[] {
+    return this.db
+      .prepare(`
+        SELECT ${EVENT_COLUMNS} FROM events ev
+        JOIN articles ar ON ar.url = ev.article_url
+        WHERE ev.run_id = ?
+        ORDER BY ev.id
+      `)
+      .all(runId)
+      .map(toStoredEvent);
+  }
+
+  /**
+   * Events from the latest analysis of each article, newest article first.
+   * An article re-analyzed without events no longer contributes its earlier ones.
+   */
+  public loadLatestEvents(query: EventQuery = {}): StoredEvent[] {
+    const conditions = [
+      "ev.run_id = (SELECT run_id FROM analyses WHERE id = (SELECT MAX(id) FROM analyses an WHERE an.article_url = ev.article_url))",
+    ];
+    const params: Array<string | number> = [];
+    const filters: Array<[string | undefined, string]> = [
+      [query.from, "ar.published_at >= ?"],
+      [query.to, "ar.published_at <= ?"],
+      [query.type, "ev.type = ?"],
+      [query.metal, "ev.metal = ?"],
+      [query.country, "LOWER(ev.country) = LOWER(?)"],
+    ];
+    for (const [value, condition] of filters) {
+      if (value === undefined) continue;
+      conditions.push(condition);
+      params.push(value);
+    }
+    return this.db
+      .prepare(`
+        SELECT ${EVENT_COLUMNS} FROM events ev
+        JOIN articles ar ON ar.url = ev.article_url
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY ar.published_at DESC, ev.id
+        LIMIT ?
+      `)
+      .all(...params, query.limit ?? 100)
+      .map(toStoredEvent);
+  }
+
+  // ── Entities & watchlists ─────────────────────────────────────────────────────
+
+  /** Replace the recognized entities of each article (entities depend on the current text and catalog). */
+  public saveArticleEntities(entitiesByUrl: Map<string, ArticleEntity[]>): void {
+    const clear = this.db.prepare("DELETE FROM article_entities WHERE article_url = ?");
+    const insert = this.db.prepare(`
+      INSERT INTO article_entities (article_url, entity_id, name, type, mentions) VALUES (?, ?, ?, ?, ?)
+    `);
+    this.transaction(() => {
+      for (const [url, entities] of entitiesByUrl) {
+        clear.run(url);
+        for (const e of entities) insert.run(url, e.id, e.name, e.type, e.mentions);
+      }
+    });
+  }
+
+  /** Entities by number of articles mentioning them, most covered first. */
+  public loadEntityCounts(query: EntityQuery = {}): EntityCount[] {
+    const conditions = ["1 = 1"];
+    const params: Array<string | number> = [];
+    const filters: Array<[string | undefined, string]> = [
+      [query.from, "ar.published_at >= ?"],
+      [query.to, "ar.published_at <= ?"],
+      [query.type, "ae.type = ?"],
+    ];
+    for (const [value, condition] of filters) {
+      if (value === undefined) continue;
+      conditions.push(condition);
+      params.push(value);
+    }
+    return this.db
+      .prepare(`
+        SELECT ae.entity_id, MAX(ae.name) AS name, MAX(ae.type) AS type,
+          COUNT(*) AS articles, SUM(ae.mentions) AS mentions
+        FROM article_entities ae
+        JOIN articles ar ON ar.url = ae.article_url
+        WHERE ${conditions.join(" AND ")}
+        GROUP BY ae.entity_id
+        ORDER BY articles DESC, mentions DESC, ae.entity_id
+        LIMIT ?
+      `)
+      .all(...params, query.limit ?? 50)
+      .map((row) => ({
+        id: String(row.entity_id),
+        name: String(row.name),
+        type: row.type as EntityType,
+        articles: Number(row.articles),
+        mentions: Number(row.mentions),
+      }));
+  }
+
+  /**
+   * Flag an article on a watchlist. Each article is flagged once per watchlist, by the first run
+   * that sees it while the watchlist covers one of its entities; returns false if already flagged.
+   */
+  public flagWatchlistArticle(runId: string, watchlistId: string, articleUrl: string, entityIds: string[]): boolean {
+    const result = this.db
+      .prepare(`
+        INSERT OR IGNORE INTO watchlist_hits (watchlist_id, article_url, run_id, entity_ids_json, flagged_at)
+        VALUES (?, ?, ?, ?, ?)
+      `)
+      .run(watchlistId, articleUrl, runId, JSON.stringify(entityIds), new Date().toISOString());
+    return Number(result.changes) > 0;
+  }
+
+  /** Flagged articles, newest article first. */
+  public loadWatchlistHits(query: WatchlistHitQuery = {}): StoredWatchlistHit[] {
+    const conditions = ["1 = 1"];
+    const params: Array<string | number> = [];
+    const filters: Array<[string | undefined, string]> = [
+      [query.watchlistId, "wh.watchlist_id = ?"],
+      [query.from, "ar.published_at >= ?"],
+      [query.to, "ar.published_at <= ?"],
+    ];
+    for (const [value, condition] of filters) {
+      if (value === undefined) continue;
+      conditions.push(condition);
+      params.push(value);
+    }
+    return this.db
+      .prepare(`
+        SELECT ${WATCHLIST_HIT_COLUMNS} FROM watchlist_hits wh
+        JOIN articles ar ON ar.url = wh.article_url
+        WHERE ${conditions.join(" AND ")}
+        ORDER BY ar.published_at DESC, wh.flagged_at DESC
+        LIMIT ?
+      `)
+      .all(...params, query.limit ?? 100)
+      .map(toStoredWatchlistHit);
+  }
+
+  /** Number of flagged articles and the latest flag time per watchlist id. */
+  public countWatchlistHits(): Record<string, { count: number; lastFlaggedAt: string }> {
+    const rows = this.db
+      .prepare(`
+        SELECT watchlist_id, COUNT(*) AS count, MAX(flagged_at) AS last_flagged_at
+        FROM watchlist_hits GROUP BY watchlist_id
+      `)
+      .all();
+    return Object.fromEntries(
+      rows.map((row) => [String(row.watchlist_id), { count: Number(row.count), lastFlaggedAt: String(row.last_flagged_at) }])
+    );
+  }
+
+  // ── Story threads ───────────────────────────────────────────────────────────
+
+  /** Threads whose latest article was published at or after `since` (ISO), with their matching profiles. */
+  public loadActiveThreads(since: string): ThreadState[] {
+    return this.db
+      .prepare("SELECT state_json FROM story_threads WHERE last_seen_at >= ? ORDER BY last_seen_at DESC")
+      .all(since)
+      .map((row) => JSON.parse(String(row.state_json)) as ThreadState);
+  }
+
+  /** Insert or update threads created or extended by a run. */
+  public saveThreads(threads: ThreadState[]): void {
+    const upsert = this.db.prepare(`
+      INSERT OR REPLACE INTO story_threads (id, first_seen_at, last_seen_at, article_count, state_json, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      for (const t of threads) {
+        upsert.run(t.id, t.firstSeenAt, t.lastSeenAt, t.articleCount, JSON.stringify(t), now);
+      }
+    });
+  }
+
+  /** Link articles to their threads; an article keeps the thread it was first linked to. */
+  public linkThreadArticles(runId: string, links: Map<string, StoryThreadLink>): void {
+    const insert = this.db.prepare(
+      "INSERT OR IGNORE INTO thread_articles (article_url, thread_id, run_id, linked_at) VALUES (?, ?, ?, ?)"
+    );
+    const now = new Date().toISOString();
+    this.transaction(() => {
+      for (const [url, link] of links) insert.run(url, link.id, runId, now);
+    });
+  }
+
+  /** Current thread of each already threaded article among `urls`. */
+  public loadArticleThreads(urls: string[]): Map<string, StoryThreadLink> {
+    const lookup = this.db.prepare(`
+      SELECT ta.article_url, st.id, st.first_seen_at, st.article_count FROM thread_articles ta
+      JOIN story_threads st ON st.id = ta.thread_id
+      WHERE ta.article_url = ?
+    `);
+    const links = new Map<string, StoryThreadLink>();
+    for (const url of urls) {
+      const row = lookup.get(url);
+      if (row) {
+        links.set(url, {
+          id: String(row.id),
+          firstSeenAt: String(row.first_seen_at),
+          articleCount: Number(row.article_count),
+        });
+      }
+    }
+    return links;
+  }
+
+  /** Threads by latest article, newest first; `since` (ISO) keeps only threads active since then. */
+  public listThreads(since?: string, limit = 20): StoryThread[] {
+    return this.db
+      .prepare(`
+        SELECT state_json FROM story_threads
+        WHERE last_seen_at >= ?
+        ORDER BY last_seen_at DESC, article_count DESC
+        LIMIT ?
+      `)
+      .all(since ?? "", limit)
+      .map((row) => toStoryThread(JSON.parse(String(row.state_json))));
+  }
+
+  public getThread(threadId: string): StoryThread | null {
+    const row = this.db.prepare("SELECT state_json FROM story_threads WHERE id = ?").get(threadId);
+    return row ? toStoryThread(JSON.parse(String(row.state_json))) : null;
+  }
+
+  /** Articles of one thread in publication order, with the sentiment of each one's latest analysis. */
+  public loadThreadArticles(threadId: string): StoredThreadArticle[] {
+    return this.db
+      .prepare(`
+        SELECT ta.run_id, ar.url, ar.title, ar.source, ar.published_at,
+          (SELECT classification_json FROM analyses an WHERE an.article_url = ta.article_url ORDER BY an.id DESC LIMIT 1)
+            AS classification_json
+        FROM thread_articles ta
+        JOIN articles ar ON ar.url = ta.article_url
+        WHERE ta.thread_id = ?
+        ORDER BY ar.published_at, ar.url
+      `)
+      .all(threadId)
+      .map((row) => ({
+        article: {
+          url: String(row.url),
+          title: String(row.title),
+          source: String(row.source),
+          publishedAt: row.published_at ? String(row.published_at) : undefined,
+        },
+        sentiment: row.classification_json ? JSON.parse(String(row.classification_json)).sentiment : undefined,
+        runId: String(row.run_id),
+      }));
+  }
+
+  // ── Aggregates ──────────────────────────────────────────────────────────────
+
+  public saveAggregate(runId: string, summary: AggregatedSummary, sourceRunId?: string): void {
+    this.db
+      .prepare(`
+        INSERT OR REPLACE INTO aggregates (run_id, source_run_id, created_at, summary_json)
+        VALUES (?, ?, ?, ?)
+      `)
+      .run(runId, sourceRunId ?? null, new Date().toISOString(), JSON.stringify(summary));
+  }
+
+  public loadLatestAggregate(): StoredAggregate | null {
+    const row = this.db
+      .prepare("SELECT * FROM aggregates ORDER BY created_at DESC, rowid DESC LIMIT 1")
+      .get();
+    return row ? toStoredAggregate(row) : null;
+  }
+
+  public loadAggregate(runId: string): StoredAggregate | null {
+    const row = this.db.prepare("SELECT * FROM aggregates WHERE run_id = ?").get(runId);
+    return row ? toStoredAggregate(row) : null;
+  }
+
+  /** All stored aggregates, oldest first. */
+  public loadAggregateHistory(): StoredAggregate[] {
+    return this.db
+      .prepare("SELECT * FROM aggregates ORDER BY created_at ASC, rowid ASC")
+      .all()
+      .map(toStoredAggregate);
+  }
+
+  // ── Price data ──────────────────────────────────────────────────────────────
+
+  public savePriceData(runId: string, priceData: PriceDataSummary): void {
+    this.db
+      .prepare(`
+        INSERT INTO price_data (run_id, fetched_at, period_start, period_end, source, summary_json)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `)
+      .run(
+        runId,
+        priceData.fetchedAt,
+        priceData.periodStart,
+        priceData.periodEnd,
+        priceData.source,
+        JSON.stringify(priceData)
+      );
+  }
+
+  public loadLatestPriceData(): StoredPriceData | null {
+    const row = this.db
+      .prepare("SELECT * FROM price_data ORDER BY fetched_at DESC, id DESC LIMIT 1")
+      .get();
+    return row
+      ? { runId: String(row.run_id), priceData: JSON.parse(String(row.summary_json)) }
+      : null;
+  }
+
+  public loadPriceHistory(): StoredPriceData[] {
+    return this.db
+      .prepare("SELECT * FROM price_data ORDER BY fetched_at ASC, id ASC")
+      .all()
+      .map((row) => ({
+        runId: String(row.run_id),
+        priceData: JSON.parse(String(row.summary_json)) as PriceDataSummary,
+      }));
+  }
+
+  // ── Page cache ──────────────────────────────────────────────────────────────
+
+  public getCachedPage(url: string): CachedPage | null {
+    const row = this.db.prepare("SELECT * FROM page_cache WHERE url = ?").get(url);
+    if (!row) return null;
+    return {
+      url: String(row.url),
+      status: Number(row.status),
+      contentType: (row.content_type as string | null) ?? undefined,
+      body: String(row.body),
+      fetchedAt: String(row.fetched_at),
+    };
+  }
+
+  public putCachedPage(page: CachedPage): void {
+    this.db
+      .prepare(`
+        INSERT OR REPLACE INTO page_cache (url, status, content_type, body, fetched_at)
+        VALUES (?, ?, ?, ?, ?)
+      `)
+      .run(page.url, page.status, page.contentType ?? null, page.body, page.fetchedAt);
+  }
+
+  // ── API usage ───────────────────────────────────────────────────────────────
+
+  /** Requests made to `api` in one quota period (YYYY-MM-DD or YYYY-MM). */
+  public getApiUsage(api: string, period: string): number {
+    const row = this.db
+      .prepare("SELECT requests FROM api_usage WHERE api = ? AND period = ?")
+      .get(api, period);
+    return row ? Number(row.requests) : 0;
+  }
+
+  public addApiUsage(api: string, period: string, requests: number): void {
+    this.db
+      .prepare(`
+        INSERT INTO api_usage (api, period, requests, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT(api, period) DO UPDATE SET
+          requests = api_usage.requests + excluded.requests,
+          updated_at = excluded.updated_at
+      `)
+      .run(api, period, requests, new Date().toISOString());
+  }
+
+  // ── Backfills ────────────────────────────────────────────────────────────────
+
+  /** Register a backfill with one pending unit per window and query. */
+  public createBackfill(
+    backfill: Omit<BackfillRecord, "id" | "status" | "createdAt" | "completedAt">,
+    windows: Array<{ start: string; end: string }>
+  ): BackfillRecord {
+    const createdAt = new Date().toISOString();
+    const id = `backfill-${createdAt.replace(/[:.]/g, "-")}-${randomBytes(3).toString("hex")}`;
+    const insertWindow = this.db.prepare(`
+      INSERT INTO backfill_windows (backfill_id, window_start, window_end, query_index, status)
+      VALUES (?, ?, ?, ?, 'pending')
+    `);
+    this.transaction(() => {
+      this.db
+        .prepare(`
+          INSERT INTO backfills (id, from_date, to_date, granularity, queries_json, page_limit, status, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, 'active', ?)
+        `)
+        .run(id, backfill.from, backfill.to, backfill.window, JSON.stringify(backfill.queries), backfill.pageLimit, createdAt);
+      for (const window of windows) {
+        backfill.queries.forEach((_, queryIndex) => insertWindow.run(id, window.start, window.end, queryIndex));
+      }
+    });
+    return { ...backfill, id, status: "active", createdAt };
+  }
+
+  public getBackfill(backfillId: string): BackfillRecord | null {
+    const row = this.db.prepare("SELECT * FROM backfills WHERE id = ?").get(backfillId);
+    return row ? toBackfillRecord(row) : null;
+  }
+
+  /** Backfills, oldest first; only those with `status` when given. */
+  public listBackfills(status?: BackfillRecord["status"]): BackfillRecord[] {
+    return this.db
+      .prepare(`SELECT * FROM backfills ${status ? "WHERE status = ?" : ""} ORDER BY created_at, rowid`)
+      .all(...(status ? [status] : []))
+      .map(toBackfillRecord);
+  }
+
+  /** Units of a backfill in fetch order: by window, then query. */
+  public loadBackfillWindows(backfillId: string): BackfillWindow[] {
+    return this.db
+      .prepare("SELECT * FROM backfill_windows WHERE backfill_id = ? ORDER BY window_start, query_index")
+      .all(backfillId)
+      .map((row) => ({
+        backfillId: String(row.backfill_id),
+        start: String(row.window_start),
+        end: String(row.window_end),
+        queryIndex: Number(row.query_index),
+        status: row.status as BackfillWindowStatus,
+        articles: row.articles === null ? undefined : Number(row.articles),
+        saturated: row.saturated === null ? undefined : row.saturated === 1,
+        runId: (row.run_id as string | null) ?? undefined,
+        error: (row.error as string | null) ?? undefined,
+        fetchedAt: (row.fetched_at as string | null) ?? undefined,
+      }));
+  }
+
+  /** Record how fetching one unit ended. */
+  public finishBackfillWindow(
+    window: Pick<BackfillWindow, "backfillId" | "start" | "queryIndex">,
+    runId: string,
+    outcome: { articles: number; saturated: boolean } | { error: string }
+  ): void {
+    const completed = "articles" in outcome;
+    this.db
+      .prepare(`
+        UPDATE backfill_windows
+        SET status = ?, articles = ?, saturated = ?, run_id = ?, error = ?, fetched_at = ?
+        WHERE backfill_id = ? AND window_start = ? AND query_index = ?
+      `)
+      .run(
+        completed ? "completed" : "failed",
+        completed ? outcome.articles : null,
+        completed ? (outcome.saturated ? 1 : 0) : null,
+        runId,
+        completed ? null : outcome.error,
+        new Date().toISOString(),
+        window.backfillId, window.start, window.queryIndex
+      );
+  }
+
+  public completeBackfill(backfillId: string): void {
+    this.db
+      .prepare("UPDATE backfills SET status = 'completed', completed_at = ? WHERE id = ?")
+      .run(new Date().toISOString(), backfillId);
+  }
+
+  // ── Legacy import ───────────────────────────────────────────────────────────
+
+  /**
+   * One-time import of the dated aggregate-summary-*.json / price-data-*.json files
+   * written by earlier versions. Skipped once the store holds any aggregate or price data.
+   */
+  public importLegacyJsonFiles(outDir: string): number {
+    const hasData =
+      this.db.prepare("SELECT 1 FROM aggregates LIMIT 1").get() ||
+      this.db.prepare("SELECT 1 FROM price_data LIMIT 1").get();
+    if (hasData || !existsSync(outDir) || !statSync(outDir).isDirectory()) return 0;
+
+    const files = readdirSync(outDir)
+      .filter(
+        (f) =>
+          (f.startsWith("aggregate-summary-") || f.startsWith("price-data-")) &&
+          f.endsWith(".json")
+      )
+      .map((f) => ({ name: f, mtime: statSync(path.join(outDir, f)).mtime }))
+      .sort((a, b) => a.mtime.getTime() - b.mtime.getTime());
+
+    let imported = 0;
+    for (const file of files) {
+      try {
+        const payload = JSON.parse(readFileSync(path.join(outDir, file.name), "utf-8"));
+        const runId = this.startRun("legacy-import", file.mtime);
+        if (file.name.startsWith("aggregate-summary-")) {
+          this.db
+            .prepare("INSERT INTO aggregates (run_id, created_at, summary_json) VALUES (?, ?, ?)")
+            .run(runId, file.mtime.toISOString(), JSON.stringify(payload));
+        } else {
+          this.savePriceData(runId, payload as PriceDataSummary);
+        }
+        this.finishRun(runId, "completed", `imported from ${file.name}`);
+        imported++;
+      } catch (e) {
+        console.warn(`[store] Failed to import ${file.name}: ${(e as Error).message}`);
+      }
+    }
+    return imported;
+  }
+
+  public close(): void {
+    this.db.close();
+  }
+
+  // ── Private helpers ───────────────────────────────────────────────────────────
+
+  private transaction(fn: () => void): void {
+    this.db.exec("BEGIN");
+    try {
+      fn();
+      this.db.exec("COMMIT");
+    } catch (e) {
+      this.db.exec("ROLLBACK");
+      throw e;
+    }
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS runs (
+        id TEXT PRIMARY KEY,
+        mode TEXT NOT NULL,
+        status TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        note TEXT
+      );
+      CREATE TABLE IF NOT EXISTS run_stages (
+        run_id TEXT NOT NULL REFERENCES runs(id),
+        stage TEXT NOT NULL,
+        status TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        finished_at TEXT,
+        output_json TEXT,
+        error TEXT,
+        PRIMARY KEY (run_id, stage)
+      );
+      CREATE TABLE IF NOT EXISTS articles (
+        url TEXT PRIMARY KEY,
+        id TEXT NOT NULL,
+        source TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT,
+        published_at TEXT,
+        content TEXT,
+        author TEXT,
+        language TEXT,
+        first_seen_run_id TEXT NOT NULL REFERENCES runs(id),
+        first_seen_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_articles_published ON articles(published_at);
+      CREATE TABLE IF NOT EXISTS run_articles (
+        run_id TEXT NOT NULL REFERENCES runs(id),
+        article_url TEXT NOT NULL REFERENCES articles(url),
+        PRIMARY KEY (run_id, article_url)
+      );
+      CREATE TABLE IF NOT EXISTS analyses (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL REFERENCES runs(id),
+        article_url TEXT NOT NULL REFERENCES articles(url),
+        relevant INTEGER NOT NULL,
+        relevance_json TEXT NOT NULL,
+        classification_json TEXT,
+        price_impact_json TEXT,
+        analyzed_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS analysis_cache (
+        content_hash TEXT NOT NULL,
+        prompt_version TEXT NOT NULL,
+        article_url TEXT NOT NULL,
+        relevance_json TEXT NOT NULL,
+        classification_json TEXT,
+        price_impact_json TEXT,
+        cached_at TEXT NOT NULL,
+        PRIMARY KEY (content_hash, prompt_version)
+      );
+      CREATE INDEX IF NOT EXISTS idx_analyses_run ON analyses(run_id);
+      CREATE INDEX IF NOT EXISTS idx_analyses_article ON analyses(article_url);
+      CREATE TABLE IF NOT EXISTS events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL REFERENCES runs(id),
+        article_url TEXT NOT NULL REFERENCES articles(url),
+        type TEXT NOT NULL,
+        country TEXT,
+        company TEXT,
+        metal TEXT,
+        volume_tonnes REAL,
+        effective_date TEXT,
+        stance TEXT NOT NULL,
+        confidence REAL NOT NULL,
+        event_json TEXT NOT NULL,
+        extracted_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_events_article ON events(article_url);
+      CREATE INDEX IF NOT EXISTS idx_events_run ON events(run_id);
+      CREATE TABLE IF NOT EXISTS article_entities (
+        article_url TEXT NOT NULL REFERENCES articles(url),
+        entity_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        mentions INTEGER NOT NULL,
+        PRIMARY KEY (article_url, entity_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_article_entities_entity ON article_entities(entity_id);
+      CREATE TABLE IF NOT EXISTS watchlist_hits (
+        watchlist_id TEXT NOT NULL,
+        article_url TEXT NOT NULL REFERENCES articles(url),
+        run_id TEXT NOT NULL REFERENCES runs(id),
+        entity_ids_json TEXT NOT NULL,
+        flagged_at TEXT NOT NULL,
+        PRIMARY KEY (watchlist_id, article_url)
+      );
+      CREATE TABLE IF NOT EXISTS story_threads (
+        id TEXT PRIMARY KEY,
+        first_seen_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        article_count INTEGER NOT NULL,
+        state_json TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_story_threads_last_seen ON story_threads(last_seen_at);
+      CREATE TABLE IF NOT EXISTS thread_articles (
+        article_url TEXT PRIMARY KEY REFERENCES articles(url),
+        thread_id TEXT NOT NULL REFERENCES story_threads(id),
+        run_id TEXT NOT NULL REFERENCES runs(id),
+        linked_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_thread_articles_thread ON thread_articles(thread_id);
+      CREATE TABLE IF NOT EXISTS aggregates (
+        run_id TEXT PRIMARY KEY REFERENCES runs(id),
+        source_run_id TEXT,
+        created_at TEXT NOT NULL,
+        summary_json TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS price_data (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL REFERENCES runs(id),
+        fetched_at TEXT NOT NULL,
+        period_start TEXT NOT NULL,
+        period_end TEXT NOT NULL,
+        source TEXT NOT NULL,
+        summary_json TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS api_usage (
+        api TEXT NOT NULL,
+        period TEXT NOT NULL,
+        requests INTEGER NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (api, period)
+      );
+      CREATE TABLE IF NOT EXISTS page_cache (
+        url TEXT PRIMARY KEY,
+        status INTEGER NOT NULL,
+        content_type TEXT,
+        body TEXT NOT NULL,
+        fetched_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS query_fetches (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL REFERENCES runs(id),
+        query_id TEXT NOT NULL,
+        query TEXT NOT NULL,
+        articles INTEGER NOT NULL,
+        fetched_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_query_fetches_fetched ON query_fetches(fetched_at);
+      CREATE TABLE IF NOT EXISTS query_articles (
+        fetch_id INTEGER NOT NULL REFERENCES query_fetches(id),
+        article_url TEXT NOT NULL REFERENCES articles(url),
+        PRIMARY KEY (fetch_id, article_url)
+      );
+      CREATE TABLE IF NOT EXISTS backfills (
+        id TEXT PRIMARY KEY,
+        from_date TEXT NOT NULL,
+        to_date TEXT NOT NULL,
+        granularity TEXT NOT NULL,
+        queries_json TEXT NOT NULL,
+        page_limit INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        completed_at TEXT
+      );
+      CREATE TABLE IF NOT EXISTS backfill_windows (
+        backfill_id TEXT NOT NULL REFERENCES backfills(id),
+        window_start TEXT NOT NULL,
+        window_end TEXT NOT NULL,
+        query_index INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        articles INTEGER,
+        saturated INTEGER,
+        run_id TEXT REFERENCES runs(id),
+        error TEXT,
+        fetched_at TEXT,
+        PRIMARY KEY (backfill_id, window_start, query_index)
+      );
+    `);
+    this.ensureColumn("analyses", "cache_hit", "INTEGER NOT NULL DEFAULT 0");
+    this.ensureColumn("analysis_cache", "events_json", "TEXT");
+    this.ensureColumn("run_articles", "representative_url", "TEXT");
+    this.ensureColumn("runs", "inputs_json", "TEXT");
+    this.ensureColumn("articles", "full_text", "TEXT");
+    this.ensureColumn("articles", "full_text_at", "TEXT");
+    this.ensureColumn("articles", "source_id", "TEXT");
+    this.ensureColumn("articles", "translation_json", "TEXT");
+  }
+
+  /** Add a column introduced after the table was first created. */
+  private ensureColumn(table: string, column: string, definition: string): void {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all();
+    if (!columns.some((c) => c.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+}
+
+/**
+ * Open the store at `dbPath`, importing legacy JSON output from output/ on first use.
+ */
+export function openStore(dbPath: string): SqliteStore {
+  const store = new SqliteStore(dbPath);
+  const imported = store.importLegacyJsonFiles(path.resolve(process.cwd(), "output"));
+  if (imported) {
+    log(`[store] Imported ${imported} legacy JSON file(s) into ${dbPath}`);
+  }
+  return store;
+}
+
+function toRunRecord(row: Record<string, any>): RunRecord {
+  return {
+    id: row.id,
+    mode: row.mode,
+    status: row.status,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at ?? undefined,
+    note: row.note ?? undefined,
+    inputs: row.inputs_json ? JSON.parse(row.inputs_json) : undefined,
+  };
+}
+
+function toBackfillRecord(row: Record<string, any>): BackfillRecord {
+  return {
+    id: row.id,
+    from: row.from_date,
+    to: row.to_date,
+    window: row.granularity,
+    queries: JSON.parse(row.queries_json),
+    pageLimit: row.page_limit,
+    status: row.status,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? undefined,
+  };
+}
+
+function toArticle(row: Record<string, any>): Article {
+  return {
+    id: row.id,
+    url: row.url,
+    source: row.source,
+    sourceId: row.source_id ?? undefined,
+    title: row.title,
+    description: row.description ?? undefined,
+    publishedAt: row.published_at ?? undefined,
+    content: row.content ?? undefined,
+    fullText: row.full_text ?? undefined,
+    author: row.author ?? undefined,
+    language: row.language ?? undefined,
+    ...(row.translation_json && { translation: JSON.parse(row.translation_json) }),
+  };
+}
+
+function toStoredAnalysis(row: Record<string, any>): StoredAnalysis {
+  return {
+    runId: row.run_id,
+    article: {
+      id: row.article_id,
+      url: row.url,
+      source: row.source,
+      sourceId: row.source_id ?? undefined,
+      title: row.title,
+      description: row.description ?? undefined,
+      publishedAt: row.published_at ?? undefined,
+      content: row.content ?? undefined,
+      author: row.author ?? undefined,
+      language: row.language ?? undefined,
+      ...(row.translation_json && { translation: JSON.parse(row.translation_json) }),
+    },
+    relevance: JSON.parse(row.relevance_json),
+    classification: row.classification_json ? JSON.parse(row.classification_json) : undefined,
+    priceImpact: row.price_impact_json ? normalizePriceImpact(JSON.parse(row.price_impact_json)) : undefined,
+    analyzedAt: row.analyzed_at,
+  };
+}
+
+function toStoredEvent(row: Record<string, any>): StoredEvent {
+  return {
+    runId: row.run_id,
+    article: {
+      url: row.url,
+      title: row.title,
+      source: row.source,
+      publishedAt: row.published_at ?? undefined,
+    },
+    event: JSON.parse(row.event_json),
+    extractedAt: row.extracted_at,
+  };
+}
+
+function toStoredWatchlistHit(row: Record<string, any>): StoredWatchlistHit {
+  return {
+    watchlistId: row.watchlist_id,
+    runId: row.run_id,
+    article: {
+      url: row.url,
+      title: row.title,
+      source: row.source,
+      publishedAt: row.published_at ?? undefined,
+    },
+    entityIds: JSON.parse(row.entity_ids_json),
+    flaggedAt: row.flagged_at,
+  };
+}
+
+// Public view of a persisted thread, without its matching profile
+function toStoryThread(state: ThreadState): StoryThread {
+  const { keywordCounts, entityCounts, headlines, ...thread } = state;
+  return thread;
+}
+
+function toStoredAggregate(row: Record<string, any>): StoredAggregate {
+  return {
+    runId: row.run_id,
+    createdAt: row.created_at,
+    sourceRunId: row.source_run_id ?? undefined,
+    summary: normalizeAggregateDrivers(JSON.parse(row.summary_json)),
+  };
+}
@@ -0,0 +1,18 @@
+import { createHash } from "crypto";
+import { Article } from "../types";
+
+/**
+ * Content address of an article for the analysis cache.
+ * Covers every field the analyzers read, so an edited headline or body yields a new hash.
+ */
+export function articleContentHash(article: Article): string {
+  const payload = JSON.stringify([
+    article.url,
+    article.title,
+    article.description ?? "",
+    article.content ?? "",
+    article.source,
+    article.publishedAt ?? "",
+  ]);
+  return createHash("sha256").update(payload).digest("hex");
+}
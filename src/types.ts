@@ -1,16 +1,26 @@
 export type Sentiment = 'bullish' | 'bearish' | 'neutral';
 export type ImpactDirection = 'up' | 'down' | 'flat';
 
+// Why a result is a fallback instead of validated model output
+export type LlmFallbackReason =
+  | 'ai_disabled'    // no provider configured for the operation
+  | 'request_error'  // API call failed
+  | 'tls_error'      // API call failed on an untrusted certificate chain
+  | 'parse_error'    // reply was not JSON, also after the repair round
+  | 'schema_error';  // reply JSON did not match the schema, also after the repair round
+
 export interface Classification {
   sentiment: Sentiment;
   impact: ImpactDirection;
   confidence: number; // 0..1
+  fallbackReason?: LlmFallbackReason; // set when this is not model output
 }
 
 export interface AnalyzeInput {
   headline: string;
   body?: string;
   source?: string;
+  url?: string; // article URL; restricted sources are also matched by its host
   publishedAt?: string; // ISO string
 }
 
@@ -18,13 +28,25 @@ export interface AnalyzeInput {
 export interface Article {
   id: string; // provider-specific id or constructed hash
   url: string;
-  source: string; // provider source name or domain
+  source: string; // provider source name or domain; the canonical name for registered outlets
+  sourceId?: string; // id in the source registry (see common/sourceRegistry.ts), absent for unregistered outlets
   title: string;
   description?: string;
   publishedAt?: string; // ISO timestamp
   content?: string; // may be truncated depending on provider
+  fullText?: string; // main body text extracted from the article page (FULL_TEXT enrichment)
   author?: string;
-  language?: string;
+  language?: string; // ISO 639-1 code stated by the provider, else detected from the text (see common/languages.ts)
+  translation?: ArticleTranslation; // English text of a non-English article, next to the original
+}
+
+// Text fields of an article, e.g. the part of it still to be translated
+export type ArticleText = Partial<Pick<Article, 'title' | 'description' | 'content' | 'fullText'>>;
+
+// English translation of an article's text; fields are absent when the original has none or was not translated yet
+export interface ArticleTranslation extends ArticleText {
+  sourceLanguage: string; // ISO 639-1 code of the original, as identified by the model
+  fallbackReason?: LlmFallbackReason; // set when nothing was translated (never stored)
 }
 
 // Rare earth relevance assessment separate from market sentiment classification.
@@ -38,19 +60,110 @@ export interface RareEarthRelevance {
   automotiveContextTerms?: string[]; // matched automotive terms (e.g. 'EV', 'battery', 'motor', 'magnet')
   category?: 'magnet' | 'battery' | 'mixed' | 'other'; // dominant usage category inferred
   usage?: string; // brief usage phrase (e.g. 'NdFeB motor magnet', 'lithium-ion battery cathode')
+  fallbackReason?: LlmFallbackReason; // set when this is not model output
 }
 
 // Price impact assessment specific to rare earth metals market.
+// Canonical price drivers (see common/driverTaxonomy.ts); free-text phrases are mapped onto these
+export type PriceDriver =
+  | 'export policy'
+  | 'tariffs and sanctions'
+  | 'stockpiling'
+  | 'recycling'
+  | 'substitution'
+  | 'oversupply'
+  | 'demand slowdown'
+  | 'demand growth'
+  | 'new capacity'
+  | 'supply disruption'
+  | 'geopolitics'
+  | 'government policy'
+  | 'market prices'
+  | 'other';
+
 export interface RareEarthPriceImpact {
   direction: 'up' | 'down' | 'uncertain'; // expected short-term price move
   confidence: number; // 0..1
-  drivers: string[]; // key causal factors extracted (e.g. 'export controls', 'supply shortage')
+  drivers: PriceDriver[]; // key causal factors, most important first
   reasoning?: string; // brief model explanation (trimmed)
+  fallbackReason?: LlmFallbackReason; // set when this is not model output
+}
+
+// Kinds of discrete market events extracted from articles (see common/marketEvents.ts)
+export type MarketEventType =
+  | 'export restriction'
+  | 'mine opening'
+  | 'mine closure'
+  | 'offtake agreement'
+  | 'plant announcement'
+  | 'tariff'
+  | 'other';
+
+// One concrete market event reported by an article
+export interface MarketEvent {
+  type: MarketEventType;
+  country: string | null; // country enacting or hosting the event
+  company: string | null; // company involved, if any
+  metal: string | null; // tracked metal symbol (e.g. 'ND') when it matches, else lowercase metal name
+  volumeTonnes: number | null; // quantity affected, metric tonnes per year where stated
+  effectiveDate: string | null; // YYYY-MM-DD the event takes effect, if stated
+  stance: 'bullish' | 'bearish' | 'neutral'; // expected effect on the metal's price
+  confidence: number; // 0..1
+  summary: string; // one sentence (trimmed)
+}
+
+// Events extracted from one article (empty when it reports none)
+export interface MarketEventExtraction {
+  events: MarketEvent[];
+  fallbackReason?: LlmFallbackReason; // set when extraction did not run or failed
+}
+
+// Kinds of named entities recognized in articles (see common/entityCatalog.ts)
+export type EntityType = 'company' | 'automaker' | 'country';
+
+// One catalog entity mentioned by an article
+export interface ArticleEntity {
+  id: string; // canonical id, e.g. 'mp-materials', 'country:cn'
+  name: string; // canonical display name
+  type: EntityType;
+  mentions: number; // alias matches in title, description and content
+}
+
+// A developing story followed across days and runs (see statistics/storyThreads.ts)
+export interface StoryThread {
+  id: string;
+  title: string; // headline of the article that started the thread
+  firstSeenAt: string; // ISO publication time of the earliest article
+  lastSeenAt: string; // ISO publication time of the latest article
+  articleCount: number;
+  latestSentiment: Sentiment; // sentiment of the latest article
+  summary: string; // rolling summary: span, article count and the latest headlines
+  keywords: string[]; // most frequent headline/lead keywords, most frequent first
+  entityIds: string[]; // catalog entities mentioned across the thread
+}
+
+// The thread an analyzed article belongs to
+export interface StoryThreadLink {
+  id: string;
+  firstSeenAt: string; // when the story first broke
+  articleCount: number; // articles in the thread so far
+}
+
+// Full per-article analysis result produced by the pipeline for a relevant article.
+export interface ArticleAnalysis {
+  article: Article;
+  relevance: RareEarthRelevance;
+  classification: Classification;
+  priceImpact: RareEarthPriceImpact;
+  events?: MarketEvent[]; // market events reported by the article (absent when not extracted)
+  coverage?: number; // outlets carrying the story: syndicated copies folded into this article, plus itself (absent = 1)
+  thread?: StoryThreadLink; // developing story the article continues or starts
 }
 
 // Aggregate summary over all processed automotive-relevant rare earth articles.
 export interface AggregatedSummary {
   totalArticles: number; // total fetched
+  syndicatedCopies?: number; // fetched near-duplicates folded into a representative article (not analyzed or counted below)
   totalRelevant: number; // automotive relevant kept
   magnetCount: number; // articles categorized as magnet
   batteryCount: number; // articles categorized as battery
@@ -61,37 +174,103 @@ export interface AggregatedSummary {
   avgPriceImpactConfidence: number; // 0..1
   priceImpactDistribution: { up: number; down: number; uncertain: number }; // counts
   sentimentDistribution: { bullish: number; bearish: number; neutral: number }; // counts
-  dominantDrivers: string[]; // top recurring drivers
+  dominantDrivers: string[]; // most cited canonical drivers, excluding 'other'
+  driverStats?: DriverStat[]; // every cited driver with counts and directional lean, most cited first
+  reconciliation?: AggregateReconciliation; // model-restated counts vs. computed ones; absent without a model narrative
   narrative: string; // concise synthesized narrative
   suggestion: string; // high-level guidance (buy|hold|sell) + brief rationale + disclaimer
-  pricePrediction?: PricePrediction; // 14-day price prediction
+  fallbackReason?: LlmFallbackReason; // set when drivers, narrative and suggestion are heuristic, not model output
+  pricePrediction?: PricePrediction; // 14-day basket price prediction (derived from metalPredictions when available)
+  metalPredictions?: Partial<Record<MetalSymbol, PricePrediction>>; // 14-day prediction per tracked metal
+  languages?: AggregateBreakdown[]; // per article language, most relevant first; absent for aggregates of earlier versions
+  regions?: AggregateBreakdown[]; // per region (outlet's registry region, else the language's), most relevant first
 }
 
-// Price prediction for next 14 days based on news sentiment and historical volatility
+// Articles of one language or region within an aggregate and how the relevant ones lean
+export interface AggregateBreakdown {
+  key: string; // ISO 639-1 code or region; 'unknown' when it could not be told
+  totalArticles: number; // fetched from admitted sources, syndicated copies included
+  totalRelevant: number; // automotive relevant, as counted in the aggregate
+  priceImpactDistribution: { up: number; down: number; uncertain: number };
+  sentimentDistribution: { bullish: number; bearish: number; neutral: number };
+}
+
+// How many relevant articles cite one driver, and which way they expect prices to move
+export interface DriverStat {
+  driver: PriceDriver;
+  count: number; // articles citing the driver
+  up: number;
+  down: number;
+  uncertain: number;
+  lean: number; // (up - down) / count, -1..+1
+}
+
+// Result of checking the counts a model restated against the computed aggregate
+export interface AggregateReconciliation {
+  consistent: boolean;
+  mismatches: string[]; // e.g. "priceImpactDistribution.up: model 5, computed 7"
+}
+
+// Price prediction for next 14 days based on news sentiment and historical volatility.
+// Describes the basket unless `symbol` is set; per-metal predictions use the metal's own
+// price in currentBasketPrice / priceTarget / predictedChangeUSD.
 export interface PricePrediction {
+  symbol?: MetalSymbol; // metal this prediction covers; absent for the basket
   predictedChangePercent: number; // expected % change over 14 days
-  predictedChangeUSD: number; // expected USD change (using basket reference price)
+  predictedChangeUSD: number; // expected USD change (using basket or metal reference price)
   confidence: number; // 0..1 prediction confidence
   baselineVolatility: number; // historical 14-day avg volatility %
   newsImpactMultiplier: number; // sentiment-driven multiplier (0.5 to 2.0)
   priceTarget: number; // predicted price in USD
-  currentBasketPrice: number; // current rare earth basket reference price USD
+  currentBasketPrice: number; // current basket (or metal) reference price USD
   reasoning: string; // explanation of prediction
   priceDataSource?: 'metals-api' | 'seed' | 'static'; // origin of basket price and volatility
+  articleCount?: number; // relevant articles the prediction is based on
+  forecastBands?: ForecastBand[]; // simulated percentile prices for each day of the horizon
+  topArticles?: NewsContribution[]; // articles contributing most to the news score (weighted scoring only)
+  eventShockPercent?: number; // part of predictedChangePercent from discrete market events
+  eventShocks?: EventShock[]; // the events behind eventShockPercent, largest first
+}
+
+// One market event's contribution to a prediction, in percentage points
+export interface EventShock {
+  event: MarketEvent;
+  articleUrl: string;
+  shockPercent: number;
+  storySince?: string; // first-seen date of the story thread the shock was dated from, when older than the article
+}
+
+// One article's signed share of a prediction's combined news score (-1..+1 in total)
+export interface NewsContribution {
+  title: string;
+  url: string;
+  source: string;
+  publishedAt?: string;
+  contribution: number;
+  coverage?: number; // outlets that carried the story, when more than one
+  storySince?: string; // first-seen date of the story thread when the article is continued coverage
+}
+
+// Percentile prices (USD/kg) on one day of the forecast horizon, from Monte Carlo simulation
+export interface ForecastBand {
+  day: number; // 1..horizon, days after the prediction date
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
 }
 
 // ── Price Pipeline Types ──────────────────────────────────────────────────────
 
-/** Supported metals in the automotive rare-earth basket */
-export type MetalSymbol = 'ND' | 'PR' | 'LI' | 'CO';
+/**
+ * Metal code (e.g. 'ND', 'LI', 'DY'). The tracked set and basket weights come from
+ * the metals config; see common/metalUniverse.ts.
+ */
+export type MetalSymbol = string;
 
-/** Display name and basket weight for each tracked metal */
-export const METAL_INFO: Record<MetalSymbol, { name: string; weightInBasket: number }> = {
-  ND: { name: 'Neodymium oxide',    weightInBasket: 0.40 },
-  PR: { name: 'Praseodymium oxide', weightInBasket: 0.20 },
-  LI: { name: 'Lithium carbonate',  weightInBasket: 0.30 },
-  CO: { name: 'Cobalt',             weightInBasket: 0.10 },
-};
+/** Automotive usage category a metal's news is filed under (see RareEarthRelevance.category) */
+export type MetalCategory = 'magnet' | 'battery';
 
 /** Historical price series for one metal */
 export interface MetalPriceHistory {
@@ -0,0 +1,216 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { AddressInfo } from "node:net";
+import http from "node:http";
+import path from "node:path";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { FullTextFetcher, FullTextOptions, PageCache } from "../../src/fetchers/FullTextFetcher";
+import { extractMainText } from "../../src/fetchers/articleExtractor";
+import { CachedPage } from "../../src/storage/SqliteStore";
+
+const FIXTURES = path.resolve(__dirname, "../../fixtures");
+const fixture = (name: string) => readFileSync(path.join(FIXTURES, name), "utf-8");
+
+// Serves the fixture pages under any path, robots.txt per host, and redirects from /moved/<path> to <path>
+let server: http.Server;
+let port: number;
+let robots: Record<string, string>; // host name → robots.txt; missing ones are 404
+let requests: Array<{ host: string; path: string; at: number }>;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const host = new URL(`http://${req.headers.host}`).hostname;
+    const url = req.url ?? "/";
+    requests.push({ host, path: url, at: Date.now() });
+    if (url === "/robots.txt") {
+      if (robots[host] === undefined) return res.writeHead(404).end();
+      return res.writeHead(200, { "Content-Type": "text/plain" }).end(robots[host]);
+    }
+    if (url.startsWith("/moved/")) {
+      const target = url.slice("/moved".length);
+      const location = target.startsWith("/to-localhost/")
+        ? `http://localhost:${port}${target.slice("/to-localhost".length)}`
+        : target;
+      return res.writeHead(301, { Location: location }).end();
+    }
+    if (url.startsWith("/loop")) return res.writeHead(302, { Location: "/loop" }).end();
+    const name = path.basename(url);
+    if (!/^[a-z]+\.html$/.test(name)) return res.writeHead(404).end();
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" }).end(fixture(name));
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  robots = {};
+  requests = [];
+});
+
+class MemoryPageCache implements PageCache {
+  public readonly pages = new Map<string, CachedPage>();
+  getCachedPage(url: string): CachedPage | null {
+    return this.pages.get(url) ?? null;
+  }
+  putCachedPage(page: CachedPage): void {
+    this.pages.set(page.url, page);
+  }
+}
+
+function createFetcher(cache: PageCache = new MemoryPageCache(), options: Partial<FullTextOptions> = {}): FullTextFetcher {
+  return new FullTextFetcher(cache, {
+    userAgent: "SemantiCast/0.1",
+    timeoutMs: 5000,
+    domainDelayMs: 0,
+    maxChars: 12000,
+    ...options,
+  });
+}
+
+const pageUrl = (pagePath: string, host = "127.0.0.1") => `http://${host}:${port}${pagePath}`;
+const pageRequests = () => requests.filter((r) => r.path !== "/robots.txt");
+
+describe("extractMainText", () => {
+  test("keeps the article paragraphs and drops navigation, ads, sidebars, comments and footer", () => {
+    const text = extractMainText(fixture("article.html"));
+    assert.match(text, /^China tightens rare earth export controls\n\n/);
+    assert.match(text, /neodymium and praseodymium oxides/);
+    assert.match(text, /highest level since March\.$/);
+    for (const boilerplate of ["newsletter", "Advertisement", "Related stories", "Reader comment", "Copyright", "By A. Reporter"]) {
+      assert.ok(!text.includes(boilerplate), `extracted text contains '${boilerplate}'`);
+    }
+  });
+});
+
+describe("FullTextFetcher", () => {
+  test("extracts the text of a served page", async () => {
+    const result = await createFetcher().fetchText(pageUrl("/news/article.html"));
+    assert.equal(result.skipped, undefined);
+    assert.equal(result.fromCache, false);
+    assert.equal(result.text, extractMainText(fixture("article.html")));
+  });
+
+  test("skips pages with too little text", async () => {
+    const result = await createFetcher().fetchText(pageUrl("/news/teaser.html"));
+    assert.match(result.skipped ?? "", /^only \d+ characters of text$/);
+  });
+
+  test("does not request pages robots.txt disallows", async () => {
+    robots["127.0.0.1"] = "User-agent: *\nDisallow: /private/\nAllow: /private/open/\n";
+    const fetcher = createFetcher();
+
+    const disallowed = await fetcher.fetchText(pageUrl("/private/article.html"));
+    assert.equal(disallowed.skipped, "disallowed by robots.txt");
+    const allowed = await fetcher.fetchText(pageUrl("/private/open/article.html"));
+    assert.ok(allowed.text);
+    assert.deepEqual(
+      pageRequests().map((r) => r.path),
+      ["/private/open/article.html"]
+    );
+  });
+
+  test("applies the group of its own product token over the * group", async () => {
+    robots["127.0.0.1"] = "User-agent: *\nAllow: /\n\nUser-agent: OtherBot\nUser-agent: SemantiCast\nDisallow: /news/\n";
+    const result = await createFetcher().fetchText(pageUrl("/news/article.html"));
+    assert.equal(result.skipped, "disallowed by robots.txt");
+    assert.equal(pageRequests().length, 0);
+  });
+
+  test("spaces requests to one host by the domain delay, but not requests to different hosts", async () => {
+    const fetcher = createFetcher(undefined, { domainDelayMs: 250 });
+    await Promise.all([
+      fetcher.fetchText(pageUrl("/a/article.html")),
+      fetcher.fetchText(pageUrl("/b/article.html")),
+      fetcher.fetchText(pageUrl("/c/article.html", "localhost")),
+    ]);
+    const sameHost = pageRequests().filter((r) => r.host === "127.0.0.1");
+    assert.equal(sameHost.length, 2);
+    assert.ok(sameHost[1].at - sameHost[0].at >= 240, `requests ${sameHost[1].at - sameHost[0].at} ms apart`);
+    const otherHost = pageRequests().find((r) => r.host === "localhost")!;
+    assert.ok(otherHost.at - sameHost[0].at < 240, "a different host waited for the first host's delay");
+  });
+
+  test("waits out a Crawl-delay longer than the domain delay", async () => {
+    robots["127.0.0.1"] = "User-agent: *\nCrawl-delay: 0.4\n";
+    const fetcher = createFetcher(undefined, { domainDelayMs: 50 });
+    await Promise.all([fetcher.fetchText(pageUrl("/a/article.html")), fetcher.fetchText(pageUrl("/b/article.html"))]);
+    const [first, second] = pageRequests();
+    assert.ok(second.at - first.at >= 390, `requests ${second.at - first.at} ms apart`);
+  });
+
+  test("reads pages and robots.txt from the cache once downloaded", async () => {
+    robots["127.0.0.1"] = "User-agent: *\nDisallow: /private/\n";
+    const cache = new MemoryPageCache();
+    const first = await createFetcher(cache).fetchText(pageUrl("/news/article.html"));
+    assert.equal(first.fromCache, false);
+    assert.equal(requests.length, 2);
+
+    // A later run reads both from the cache and still honors the cached rules
+    const fetcher = createFetcher(cache);
+    const second = await fetcher.fetchText(pageUrl("/news/article.html"));
+    assert.equal(second.fromCache, true);
+    assert.equal(second.text, first.text);
+    const disallowed = await fetcher.fetchText(pageUrl("/private/article.html"));
+    assert.equal(disallowed.skipped, "disallowed by robots.txt");
+    assert.equal(requests.length, 2);
+  });
+
+  test("caches missing pages", async () => {
+    const cache = new MemoryPageCache();
+    const result = await createFetcher(cache).fetchText(pageUrl("/news/missing.txt"));
+    assert.equal(result.skipped, "HTTP 404");
+    assert.equal(cache.pages.get(pageUrl("/news/missing.txt"))?.status, 404);
+  });
+
+  test("follows redirects and caches the final page under the article URL", async () => {
+    const cache = new MemoryPageCache();
+    const result = await createFetcher(cache).fetchText(pageUrl("/moved/news/article.html"));
+    assert.ok(result.text);
+    assert.deepEqual(
+      pageRequests().map((r) => r.path),
+      ["/moved/news/article.html", "/news/article.html"]
+    );
+    assert.equal(cache.pages.get(pageUrl("/moved/news/article.html"))?.status, 200);
+  });
+
+  test("does not follow a redirect to a path robots.txt disallows", async () => {
+    robots["127.0.0.1"] = "User-agent: *\nDisallow: /private/\n";
+    const result = await createFetcher().fetchText(pageUrl("/moved/private/article.html"));
+    assert.match(result.skipped ?? "", /^redirect to .*\/private\/article\.html disallowed by robots\.txt$/);
+    assert.deepEqual(
+      pageRequests().map((r) => r.path),
+      ["/moved/private/article.html"]
+    );
+  });
+
+  test("checks the robots.txt of the host a redirect leads to", async () => {
+    robots["localhost"] = "User-agent: *\nDisallow: /news/\n";
+    const result = await createFetcher().fetchText(pageUrl("/moved/to-localhost/news/article.html"));
+    assert.match(result.skipped ?? "", /disallowed by robots\.txt$/);
+    assert.deepEqual(
+      requests.map((r) => `${r.host}${r.path}`),
+      ["127.0.0.1/robots.txt", "127.0.0.1/moved/to-localhost/news/article.html", "localhost/robots.txt"]
+    );
+  });
+
+  test("holds each redirect hop to its host's delay", async () => {
+    robots["localhost"] = "User-agent: *\nCrawl-delay: 0.4\n";
+    const fetcher = createFetcher();
+    await fetcher.fetchText(pageUrl("/c/article.html", "localhost"));
+    await fetcher.fetchText(pageUrl("/moved/to-localhost/news/article.html"));
+    const hops = pageRequests().filter((r) => r.host === "localhost");
+    assert.deepEqual(
+      hops.map((r) => r.path),
+      ["/c/article.html", "/news/article.html"]
+    );
+    assert.ok(hops[1].at - hops[0].at >= 390, `requests ${hops[1].at - hops[0].at} ms apart`);
+  });
+
+  test("gives up on redirect loops", async () => {
+    const result = await createFetcher().fetchText(pageUrl("/loop"));
+    assert.equal(result.skipped, "more than 5 redirects");
+    assert.equal(pageRequests().length, 6);
+  });
+});
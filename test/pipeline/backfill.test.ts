@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { AddressInfo } from "node:net";
+import http from "node:http";
+import { after, before, beforeEach, describe, test } from "node:test";
+import { AppConfig, getConfig } from "../../src/config";
+import { continueBackfill, openBackfill } from "../../src/pipeline/backfill";
+import { SqliteStore } from "../../src/storage/SqliteStore";
+
+const FEED = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Rare Earth Wire</title><language>en</language>
+<item><title>Rare earth magnet output rises</title><link>https://example.com/magnets</link>
+<description>Rare earth magnet makers raise output.</description><pubDate>Mon, 02 Mar 2026 08:00:00 GMT</pubDate></item>
+</channel></rss>`;
+
+// Serves FEED at /feed.xml, or HTTP 500 while `failing`
+let server: http.Server;
+let port: number;
+let failing: boolean;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    if (req.url !== "/feed.xml") return res.writeHead(404).end();
+    if (failing) return res.writeHead(500).end();
+    res.writeHead(200, { "Content-Type": "application/rss+xml" }).end(FEED);
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  failing = false;
+});
+
+function rssConfig(): AppConfig {
+  return { ...getConfig(), newsProviders: ["rss"], rssFeedUrls: [`http://127.0.0.1:${port}/feed.xml`], newsLanguages: ["en"] };
+}
+
+function openTestBackfill(store: SqliteStore) {
+  return openBackfill(store, {
+    from: "2026-03-02",
+    to: "2026-03-02",
+    window: "day",
+    queries: [{ id: "magnets", query: "rare earth magnet" }],
+  });
+}
+
+describe("continueBackfill", () => {
+  test("leaves a window outstanding when its feed fails", async () => {
+    const store = new SqliteStore(":memory:");
+    const backfill = openTestBackfill(store);
+    failing = true;
+
+    await assert.rejects(continueBackfill(rssConfig(), store, backfill.id), /feed\.xml: HTTP 500$/);
+    assert.deepEqual(
+      store.loadBackfillWindows(backfill.id).map((w) => w.status),
+      ["failed"]
+    );
+    assert.notEqual(store.getBackfill(backfill.id)?.status, "completed");
+
+    // The next session retries it
+    failing = false;
+    const progress = await continueBackfill(rssConfig(), store, backfill.id);
+    assert.equal(progress.completed, 1);
+    assert.equal(progress.fetchedArticles, 1);
+    assert.equal(store.getBackfill(backfill.id)?.status, "completed");
+  });
+});